@@ -1,21 +1,71 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo } from "react";
 import "./App.css";
-import { supabase } from "./supabaseClient";
 import ComandaCard, { Pedido } from "./components/ComandaCard";
 import CardapioPage from "./components/CardapioPage"; // Nova página do Cardápio
-import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import PedidosBoard from "./components/PedidosBoard";
+import CozinhaDisplay from "./components/CozinhaDisplay";
+import ClientesPage from "./components/ClientesPage";
+import FechamentoPage from "./components/FechamentoPage";
+import RelatoriosPage from "./components/RelatoriosPage";
+import EntregadoresPage from "./components/EntregadoresPage";
+import FiltrosPedidosBar from "./components/FiltrosPedidosBar";
+import FilaOfflinePanel from "./components/FilaOfflinePanel";
+import IndicadorConexao from "./components/IndicadorConexao";
+import AlertaConexaoBanner from "./components/AlertaConexaoBanner";
+import AlertaConexaoPanel from "./components/AlertaConexaoPanel";
+import SlaConfigPanel from "./components/SlaConfigPanel";
+import ImpressaoConfigPanel from "./components/ImpressaoConfigPanel";
+import PixConfigPanel from "./components/PixConfigPanel";
+import FluxoStatusConfigPanel from "./components/FluxoStatusConfigPanel";
+import ZonasEntregaPanel from "./components/ZonasEntregaPanel";
+import NovoPedidoDialog from "./components/NovoPedidoDialog";
+import ModoDemoBar from "./components/ModoDemoBar";
+import LoginPage from "./components/LoginPage";
+import { loginDispensado, nomesPapel, sair, type PerfilEquipe } from "./lib/equipe";
+import { ordenarPedidos } from "./lib/pedidos";
+import { repositorios } from "./lib/repositorios";
+import { calcularNivelSla, obterConfigSla, pesoNivelSla, salvarConfigSla, type ConfigSla, type NivelSla } from "./lib/sla";
+import { filtrarPedidos, filtrosVazios } from "./lib/filtrosPedidos";
+import { pedidoCancelado, reembolsoPendente } from "./lib/cancelamento";
+import { chaveDeBalcao } from "./lib/clientes";
+import { aplicarPendencias } from "./lib/filaOffline";
+import { entrarModoDemo, modoDemoAtivo } from "./lib/modoDemo";
+import { obterConfigAlertaConexao, salvarConfigAlertaConexao, type ConfigAlertaConexao } from "./lib/alertaConexao";
+import { useAgora } from "./hooks/use-agora";
+import { useFiltrosPedidos } from "./hooks/use-filtros-pedidos";
+import { usePrecosCardapio } from "./hooks/use-precos-cardapio";
+import { useZonasEntrega } from "./hooks/use-zonas-entrega";
+import { useTabelaRealtime } from "./hooks/use-tabela-realtime";
+import { useFilaOffline } from "./hooks/use-fila-offline";
+import { usePermissoes, useSessao } from "./hooks/use-sessao";
 
 const notificationSound = "/assets/sounds/notify.mp3";
 
-type View = "comandas" | "cardapio"; // Tipo para controlar a visualização
+type View = "comandas" | "cardapio" | "cozinha" | "clientes" | "fechamento" | "relatorios" | "entregadores"; // Tipo para controlar a visualização
+type LayoutPedidos = "grade" | "quadro"; // Grade de cards ou quadro por status
 
-function App() {
-  const [pedidos, setPedidos] = useState<Pedido[]>([]);
-  const [error, setError] = useState<string | null>(null);
-  const [newPedidoKeys, setNewPedidoKeys] = useState<Set<string>>(new Set());
+const viewsComPedidos: View[] = ["comandas", "cozinha", "fechamento", "entregadores"];
+
+function Painel({ perfil }: { perfil: PerfilEquipe }) {
+  const [newPedidoIds, setNewPedidoIds] = useState<Set<number>>(new Set());
   const audioPlayer = useRef<HTMLAudioElement | null>(null);
-  const channelRef = useRef<RealtimeChannel | null>(null);
   const [currentView, setCurrentView] = useState<View>("comandas"); // Estado para controlar a visualização atual
+  const [layoutPedidos, setLayoutPedidos] = useState<LayoutPedidos>("grade");
+  const [configSla, setConfigSla] = useState<ConfigSla>(obterConfigSla);
+  const [mostrarConfigSla, setMostrarConfigSla] = useState<boolean>(false);
+  const [mostrarConfigImpressao, setMostrarConfigImpressao] = useState<boolean>(false);
+  const [mostrarConfigPix, setMostrarConfigPix] = useState<boolean>(false);
+  const [mostrarConfigFluxo, setMostrarConfigFluxo] = useState<boolean>(false);
+  const [mostrarZonasEntrega, setMostrarZonasEntrega] = useState<boolean>(false);
+  const [configAlertaConexao, setConfigAlertaConexao] = useState<ConfigAlertaConexao>(obterConfigAlertaConexao);
+  const [mostrarConfigAlertaConexao, setMostrarConfigAlertaConexao] = useState<boolean>(false);
+  const [mostrarNovoPedido, setMostrarNovoPedido] = useState<boolean>(false);
+  const niveisAnterioresRef = useRef<Map<number, NivelSla>>(new Map());
+  const agora = useAgora(1000);
+  const [filtros, setFiltros] = useFiltrosPedidos(); // Refletidos na URL
+  const precosCardapio = usePrecosCardapio(currentView !== "cardapio"); // A página do cardápio tem o próprio canal
+  const permissoes = usePermissoes();
+  const { zonas: zonasEntrega, recarregar: recarregarZonasEntrega } = useZonasEntrega();
 
   const playNotificationSound = () => {
     if (audioPlayer.current) {
@@ -23,106 +73,119 @@ function App() {
     }
   };
 
-  const fetchPedidos = async (isNewInsert: boolean = false, insertedKey?: string) => {
-    console.log("Buscando pedidos...");
-    const { data, error: fetchError } = await supabase
-      .from("Comandas")
-      .select("*, hora_criacao_pedido")
-      .order("hora_criacao_pedido", { ascending: false });
-
-    if (fetchError) {
-      console.error("Erro ao buscar pedidos:", fetchError);
-      setError(`Falha ao carregar pedidos: ${fetchError.message}`);
-      setPedidos([]);
-    } else {
-      const fetchedPedidos = data as Pedido[];
-      console.log("Pedidos buscados:", fetchedPedidos);
-      setPedidos(fetchedPedidos);
-      setError(null);
-
-      if (isNewInsert && insertedKey) {
-        console.log("Novo pedido inserido, tocando som e destacando:", insertedKey);
-        if (!pedidos.find(p => p.telefone_key === insertedKey)) { // Evitar som duplicado se o fetch for muito rápido
-            playNotificationSound();
-            setNewPedidoKeys(prev => new Set(prev).add(insertedKey));
-            setTimeout(() => {
-              setNewPedidoKeys(prev => {
-                const updated = new Set(prev);
-                updated.delete(insertedKey);
-                return updated;
-              });
-            }, 5000);
-        }
+  // Som e destaque por alguns segundos para pedidos que ainda não estavam no painel
+  const destacarNovoPedido = (pedido: Pedido) => {
+    console.log("Novo pedido recebido, tocando som e destacando:", pedido.id);
+    playNotificationSound();
+    setNewPedidoIds(prev => new Set(prev).add(pedido.id));
+    setTimeout(() => {
+      setNewPedidoIds(prev => {
+        const updated = new Set(prev);
+        updated.delete(pedido.id);
+        return updated;
+      });
+    }, 5000);
+  };
+
+  // Os eventos do Realtime são aplicados direto na lista; a busca completa só reconcilia
+  const {
+    linhas: pedidosDoServidor,
+    erro: error,
+    status: statusRealtimePedidos,
+    sincronizar: sincronizarPedidos,
+  } = useTabelaRealtime<Pedido>({
+    repositorio: repositorios.pedidos,
+    canal: "comandas_realtime_channel",
+    descricao: "pedidos",
+    ordenar: ordenarPedidos,
+    ativo: viewsComPedidos.includes(currentView),
+    intervaloReconciliacaoMs: 2 * 60000,
+    aoInserir: destacarNovoPedido,
+  });
+
+  // Alterações ainda na fila offline aparecem nos cards como se já tivessem sido gravadas
+  const filaOffline = useFilaOffline();
+  const pedidos = useMemo(
+    () => aplicarPendencias(pedidosDoServidor, "Comandas", filaOffline),
+    [pedidosDoServidor, filaOffline]
+  );
+
+  useEffect(() => {
+    audioPlayer.current = new Audio(notificationSound);
+    audioPlayer.current.load();
+  }, []);
+
+  const niveisSla = useMemo(
+    () => new Map(pedidos.map(p => [p.id, calcularNivelSla(p, configSla, agora)])),
+    [pedidos, configSla, agora]
+  );
+
+  // Quantidade de pedidos no painel por telefone, para sinalizar clientes com mais de um pedido
+  const pedidosPorTelefone = useMemo(() => {
+    const contagem = new Map<string, number>();
+    pedidos
+      .filter(p => !pedidoCancelado(p) && !chaveDeBalcao(p.telefone_key))
+      .forEach(p => contagem.set(p.telefone_key, (contagem.get(p.telefone_key) ?? 0) + 1));
+    return contagem;
+  }, [pedidos]);
+
+  const reembolsosPendentes = useMemo(() => pedidos.filter(reembolsoPendente).length, [pedidos]);
+
+  // Atrasados primeiro; a ordenação é estável, então dentro de cada nível mantém a ordem por criação
+  const pedidosOrdenados = useMemo(
+    () => [...pedidos].sort((a, b) => pesoNivelSla[niveisSla.get(b.id) ?? "ok"] - pesoNivelSla[niveisSla.get(a.id) ?? "ok"]),
+    [pedidos, niveisSla]
+  );
+
+  // Pedidos que chegam pelo Realtime entram em `pedidos` e passam pelos mesmos filtros
+  const pedidosFiltrados = useMemo(() => filtrarPedidos(pedidosOrdenados, filtros), [pedidosOrdenados, filtros]);
+
+  // Toca o som novamente quando algum pedido sobe de nível (ok -> atenção -> atraso)
+  useEffect(() => {
+    const anteriores = niveisAnterioresRef.current;
+    let escalou = false;
+    niveisSla.forEach((nivel, key) => {
+      const anterior = anteriores.get(key);
+      if (anterior !== undefined && pesoNivelSla[nivel] > pesoNivelSla[anterior]) {
+        escalou = true;
       }
+    });
+    niveisAnterioresRef.current = niveisSla;
+    if (escalou) {
+      playNotificationSound();
     }
+  }, [niveisSla]);
+
+  const handleConfigSlaChange = (config: ConfigSla) => {
+    setConfigSla(config);
+    salvarConfigSla(config);
   };
 
-  useEffect(() => {
-    if (currentView === "comandas") {
-        fetchPedidos();
-
-        const handleChanges = (payload: RealtimePostgresChangesPayload<{[key: string]: any}>) => {
-          console.log("Mudança recebida do Supabase Realtime (Comandas)!", payload);
-          if (payload.eventType === "INSERT" && payload.new.telefone_key) {
-            if (!pedidos.find(p => p.telefone_key === payload.new.telefone_key)){
-                fetchPedidos(true, payload.new.telefone_key as string);
-            } else {
-                fetchPedidos(); 
-            }
-          } else {
-            fetchPedidos();
-          }
-        };
-
-        channelRef.current = supabase
-          .channel("comandas_realtime_channel")
-          .on(
-            "postgres_changes",
-            { event: "*", schema: "public", table: "Comandas" },
-            handleChanges
-          )
-          .subscribe((status: "SUBSCRIBED" | "TIMED_OUT" | "CLOSED" | "CHANNEL_ERROR", err?: Error) => {
-            if (status === "SUBSCRIBED") {
-              console.log("Conectado ao canal Realtime do Supabase (Comandas)!");
-            } else if (status === "CHANNEL_ERROR") {
-              console.error("Erro no canal Realtime do Supabase (Comandas):", err);
-              setError(`Erro de conexão em tempo real (Comandas): ${err?.message || "Erro desconhecido"}`);
-            } else if (status === "TIMED_OUT") {
-              console.warn("Timeout na conexão Realtime do Supabase (Comandas).");
-              setError("Conexão em tempo real (Comandas) expirou. Tente atualizar manualmente.");
-            } else if (status === "CLOSED"){
-              console.log("Canal Realtime (Comandas) fechado.")
-            }
-          });
-
-        audioPlayer.current = new Audio(notificationSound);
-        audioPlayer.current.load();
-
-        return () => {
-          if (channelRef.current) {
-            supabase.removeChannel(channelRef.current).then(status => console.log("Canal Realtime (Comandas) removido, status:", status)).catch(console.error);
-            channelRef.current = null;
-          }
-        };
-    } else {
-        // Lógica para quando a view for 'cardapio', se necessário desativar o canal de comandas
-        if (channelRef.current) {
-            supabase.removeChannel(channelRef.current).then(status => console.log("Canal Realtime (Comandas) removido ao mudar de view, status:", status)).catch(console.error);
-            channelRef.current = null;
-        }
-        setError(null); // Limpar erros de comandas ao mudar de view
+  const handleConfigAlertaConexaoChange = (config: ConfigAlertaConexao) => {
+    setConfigAlertaConexao(config);
+    salvarConfigAlertaConexao(config);
+  };
+
+  const handleEntrarModoDemo = () => {
+    if (window.confirm("Entrar no modo demonstração? A tela passa a mostrar pedidos fictícios até você sair dele.")) {
+      entrarModoDemo();
     }
-  // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [currentView]); // Adicionado currentView como dependência
+  };
 
+  // A alteração volta pelo Realtime; sem o canal conectado, busca tudo para não exibir dados velhos
   const handlePedidoUpdate = () => {
-    console.log("Atualização de pedido individual concluída, re-buscando todos os pedidos para manter a ordem.");
-    fetchPedidos();
+    if (statusRealtimePedidos !== "conectado") {
+      sincronizarPedidos("atualização local sem Realtime");
+    }
   };
 
   return (
     <div className="p-6 bg-gray-50 min-h-screen font-sans">
-      <header className="mb-10">
+      <AlertaConexaoBanner config={configAlertaConexao} agora={agora} />
+      <header className="mb-10 relative">
+        <div className="absolute top-0 right-0">
+          <IndicadorConexao />
+        </div>
         <h1 className="text-5xl font-bold text-center text-custom-pink">D’Ajuda Refeições</h1>
         <nav className="mt-4 mb-6 flex justify-center space-x-6">
           <button 
@@ -143,24 +206,176 @@ function App() {
           >
             Cardápio
           </button>
+          <button 
+            onClick={() => setCurrentView("clientes")} 
+            className={`px-6 py-2 rounded-lg text-lg font-medium transition-colors 
+                        ${currentView === "clientes" 
+                          ? "bg-custom-pink text-white shadow-md" 
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+          >
+            Clientes
+          </button>
+          <button 
+            onClick={() => setCurrentView("fechamento")} 
+            className={`px-6 py-2 rounded-lg text-lg font-medium transition-colors 
+                        ${currentView === "fechamento" 
+                          ? "bg-custom-pink text-white shadow-md" 
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+          >
+            Fechamento
+          </button>
+          <button 
+            onClick={() => setCurrentView("relatorios")} 
+            className={`px-6 py-2 rounded-lg text-lg font-medium transition-colors 
+                        ${currentView === "relatorios" 
+                          ? "bg-custom-pink text-white shadow-md" 
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+          >
+            Relatórios
+          </button>
+          <button 
+            onClick={() => setCurrentView("entregadores")} 
+            className={`px-6 py-2 rounded-lg text-lg font-medium transition-colors 
+                        ${currentView === "entregadores" 
+                          ? "bg-custom-pink text-white shadow-md" 
+                          : "bg-gray-200 text-gray-700 hover:bg-gray-300"}`}
+          >
+            Entregadores
+          </button>
+          <button 
+            onClick={() => setCurrentView("cozinha")} 
+            className="px-6 py-2 rounded-lg text-lg font-medium transition-colors bg-gray-200 text-gray-700 hover:bg-gray-300"
+          >
+            Cozinha
+          </button>
         </nav>
+        <div className="flex justify-center items-center gap-2 text-sm text-gray-600">
+          <span>
+            <span className="font-medium text-gray-800">{perfil.nome}</span> · {nomesPapel[perfil.papel]}
+          </span>
+          {!loginDispensado && (
+            <button onClick={sair} className="px-2 py-1 rounded-md text-gray-600 hover:bg-gray-200 transition-colors">
+              Sair
+            </button>
+          )}
+        </div>
         {currentView === "comandas" && <p className="text-2xl text-center text-gray-600 mt-2">Painel de Pedidos em Tempo Real</p>}
         {currentView === "cardapio" && <p className="text-2xl text-center text-gray-600 mt-2">Gerenciamento do Cardápio</p>}
+        {currentView === "clientes" && <p className="text-2xl text-center text-gray-600 mt-2">Diretório de Clientes</p>}
+        {currentView === "fechamento" && <p className="text-2xl text-center text-gray-600 mt-2">Fechamento do Dia</p>}
+        {currentView === "relatorios" && <p className="text-2xl text-center text-gray-600 mt-2">Relatórios de Vendas e Operação</p>}
+        {currentView === "entregadores" && <p className="text-2xl text-center text-gray-600 mt-2">Entregadores e Acerto do Dia</p>}
       </header>
 
+      {modoDemoAtivo() && <ModoDemoBar />}
       {error && <p className="text-red-600 text-center mb-6 p-4 bg-red-100 rounded-lg shadow">{error}</p>}
+      <FilaOfflinePanel />
       
       {currentView === "comandas" && (
         <>
-          <div className="text-center mb-8">
+          <div className="text-center mb-8 flex flex-wrap justify-center items-center gap-4">
             <button 
-              onClick={() => fetchPedidos()} 
+              onClick={() => sincronizarPedidos("atualização manual")} 
               className="px-7 py-3 bg-custom-pink text-white rounded-xl shadow-md hover:bg-pink-700 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-60 text-lg font-medium"
             >
               Atualizar Pedidos Manualmente
             </button>
+            {permissoes.lancarPedido && (
+              <button 
+                onClick={() => setMostrarNovoPedido(true)} 
+                className="px-7 py-3 bg-white text-custom-pink border-2 border-custom-pink rounded-xl shadow-md hover:bg-pink-50 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-60 text-lg font-medium"
+              >
+                Novo Pedido
+              </button>
+            )}
+            <div className="inline-flex rounded-xl bg-gray-200 p-1">
+              {(["grade", "quadro"] as LayoutPedidos[]).map(layout => (
+                <button
+                  key={layout}
+                  onClick={() => setLayoutPedidos(layout)}
+                  className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${
+                    layoutPedidos === layout ? "bg-white text-custom-pink shadow" : "text-gray-700 hover:bg-gray-300"
+                  }`}
+                >
+                  {layout === "grade" ? "Grade" : "Quadro por Status"}
+                </button>
+              ))}
+            </div>
+            <button
+              onClick={() => setMostrarConfigSla(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarConfigSla ? "Fechar Tempos Limite" : "Tempos Limite"}
+            </button>
+            <button
+              onClick={() => setMostrarConfigImpressao(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarConfigImpressao ? "Fechar Impressora" : "Impressora"}
+            </button>
+            <button
+              onClick={() => setMostrarConfigPix(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarConfigPix ? "Fechar Pix" : "Pix"}
+            </button>
+            <button
+              onClick={() => setMostrarConfigFluxo(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarConfigFluxo ? "Fechar Regras de Status" : "Regras de Status"}
+            </button>
+            <button
+              onClick={() => setMostrarZonasEntrega(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarZonasEntrega ? "Fechar Zonas de Entrega" : "Zonas de Entrega"}
+            </button>
+            <button
+              onClick={() => setMostrarConfigAlertaConexao(prev => !prev)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {mostrarConfigAlertaConexao ? "Fechar Alerta de Conexão" : "Alerta de Conexão"}
+            </button>
+            {!modoDemoAtivo() && (
+              <button
+                onClick={handleEntrarModoDemo}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+              >
+                Modo Treinamento
+              </button>
+            )}
           </div>
 
+          {mostrarConfigSla && <SlaConfigPanel config={configSla} onChange={handleConfigSlaChange} />}
+          {mostrarConfigImpressao && <ImpressaoConfigPanel />}
+          {mostrarConfigPix && <PixConfigPanel />}
+          {mostrarConfigFluxo && <FluxoStatusConfigPanel />}
+          {mostrarZonasEntrega && <ZonasEntregaPanel zonas={zonasEntrega} onAlterado={recarregarZonasEntrega} />}
+          {mostrarConfigAlertaConexao && <AlertaConexaoPanel config={configAlertaConexao} onChange={handleConfigAlertaConexaoChange} />}
+          {mostrarNovoPedido && (
+            <NovoPedidoDialog
+              cardapio={precosCardapio}
+              zonas={zonasEntrega}
+              onCriado={() => setMostrarNovoPedido(false)}
+              onCancelar={() => setMostrarNovoPedido(false)}
+            />
+          )}
+
+          {reembolsosPendentes > 0 && (
+            <div className="bg-amber-50 border border-amber-300 rounded-xl p-3 mb-4 flex flex-wrap items-center justify-between gap-3 text-left">
+              <p className="text-amber-800 font-medium">{reembolsosPendentes} pedido(s) cancelado(s) aguardando reembolso ao cliente.</p>
+              <button
+                onClick={() => setFiltros({ ...filtrosVazios, status: ["Cancelado"] })}
+                className="px-4 py-2 rounded-xl text-sm font-medium bg-amber-500 text-white hover:bg-amber-600 transition-colors"
+              >
+                Ver Cancelados
+              </button>
+            </div>
+          )}
+
+          <FiltrosPedidosBar filtros={filtros} onChange={setFiltros} totalFiltrado={pedidosFiltrados.length} total={pedidos.length} />
+
           {pedidos.length === 0 && !error && (
             <div className="text-center text-gray-500 mt-12">
               <p className="text-3xl mb-2">Nenhum pedido no momento.</p>
@@ -168,16 +383,29 @@ function App() {
             </div>
           )}
 
-          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
-            {pedidos.map((pedido) => (
-              <ComandaCard 
-                key={pedido.telefone_key} 
-                pedido={pedido} 
-                onUpdate={handlePedidoUpdate} 
-                isNew={newPedidoKeys.has(pedido.telefone_key)}
-              />
-            ))}
-          </div>
+          {pedidos.length > 0 && pedidosFiltrados.length === 0 && (
+            <p className="text-center text-gray-500 mt-12 text-xl">Nenhum pedido corresponde aos filtros.</p>
+          )}
+
+          {layoutPedidos === "grade" ? (
+            <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-8">
+              {pedidosFiltrados.map((pedido) => (
+                <ComandaCard 
+                  key={pedido.id} 
+                  pedido={pedido} 
+                  onUpdate={handlePedidoUpdate} 
+                  isNew={newPedidoIds.has(pedido.id)}
+                  agora={agora}
+                  nivelSla={niveisSla.get(pedido.id)}
+                  outrosPedidosDoTelefone={(pedidosPorTelefone.get(pedido.telefone_key) ?? 1) - 1}
+                  cardapio={precosCardapio}
+                  zonas={zonasEntrega}
+                />
+              ))}
+            </div>
+          ) : (
+            <PedidosBoard pedidos={pedidosFiltrados} onUpdate={handlePedidoUpdate} newPedidoIds={newPedidoIds} niveisSla={niveisSla} />
+          )}
         </>
       )}
 
@@ -185,9 +413,43 @@ function App() {
         <CardapioPage />
       )}
 
+      {currentView === "clientes" && (
+        <ClientesPage />
+      )}
+
+      {currentView === "fechamento" && (
+        <FechamentoPage pedidos={pedidos} operador={perfil.nome} onFechado={() => sincronizarPedidos("fechamento do dia")} />
+      )}
+
+      {currentView === "relatorios" && (
+        <RelatoriosPage />
+      )}
+
+      {currentView === "entregadores" && (
+        <EntregadoresPage pedidos={pedidos} />
+      )}
+
+      {currentView === "cozinha" && (
+        <CozinhaDisplay
+          pedidos={pedidos}
+          agora={agora}
+          niveisSla={niveisSla}
+          newPedidoIds={newPedidoIds}
+          onUpdate={handlePedidoUpdate}
+          onSair={() => setCurrentView("comandas")}
+        />
+      )}
+
     </div>
   );
 }
 
+// Só monta o painel (e abre os canais do Realtime) com alguém da equipe logado
+function App() {
+  const sessao = useSessao();
+  if (sessao.situacao !== "logado") return <LoginPage sessao={sessao} />;
+  return <Painel key={sessao.perfil.user_id} perfil={sessao.perfil} />;
+}
+
 export default App;
 
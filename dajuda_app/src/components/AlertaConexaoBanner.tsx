@@ -0,0 +1,78 @@
+import React, { useEffect, useState } from "react";
+import { WifiOff } from "lucide-react";
+import { useConexaoRealtime } from "../hooks/use-conexao-realtime";
+import { minutosPedidosForaDoAr, type ConfigAlertaConexao } from "../lib/alertaConexao";
+import { reconectarTodos } from "../lib/conexaoRealtime";
+
+const INTERVALO_ALARME_MS = 15000;
+
+// Três bipes agudos, gerados na hora para não depender de arquivo de áudio
+const tocarAlarme = () => {
+  try {
+    const contexto = new AudioContext();
+    [0, 0.35, 0.7].forEach(inicio => {
+      const oscilador = contexto.createOscillator();
+      const volume = contexto.createGain();
+      oscilador.type = "square";
+      oscilador.frequency.value = 880;
+      volume.gain.value = 0.2;
+      oscilador.connect(volume).connect(contexto.destination);
+      oscilador.start(contexto.currentTime + inicio);
+      oscilador.stop(contexto.currentTime + inicio + 0.2);
+    });
+    window.setTimeout(() => contexto.close().catch(console.error), 1500);
+  } catch (e) {
+    console.error("Erro ao tocar alarme de conexão:", e);
+  }
+};
+
+interface AlertaConexaoBannerProps {
+  config: ConfigAlertaConexao;
+  agora: number;
+}
+
+// Faixa fixa no topo, por cima de todas as telas (inclusive a da cozinha), enquanto os pedidos
+// estiverem fora do ar além do limite. Silenciar cala o som só até a próxima queda.
+const AlertaConexaoBanner: React.FC<AlertaConexaoBannerProps> = ({ config, agora }) => {
+  const conexoes = useConexaoRealtime();
+  const minutos = minutosPedidosForaDoAr(conexoes, config, agora);
+  const quedaAtual = conexoes.find(c => c.tabela === "Comandas")?.desde;
+  const [quedaSilenciada, setQuedaSilenciada] = useState<number | null>(null);
+  const tocando = minutos !== null && quedaAtual !== quedaSilenciada;
+
+  useEffect(() => {
+    if (!tocando) return;
+    tocarAlarme();
+    const id = window.setInterval(tocarAlarme, INTERVALO_ALARME_MS);
+    return () => window.clearInterval(id);
+  }, [tocando]);
+
+  if (minutos === null) return null;
+
+  return (
+    <div className="fixed top-0 inset-x-0 z-[70] bg-red-600 text-white shadow-2xl px-6 py-4 flex flex-wrap items-center justify-center gap-4 animate-pulse">
+      <WifiOff size={32} />
+      <p className="text-2xl font-bold">
+        SEM CONEXÃO COM OS PEDIDOS HÁ {minutos} MIN. Pedidos novos não estão aparecendo. Verifique a internet.
+      </p>
+      <div className="flex gap-2">
+        <button
+          onClick={reconectarTodos}
+          className="px-4 py-2 rounded-lg bg-white text-red-700 font-semibold hover:bg-red-50"
+        >
+          Tentar reconectar
+        </button>
+        {tocando && (
+          <button
+            onClick={() => setQuedaSilenciada(quedaAtual ?? null)}
+            className="px-4 py-2 rounded-lg border border-white font-semibold hover:bg-red-700"
+          >
+            Silenciar
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AlertaConexaoBanner;
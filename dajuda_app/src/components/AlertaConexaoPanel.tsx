@@ -0,0 +1,51 @@
+import React from "react";
+import type { ConfigAlertaConexao } from "../lib/alertaConexao";
+
+interface AlertaConexaoPanelProps {
+  config: ConfigAlertaConexao;
+  onChange: (config: ConfigAlertaConexao) => void;
+}
+
+const AlertaConexaoPanel: React.FC<AlertaConexaoPanelProps> = ({ config, onChange }) => {
+  const atualizar = (parcial: Partial<ConfigAlertaConexao>) => onChange({ ...config, ...parcial });
+
+  const fieldClasses = "block w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-1">Alerta de pedidos sem conexão</h3>
+      <p className="text-sm text-gray-500 mb-3">
+        Avisa com som e em tela cheia quando o recebimento de pedidos fica fora do ar por mais tempo que o limite, dentro do horário de funcionamento.
+      </p>
+      <label className="flex items-center gap-2 font-medium text-gray-700 mb-3">
+        <input type="checkbox" checked={config.ativo} onChange={(e) => atualizar({ ativo: e.target.checked })} />
+        Alerta ativado
+      </label>
+      {config.ativo && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <div>
+            <label htmlFor="alerta_minutos" className="block text-sm font-medium text-gray-700 mb-1">Minutos sem conexão</label>
+            <input
+              id="alerta_minutos"
+              type="number"
+              min={1}
+              value={config.minutosSemConexao}
+              onChange={(e) => atualizar({ minutosSemConexao: Math.max(1, Number(e.target.value) || 1) })}
+              className={fieldClasses}
+            />
+          </div>
+          <div>
+            <label htmlFor="alerta_abertura" className="block text-sm font-medium text-gray-700 mb-1">Abertura</label>
+            <input id="alerta_abertura" type="time" value={config.abertura} onChange={(e) => atualizar({ abertura: e.target.value })} className={fieldClasses} />
+          </div>
+          <div>
+            <label htmlFor="alerta_fechamento" className="block text-sm font-medium text-gray-700 mb-1">Fechamento</label>
+            <input id="alerta_fechamento" type="time" value={config.fechamento} onChange={(e) => atualizar({ fechamento: e.target.value })} className={fieldClasses} />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AlertaConexaoPanel;
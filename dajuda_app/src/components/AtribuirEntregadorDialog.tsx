@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from "react";
+import { Bike, Loader2, X } from "lucide-react";
+import type { Pedido } from "../lib/pedidos";
+import { formatarMoeda } from "../lib/formatters";
+import { buscarEntregadores, type Entregador } from "../lib/entregadores";
+
+// Escolha do entregador ao marcar um pedido como "Enviado".
+// Também funciona pelo teclado (tela da cozinha): 1-9 escolhe, 0 envia sem entregador, Esc cancela.
+
+interface AtribuirEntregadorDialogProps {
+  pedido: Pedido;
+  onConfirmar: (entregador: Entregador | null) => void;
+  onCancelar: () => void;
+}
+
+const AtribuirEntregadorDialog: React.FC<AtribuirEntregadorDialogProps> = ({ pedido, onConfirmar, onCancelar }) => {
+  const [entregadores, setEntregadores] = useState<Entregador[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelado = false;
+    buscarEntregadores().then(({ data, error: fetchError }) => {
+      if (cancelado) return;
+      if (fetchError) {
+        console.error("Erro ao buscar entregadores:", fetchError);
+        setError(`Falha ao carregar entregadores: ${fetchError.message}`);
+      } else {
+        setEntregadores((data as Entregador[]).filter(e => e.ativo));
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelado = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onCancelar();
+      } else if (e.key === "0") {
+        onConfirmar(null);
+      } else if (/^[1-9]$/.test(e.key) && Number(e.key) <= entregadores.length) {
+        onConfirmar(entregadores[Number(e.key) - 1]);
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [entregadores, onConfirmar, onCancelar]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm flex justify-center items-center z-[60] p-4 text-left">
+      <div className="bg-white text-gray-800 p-6 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-2xl font-semibold">Quem vai entregar?</h3>
+          <button onClick={onCancelar} className="text-gray-500 hover:text-gray-800" title="Cancelar (Esc)">
+            <X size={22} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">Pedido #{pedido.id} · {pedido.nome_cliente || pedido.telefone_key}</p>
+
+        {loading && <div className="flex justify-center py-4"><Loader2 className="h-6 w-6 text-custom-pink animate-spin" /></div>}
+        {error && <p className="text-sm text-red-600 mb-3">{error}</p>}
+        {!loading && !error && entregadores.length === 0 && (
+          <p className="text-sm text-gray-500 italic mb-3">Nenhum entregador ativo cadastrado.</p>
+        )}
+
+        <div className="space-y-2">
+          {entregadores.map((entregador, indice) => (
+            <button
+              key={entregador.id}
+              onClick={() => onConfirmar(entregador)}
+              className="w-full flex items-center justify-between px-4 py-3 rounded-lg border border-gray-200 hover:border-custom-pink hover:bg-pink-50 transition-colors"
+            >
+              <span className="flex items-center gap-3">
+                {indice < 9 && <span className="text-lg font-bold text-custom-pink w-5">{indice + 1}</span>}
+                <Bike size={18} className="text-gray-500" />
+                <span className="font-medium">{entregador.nome}</span>
+              </span>
+              <span className="text-sm text-gray-500">{formatarMoeda(Number(entregador.taxa_por_entrega))}</span>
+            </button>
+          ))}
+          <button
+            onClick={() => onConfirmar(null)}
+            className="w-full flex items-center gap-3 px-4 py-3 rounded-lg border border-dashed border-gray-300 text-gray-600 hover:bg-gray-50"
+          >
+            <span className="text-lg font-bold text-gray-400 w-5">0</span>
+            Enviar sem entregador
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AtribuirEntregadorDialog;
@@ -0,0 +1,93 @@
+import React, { useEffect, useState } from "react";
+import { X } from "lucide-react";
+import type { Pedido } from "../lib/pedidos";
+import { montarMotivoCancelamento, motivosCancelamento } from "../lib/cancelamento";
+
+// Confirmação do cancelamento com o motivo obrigatório. "Outro" exige a descrição.
+
+interface CancelarPedidoDialogProps {
+  pedido: Pedido;
+  onConfirmar: (motivo: string) => void;
+  onCancelar: () => void;
+}
+
+const CancelarPedidoDialog: React.FC<CancelarPedidoDialogProps> = ({ pedido, onConfirmar, onCancelar }) => {
+  const [motivo, setMotivo] = useState<string>("");
+  const [detalhe, setDetalhe] = useState<string>("");
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== "Escape") return;
+      e.preventDefault();
+      e.stopPropagation();
+      onCancelar();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [onCancelar]);
+
+  const faltaDetalhe = motivo === "Outro" && !detalhe.trim();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!motivo || faltaDetalhe) return;
+    onConfirmar(montarMotivoCancelamento(motivo, detalhe));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm flex justify-center items-center z-[60] p-4 text-left">
+      <form onSubmit={handleSubmit} className="bg-white text-gray-800 p-6 rounded-xl shadow-2xl w-full max-w-md">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-2xl font-semibold">Cancelar pedido</h3>
+          <button type="button" onClick={onCancelar} className="text-gray-500 hover:text-gray-800" title="Voltar (Esc)">
+            <X size={22} />
+          </button>
+        </div>
+        <p className="text-sm text-gray-500 mb-4">Pedido #{pedido.id} · {pedido.nome_cliente || pedido.telefone_key}</p>
+
+        <div className="space-y-2 mb-4">
+          {motivosCancelamento.map(opcao => (
+            <label
+              key={opcao}
+              className={`flex items-center gap-3 px-4 py-2 rounded-lg border cursor-pointer transition-colors ${
+                motivo === opcao ? "border-red-400 bg-red-50" : "border-gray-200 hover:bg-gray-50"
+              }`}
+            >
+              <input type="radio" name="motivo" value={opcao} checked={motivo === opcao} onChange={() => setMotivo(opcao)} className="accent-red-600" />
+              <span className="text-sm font-medium">{opcao}</span>
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={detalhe}
+          onChange={(e) => setDetalhe(e.target.value)}
+          rows={2}
+          placeholder={motivo === "Outro" ? "Descreva o motivo (obrigatório)" : "Detalhes (opcional)"}
+          className="w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white mb-3"
+        />
+
+        {pedido.pagamento === "Pago" && (
+          <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded px-3 py-2 mb-3">
+            Este pedido já foi pago. O reembolso ficará pendente até ser registrado.
+          </p>
+        )}
+
+        <div className="flex justify-end gap-2">
+          <button type="button" onClick={onCancelar} className="text-sm bg-gray-200 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-300">
+            Voltar
+          </button>
+          <button
+            type="submit"
+            disabled={!motivo || faltaDetalhe}
+            className="text-sm bg-red-600 text-white px-4 py-2 rounded-lg shadow-md hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Cancelar Pedido
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default CancelarPedidoDialog;
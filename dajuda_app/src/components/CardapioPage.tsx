@@ -1,7 +1,10 @@
-import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { supabase } from '../supabaseClient';
+import React, { useState, useMemo } from 'react';
 import { PlusCircle, Save, XCircle, Trash2, Edit3, AlertTriangle, Loader2 } from 'lucide-react';
-import type { RealtimeChannel, RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+import { useTabelaRealtime } from '../hooks/use-tabela-realtime';
+import { useFilaOffline } from '../hooks/use-fila-offline';
+import { usePermissoes } from '../hooks/use-sessao';
+import { executarOuEnfileirar, mutacoesDoRegistro } from '../lib/filaOffline';
+import { repositorios } from '../lib/repositorios';
 
 export interface CardapioItem {
   id: number;
@@ -10,12 +13,16 @@ export interface CardapioItem {
   nome_produto: string;      // Será sempre string na UI
   descricao_produto: string; // Será sempre string na UI
   observacao: string;        // Será sempre string na UI
+  preco: string;             // Texto digitado ("12,50"); vazio = sem preço
+  preco_promocional: string; // Vazio = sem promoção
   isEditing?: boolean;
   originalNome?: string;
   originalCategoria?: string;
   originalDisponivel?: "Sim" | "Não";
   originalDescricao?: string;
   originalObservacao?: string;
+  originalPreco?: string;
+  originalPrecoPromocional?: string;
 }
 
 const categoriasDefinidas = [
@@ -27,90 +34,84 @@ const categoriasDefinidas = [
   "Unidade",
 ];
 
+// Preço digitado ("12,50" ou "12.50") para o banco: vazio vira null e texto inválido, undefined
+const textoParaPreco = (texto: string): number | null | undefined => {
+  const limpo = texto.replace(/^R\$\s*/i, '').trim();
+  if (limpo === '') return null;
+  if (!/^\d+([.,]\d{1,2})?$/.test(limpo)) return undefined;
+  return Number(limpo.replace(',', '.'));
+};
+
+const precoParaTexto = (valor: number | string | null | undefined): string =>
+  valor === null || valor === undefined || valor === '' ? '' : Number(valor).toFixed(2).replace('.', ',');
+
+const formatarPreco = (texto: string): string => {
+  const valor = textoParaPreco(texto);
+  return typeof valor === 'number' ? valor.toLocaleString('pt-BR', { style: 'currency', currency: 'BRL' }) : texto;
+};
+
+// Devolve a mensagem de erro dos preços do item, ou null se estiverem válidos
+const validarPrecos = (item: Pick<CardapioItem, 'nome_produto' | 'preco' | 'preco_promocional'>): string | null => {
+  const preco = textoParaPreco(item.preco);
+  const promocional = textoParaPreco(item.preco_promocional);
+  if (preco === undefined || promocional === undefined) {
+    return `Preço inválido em "${item.nome_produto || 'Item sem nome'}". Use o formato 12,50.`;
+  }
+  if (promocional !== null && preco === null) {
+    return `"${item.nome_produto || 'Item sem nome'}" tem preço promocional sem preço normal.`;
+  }
+  if (promocional !== null && preco !== null && promocional >= preco) {
+    return `O preço promocional de "${item.nome_produto || 'Item sem nome'}" deve ser menor que o preço normal.`;
+  }
+  return null;
+};
+
+// Linha do banco para o formato da tela (textos nunca nulos, preços como digitados)
+const itemDoBanco = (item: { [key: string]: any }): CardapioItem => ({
+  ...item,
+  id: item.id || 0, // Garante que ID não seja null, embora seja PK
+  nome_produto: item.nome_produto || '', // Trata null para string vazia
+  categoria: item.categoria || '',       // Trata null para string vazia
+  disponivel: item.disponivel === 'Sim' || item.disponivel === true ? 'Sim' : 'Não',
+  descricao_produto: item.descricao_produto || '', // Trata null para string vazia
+  observacao: item.observacao || '',            // Trata null para string vazia
+  preco: precoParaTexto(item.preco),
+  preco_promocional: precoParaTexto(item.preco_promocional),
+});
+
 const CardapioPage: React.FC = () => {
-  const [itensCardapio, setItensCardapio] = useState<CardapioItem[]>([]);
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
+  const filaOffline = useFilaOffline();
+  const { incluirExcluirCardapio } = usePermissoes(); // Editar preço e disponibilidade vale para toda a equipe
+  // Itens em edição não são sobrescritos pelo Realtime; o salvamento grava o que foi digitado.
+  // Os salvos sem conexão também ficam como estão até a fila enviá-los.
+  const {
+    linhas: itensCardapio,
+    setLinhas: setItensCardapio,
+    carregando: loading,
+    erro: error,
+  } = useTabelaRealtime<CardapioItem>({
+    repositorio: repositorios.cardapio,
+    canal: 'cardapio_realtime_channel',
+    descricao: 'cardápio',
+    ordenar: (a, b) => a.nome_produto.localeCompare(b.nome_produto, 'pt-BR'),
+    converter: itemDoBanco,
+    preservar: item => !!item.isEditing || mutacoesDoRegistro('Cárdapio', item.id, filaOffline).length > 0,
+  });
   const [isAddModalOpen, setIsAddModalOpen] = useState<boolean>(false);
   const [isConfirmDeleteModalOpen, setIsConfirmDeleteModalOpen] = useState<boolean>(false);
   const [itemToDelete, setItemToDelete] = useState<CardapioItem | null>(null);
   const [saving, setSaving] = useState<boolean>(false);
-  const cardapioChannelRef = useRef<RealtimeChannel | null>(null);
 
-  const [novoItem, setNovoItem] = useState<Omit<CardapioItem, 'id' | 'isEditing' | 'originalNome' | 'originalCategoria' | 'originalDisponivel' | 'originalDescricao' | 'originalObservacao'>>({
+  const [novoItem, setNovoItem] = useState<Omit<CardapioItem, 'id' | 'isEditing' | 'originalNome' | 'originalCategoria' | 'originalDisponivel' | 'originalDescricao' | 'originalObservacao' | 'originalPreco' | 'originalPrecoPromocional'>>({
     nome_produto: '',
     categoria: categoriasDefinidas[0],
     disponivel: "Sim",
     descricao_produto: '',
     observacao: '',
+    preco: '',
+    preco_promocional: '',
   });
 
-  const fetchItensCardapio = useCallback(async (source?: string) => {
-    console.log(`Buscando itens do cardápio... (Origem: ${source || 'desconhecida'})`);
-    setLoading(true);
-    const { data, error: fetchError } = await supabase
-      .from('Cárdapio')
-      .select('*')
-      .order('nome_produto', { ascending: true });
-
-    if (fetchError) {
-      console.error('Erro ao buscar itens do cardápio:', fetchError);
-      setError(`Falha ao carregar cardápio: ${fetchError.message}`);
-    } else {
-      const mappedData = data.map(item => ({
-        ...item,
-        id: item.id || 0, // Garante que ID não seja null, embora seja PK
-        nome_produto: item.nome_produto || '', // Trata null para string vazia
-        categoria: item.categoria || '',       // Trata null para string vazia
-        disponivel: item.disponivel === 'Sim' || item.disponivel === true ? 'Sim' : 'Não',
-        descricao_produto: item.descricao_produto || '', // Trata null para string vazia
-        observacao: item.observacao || '',            // Trata null para string vazia
-      })) as CardapioItem[];
-      setItensCardapio(mappedData);
-      setError(null);
-    }
-    setLoading(false);
-  }, []);
-
-  useEffect(() => {
-    fetchItensCardapio('initial mount');
-
-    const handleCardapioChanges = (payload: RealtimePostgresChangesPayload<{[key: string]: any}>) => {
-      console.log("Mudança recebida do Supabase Realtime (Cárdapio)!", payload);
-      fetchItensCardapio('realtime update');
-    };
-
-    cardapioChannelRef.current = supabase
-      .channel('cardapio_realtime_channel')
-      .on(
-        'postgres_changes',
-        { event: '*', schema: 'public', table: 'Cárdapio' },
-        handleCardapioChanges
-      )
-      .subscribe((status, err) => {
-        if (status === 'SUBSCRIBED') {
-          console.log('Conectado ao canal Realtime do Cardapio!');
-        } else if (status === 'CHANNEL_ERROR') {
-          console.error('Erro no canal Realtime do Cardapio:', err);
-          setError(`Erro de conexão em tempo real (Cárdapio): ${err?.message || 'Erro desconhecido'}`);
-        } else if (status === 'TIMED_OUT') {
-          console.warn('Timeout na conexão Realtime do Cardapio.');
-          setError('Conexão em tempo real (Cárdapio) expirou. As atualizações podem não ser instantâneas.');
-        } else if (status === 'CLOSED'){
-          console.log('Canal Realtime (Cárdapio) fechado.');
-        }
-      });
-
-    return () => {
-      if (cardapioChannelRef.current) {
-        supabase.removeChannel(cardapioChannelRef.current)
-          .then(status => console.log('Canal Realtime (Cárdapio) removido, status:', status))
-          .catch(console.error);
-        cardapioChannelRef.current = null;
-      }
-    };
-  }, [fetchItensCardapio]);
-
   const handleNovoItemInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     const { name, value } = e.target;
     if (name === "disponivel") {
@@ -126,6 +127,11 @@ const CardapioPage: React.FC = () => {
       alert('Nome do produto e categoria são obrigatórios e não podem estar vazios.');
       return;
     }
+    const erroPrecos = validarPrecos(novoItem);
+    if (erroPrecos) {
+      alert(erroPrecos);
+      return;
+    }
     setSaving(true);
 
     let novoId = 1;
@@ -140,11 +146,11 @@ const CardapioPage: React.FC = () => {
         disponivel: novoItem.disponivel,
         descricao_produto: novoItem.descricao_produto.trim() === '' ? null : novoItem.descricao_produto.trim(),
         observacao: novoItem.observacao.trim() === '' ? null : novoItem.observacao.trim(),
+        preco: textoParaPreco(novoItem.preco) ?? null, // Já validados acima
+        preco_promocional: textoParaPreco(novoItem.preco_promocional) ?? null,
     };
 
-    const { error: insertError } = await supabase
-      .from('Cárdapio')
-      .insert([itemParaSalvar]);
+    const { error: insertError } = await repositorios.cardapio.criar(itemParaSalvar);
     setSaving(false);
     if (insertError) {
       console.error('Erro ao adicionar novo item:', insertError);
@@ -158,6 +164,8 @@ const CardapioPage: React.FC = () => {
         disponivel: "Sim",
         descricao_produto: '',
         observacao: '',
+        preco: '',
+        preco_promocional: '',
       });
     }
   };
@@ -170,10 +178,7 @@ const CardapioPage: React.FC = () => {
   const handleDeleteItem = async () => {
     if (!itemToDelete) return;
     setSaving(true);
-    const { error: deleteError } = await supabase
-      .from('Cárdapio')
-      .delete()
-      .match({ id: itemToDelete.id });
+    const { error: deleteError } = await repositorios.cardapio.remover(itemToDelete.id);
     setSaving(false);
     if (deleteError) {
       console.error('Erro ao remover item:', deleteError);
@@ -198,6 +203,8 @@ const CardapioPage: React.FC = () => {
               originalDisponivel: item.disponivel,
               originalDescricao: item.descricao_produto,
               originalObservacao: item.observacao,
+              originalPreco: item.preco,
+              originalPrecoPromocional: item.preco_promocional,
             };
           } else {
             return {
@@ -208,6 +215,8 @@ const CardapioPage: React.FC = () => {
               disponivel: item.originalDisponivel || item.disponivel,
               descricao_produto: item.originalDescricao !== undefined ? item.originalDescricao : item.descricao_produto,
               observacao: item.originalObservacao !== undefined ? item.originalObservacao : item.observacao,
+              preco: item.originalPreco !== undefined ? item.originalPreco : item.preco,
+              preco_promocional: item.originalPrecoPromocional !== undefined ? item.originalPrecoPromocional : item.preco_promocional,
             };
           }
         }
@@ -231,7 +240,9 @@ const CardapioPage: React.FC = () => {
        item.categoria.trim() !== (item.originalCategoria || '').trim() ||
        item.disponivel !== item.originalDisponivel ||
        item.descricao_produto.trim() !== (item.originalDescricao || '').trim() ||
-       item.observacao.trim() !== (item.originalObservacao || '').trim())
+       item.observacao.trim() !== (item.originalObservacao || '').trim() ||
+       item.preco.trim() !== (item.originalPreco || '').trim() ||
+       item.preco_promocional.trim() !== (item.originalPrecoPromocional || '').trim())
     );
   }, [itensCardapio]);
 
@@ -246,6 +257,11 @@ const CardapioPage: React.FC = () => {
             alert(`O item com ID ${item.id} (nome original: "${item.originalNome || 'Sem nome original'}") não pode ser salvo porque o nome do produto e a categoria são obrigatórios e não podem estar vazios.`);
             return false;
         }
+        const erroPrecos = validarPrecos(item);
+        if (erroPrecos) {
+            alert(erroPrecos);
+            return false;
+        }
         return true;
     });
 
@@ -257,17 +273,30 @@ const CardapioPage: React.FC = () => {
     setSaving(true);
 
     const updates = itensParaSalvar.map(item => {
-      const { id, nome_produto, categoria, disponivel, descricao_produto, observacao } = item;
-      return supabase
-        .from('Cárdapio')
-        .update({
-            nome_produto: nome_produto.trim(),
-            categoria: categoria.trim(),
-            disponivel,
-            descricao_produto: descricao_produto.trim() === '' ? null : descricao_produto.trim(),
-            observacao: observacao.trim() === '' ? null : observacao.trim(),
-        })
-        .match({ id });
+      const { id, nome_produto, categoria, disponivel, descricao_produto, observacao, preco, preco_promocional } = item;
+      const alteracoes = {
+          nome_produto: nome_produto.trim(),
+          categoria: categoria.trim(),
+          disponivel,
+          descricao_produto: descricao_produto.trim() === '' ? null : descricao_produto.trim(),
+          observacao: observacao.trim() === '' ? null : observacao.trim(),
+          preco: textoParaPreco(preco),
+          preco_promocional: textoParaPreco(preco_promocional),
+      };
+      // Valores de antes da edição, para detectar alteração feita por outra pessoa enquanto sem conexão.
+      // "disponivel" fica de fora porque o banco pode guardá-lo como texto ou booleano.
+      const esperado = {
+          nome_produto: item.originalNome ?? nome_produto,
+          categoria: item.originalCategoria ?? categoria,
+          descricao_produto: item.originalDescricao ?? descricao_produto,
+          observacao: item.originalObservacao ?? observacao,
+          preco: textoParaPreco(item.originalPreco ?? preco) ?? null,
+          preco_promocional: textoParaPreco(item.originalPrecoPromocional ?? preco_promocional) ?? null,
+      };
+      return executarOuEnfileirar(
+        { tabela: 'Cárdapio', registroId: id, alteracoes, esperado, descricao: `Cardápio: ${nome_produto.trim()}` },
+        () => repositorios.cardapio.atualizar(id, alteracoes)
+      );
     });
 
     try {
@@ -277,11 +306,14 @@ const CardapioPage: React.FC = () => {
         console.error("Erros ao salvar alterações:", errors);
         alert(`Houve ${errors.length} erro(s) ao salvar. Verifique o console.`);
       } else {
-        alert("Todas as alterações selecionadas foram salvas com sucesso!");
+        const enfileiradas = results.filter(result => result.enfileirada).length;
+        alert(enfileiradas > 0
+          ? `Sem conexão: ${enfileiradas} alteração(ões) serão enviadas assim que a conexão voltar.`
+          : "Todas as alterações selecionadas foram salvas com sucesso!");
         setItensCardapio(prev => prev.map(i => {
             const savedItem = itensParaSalvar.find(altered => altered.id === i.id);
             if (savedItem) {
-                return {...i, isEditing: false, originalNome: undefined, originalCategoria: undefined, originalDisponivel: undefined, originalDescricao: undefined, originalObservacao: undefined };
+                return {...i, isEditing: false, originalNome: undefined, originalCategoria: undefined, originalDisponivel: undefined, originalDescricao: undefined, originalObservacao: undefined, originalPreco: undefined, originalPrecoPromocional: undefined };
             }
             // Se o item estava em edição mas não foi salvo (por ser inválido), reverte ou mantém em edição?
             // Por ora, apenas desliga o modo de edição para os que foram salvos.
@@ -325,13 +357,15 @@ const CardapioPage: React.FC = () => {
       )}
       <div className="flex justify-between items-center mb-6">
         <h2 className="text-3xl font-semibold text-gray-700">Itens do Cardápio</h2>
-        <button
-          onClick={() => setIsAddModalOpen(true)}
-          className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition-colors duration-150"
-        >
-          <PlusCircle size={20} className="mr-2" />
-          Adicionar Novo Item
-        </button>
+        {incluirExcluirCardapio && (
+          <button
+            onClick={() => setIsAddModalOpen(true)}
+            className="bg-green-500 hover:bg-green-600 text-white font-semibold py-2 px-4 rounded-lg shadow-md flex items-center transition-colors duration-150"
+          >
+            <PlusCircle size={20} className="mr-2" />
+            Adicionar Novo Item
+          </button>
+        )}
       </div>
 
       {itemsComAlteracoes.length > 0 && (
@@ -369,6 +403,16 @@ const CardapioPage: React.FC = () => {
                   <option value="Não">Não</option>
                 </select>
               </div>
+              <div className="mb-4 grid grid-cols-2 gap-4">
+                <div>
+                  <label htmlFor="preco_novo" className="block text-sm font-medium text-gray-700 mb-1">Preço (R$)</label>
+                  <input type="text" inputMode="decimal" name="preco" id="preco_novo" value={novoItem.preco} onChange={handleNovoItemInputChange} placeholder="0,00" className={formFieldClasses} />
+                </div>
+                <div>
+                  <label htmlFor="preco_promocional_novo" className="block text-sm font-medium text-gray-700 mb-1">Preço promocional (R$)</label>
+                  <input type="text" inputMode="decimal" name="preco_promocional" id="preco_promocional_novo" value={novoItem.preco_promocional} onChange={handleNovoItemInputChange} placeholder="Opcional" className={formFieldClasses} />
+                </div>
+              </div>
               <div className="mb-4">
                 <label htmlFor="descricao_produto_novo" className="block text-sm font-medium text-gray-700 mb-1">Descrição</label>
                 <textarea name="descricao_produto" id="descricao_produto_novo" value={novoItem.descricao_produto} onChange={handleNovoItemInputChange} rows={3} className={formFieldClasses} />
@@ -418,7 +462,7 @@ const CardapioPage: React.FC = () => {
       {itensCardapio.length === 0 && !loading && !error && (
         <div className="text-center text-gray-500 mt-12">
           <p className="text-2xl mb-2">Nenhum item no cardápio ainda.</p>
-          <p className="text-lg">Clique em "Adicionar Novo Item" para começar.</p>
+          {incluirExcluirCardapio && <p className="text-lg">Clique em "Adicionar Novo Item" para começar.</p>}
         </div>
       )}
 
@@ -468,6 +512,16 @@ const CardapioPage: React.FC = () => {
                             <option value="Não">Não</option>
                           </select>
                         </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-0.5">Preço (R$)</label>
+                            <input type="text" inputMode="decimal" value={item.preco} onChange={(e) => handleEditInputChange(item.id, 'preco', e.target.value)} placeholder="0,00" className={formFieldClasses} />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-0.5">Promocional (R$)</label>
+                            <input type="text" inputMode="decimal" value={item.preco_promocional} onChange={(e) => handleEditInputChange(item.id, 'preco_promocional', e.target.value)} placeholder="Opcional" className={formFieldClasses} />
+                          </div>
+                        </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-0.5">Descrição</label>
                           <textarea value={item.descricao_produto} onChange={(e) => handleEditInputChange(item.id, 'descricao_produto', e.target.value)} rows={2} className={formFieldClasses} />
@@ -489,6 +543,23 @@ const CardapioPage: React.FC = () => {
                               <p className={`text-sm font-medium mb-2 px-2 py-0.5 inline-block rounded-full ${item.disponivel === 'Sim' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
                                   {item.disponivel === 'Sim' ? 'Disponível' : 'Indisponível'}
                               </p>
+                              {mutacoesDoRegistro('Cárdapio', item.id, filaOffline).map(mutacao => (
+                                <p key={mutacao.seq} className={`text-xs font-medium mb-2 ml-2 px-2 py-0.5 inline-block rounded-full ${mutacao.situacao === 'conflito' ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700'}`}>
+                                  {mutacao.situacao === 'conflito' ? 'Conflito ao salvar' : 'Aguardando conexão'}
+                                </p>
+                              ))}
+                              {item.preco ? (
+                                <p className="text-lg font-semibold text-gray-800">
+                                  {item.preco_promocional ? (
+                                    <>
+                                      <span className="text-sm text-gray-400 line-through mr-2">{formatarPreco(item.preco)}</span>
+                                      <span className="text-custom-pink">{formatarPreco(item.preco_promocional)}</span>
+                                    </>
+                                  ) : formatarPreco(item.preco)}
+                                </p>
+                              ) : (
+                                <p className="text-sm text-amber-600 italic">Sem preço cadastrado</p>
+                              )}
                               {item.descricao_produto && <p className="text-gray-600 text-sm mt-1 mb-3 leading-relaxed"><strong className="font-medium text-gray-700">Descrição:</strong> {item.descricao_produto}</p>}
                               {item.observacao && <p className="text-gray-500 text-xs mt-1"><strong>Obs:</strong> {item.observacao}</p>}
                           </div>
@@ -496,9 +567,11 @@ const CardapioPage: React.FC = () => {
                               <button onClick={() => toggleEditMode(item.id)} title="Editar Item" className="btn-icon text-blue-600 hover:text-blue-800">
                                   <Edit3 size={18} />
                               </button>
-                              <button onClick={() => openDeleteConfirmationModal(item)} title="Remover Item" className="btn-icon text-red-600 hover:text-red-800">
-                                  <Trash2 size={18} />
-                              </button>
+                              {incluirExcluirCardapio && (
+                                <button onClick={() => openDeleteConfirmationModal(item)} title="Remover Item" className="btn-icon text-red-600 hover:text-red-800">
+                                    <Trash2 size={18} />
+                                </button>
+                              )}
                           </div>
                       </div>
                     )}
@@ -540,6 +613,16 @@ const CardapioPage: React.FC = () => {
                             <option value="Não">Não</option>
                           </select>
                         </div>
+                        <div className="grid grid-cols-2 gap-2">
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-0.5">Preço (R$)</label>
+                            <input type="text" inputMode="decimal" value={item.preco} onChange={(e) => handleEditInputChange(item.id, 'preco', e.target.value)} placeholder="0,00" className={formFieldClasses} />
+                          </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 mb-0.5">Promocional (R$)</label>
+                            <input type="text" inputMode="decimal" value={item.preco_promocional} onChange={(e) => handleEditInputChange(item.id, 'preco_promocional', e.target.value)} placeholder="Opcional" className={formFieldClasses} />
+                          </div>
+                        </div>
                         <div>
                           <label className="block text-sm font-medium text-gray-700 mb-0.5">Descrição</label>
                           <textarea value={item.descricao_produto} onChange={(e) => handleEditInputChange(item.id, 'descricao_produto', e.target.value)} rows={2} className={formFieldClasses} />
@@ -561,6 +644,23 @@ const CardapioPage: React.FC = () => {
                               <p className={`text-sm font-medium mb-2 px-2 py-0.5 inline-block rounded-full ${item.disponivel === 'Sim' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
                                   {item.disponivel === 'Sim' ? 'Disponível' : 'Indisponível'}
                               </p>
+                              {mutacoesDoRegistro('Cárdapio', item.id, filaOffline).map(mutacao => (
+                                <p key={mutacao.seq} className={`text-xs font-medium mb-2 ml-2 px-2 py-0.5 inline-block rounded-full ${mutacao.situacao === 'conflito' ? 'bg-red-600 text-white' : 'bg-gray-200 text-gray-700'}`}>
+                                  {mutacao.situacao === 'conflito' ? 'Conflito ao salvar' : 'Aguardando conexão'}
+                                </p>
+                              ))}
+                              {item.preco ? (
+                                <p className="text-lg font-semibold text-gray-800">
+                                  {item.preco_promocional ? (
+                                    <>
+                                      <span className="text-sm text-gray-400 line-through mr-2">{formatarPreco(item.preco)}</span>
+                                      <span className="text-custom-pink">{formatarPreco(item.preco_promocional)}</span>
+                                    </>
+                                  ) : formatarPreco(item.preco)}
+                                </p>
+                              ) : (
+                                <p className="text-sm text-amber-600 italic">Sem preço cadastrado</p>
+                              )}
                               {item.descricao_produto && <p className="text-gray-600 text-sm mt-1 mb-3 leading-relaxed"><strong className="font-medium text-gray-700">Descrição:</strong> {item.descricao_produto}</p>}
                               {item.observacao && <p className="text-gray-500 text-xs mt-1"><strong>Obs:</strong> {item.observacao}</p>}
                           </div>
@@ -568,9 +668,11 @@ const CardapioPage: React.FC = () => {
                               <button onClick={() => toggleEditMode(item.id)} title="Editar Item" className="btn-icon text-blue-600 hover:text-blue-800">
                                   <Edit3 size={18} />
                               </button>
-                              <button onClick={() => openDeleteConfirmationModal(item)} title="Remover Item" className="btn-icon text-red-600 hover:text-red-800">
-                                  <Trash2 size={18} />
-                              </button>
+                              {incluirExcluirCardapio && (
+                                <button onClick={() => openDeleteConfirmationModal(item)} title="Remover Item" className="btn-icon text-red-600 hover:text-red-800">
+                                    <Trash2 size={18} />
+                                </button>
+                              )}
                           </div>
                       </div>
                     )}
@@ -0,0 +1,243 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { ArrowLeft, Loader2, Save, Search } from "lucide-react";
+import { supabase } from "../supabaseClient";
+import type { Pedido } from "../lib/pedidos";
+import { parseComanda } from "../lib/comandaParser";
+import { agregarClientes, buscarNotasClientes, salvarNotaCliente, valorInformadoPedido, type ClienteResumo, type NotaCliente } from "../lib/clientes";
+import { formatarMoeda, formatDataHoraPedido } from "../lib/formatters";
+import { buscarTodasAsPaginas } from "../lib/paginacao";
+
+const ClienteDetalhe: React.FC<{ cliente: ClienteResumo; notaInicial: string; onVoltar: () => void; onNotaSalva: (nota: NotaCliente) => void }> = ({ cliente, notaInicial, onVoltar, onNotaSalva }) => {
+  const [notas, setNotas] = useState<string>(notaInicial);
+  const [saving, setSaving] = useState<boolean>(false);
+
+  const handleSalvarNotas = async () => {
+    setSaving(true);
+    const { error } = await salvarNotaCliente(cliente.telefone_key, notas.trim());
+    setSaving(false);
+    if (error) {
+      console.error("Erro ao salvar notas do cliente:", error);
+      alert(`Falha ao salvar notas: ${error.message}`);
+    } else {
+      onNotaSalva({ telefone_key: cliente.telefone_key, notas: notas.trim(), atualizado_em: new Date().toISOString() });
+    }
+  };
+
+  return (
+    <div className="text-left">
+      <button onClick={onVoltar} className="mb-4 text-sm text-gray-600 hover:text-custom-pink flex items-center">
+        <ArrowLeft size={16} className="mr-1" /> Voltar para a lista
+      </button>
+      <div className="bg-white border border-gray-200 rounded-xl shadow-lg p-6 mb-6">
+        <h2 className="text-3xl font-semibold text-gray-800">{cliente.nomes[0] || cliente.telefone_key}</h2>
+        <p className="text-gray-500 mb-4">{cliente.telefone_key}{cliente.nomes.length > 1 && ` · também conhecido como ${cliente.nomes.slice(1).join(", ")}`}</p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+          <div><p className="text-xs text-gray-500">Pedidos</p><p className="text-xl font-semibold">{cliente.totalPedidos}</p></div>
+          <div>
+            <p className="text-xs text-gray-500">Total gasto</p>
+            <p className="text-xl font-semibold">{formatarMoeda(cliente.totalGasto)}</p>
+            {cliente.pedidosSemValor > 0 && <p className="text-xs text-gray-400">{cliente.pedidosSemValor} pedido(s) sem valor</p>}
+          </div>
+          <div><p className="text-xs text-gray-500">Primeiro pedido</p><p className="font-medium">{formatDataHoraPedido(cliente.primeiroPedido)}</p></div>
+          <div><p className="text-xs text-gray-500">Último pedido</p><p className="font-medium">{formatDataHoraPedido(cliente.ultimoPedido)}</p></div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">O de sempre</h3>
+            {cliente.itensFrequentes.length === 0 ? <p className="text-sm text-gray-500 italic">Nenhum item reconhecido.</p> : (
+              <ul className="text-sm text-gray-700 space-y-1">
+                {cliente.itensFrequentes.map(item => (
+                  <li key={item.produto}>{item.produto} <span className="text-gray-400">· {item.pedidos} pedido(s), {item.quantidade} un.</span></li>
+                ))}
+              </ul>
+            )}
+          </div>
+          <div>
+            <h3 className="font-semibold text-gray-700 mb-2">Endereços</h3>
+            {cliente.enderecos.length === 0 ? <p className="text-sm text-gray-500 italic">Nenhum endereço informado.</p> : (
+              <ul className="text-sm text-gray-700 space-y-1">
+                {cliente.enderecos.map(endereco => <li key={endereco}>{endereco}</li>)}
+              </ul>
+            )}
+          </div>
+        </div>
+
+        <label htmlFor="notas_cliente" className="block font-semibold text-gray-700 mb-1">Notas da equipe</label>
+        <textarea
+          id="notas_cliente"
+          value={notas}
+          onChange={(e) => setNotas(e.target.value)}
+          rows={3}
+          placeholder="Ex.: entrada pela portaria lateral, sempre pede sem cebola..."
+          className="block w-full p-2 border-2 border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 text-sm bg-white"
+        />
+        <div className="flex justify-end mt-2">
+          <button onClick={handleSalvarNotas} disabled={saving || notas.trim() === notaInicial} className="bg-custom-pink hover:bg-pink-700 disabled:opacity-50 text-white text-sm font-medium py-2 px-4 rounded-lg shadow flex items-center">
+            {saving ? <Loader2 size={16} className="animate-spin mr-1" /> : <Save size={16} className="mr-1" />}
+            {saving ? "Salvando..." : "Salvar Notas"}
+          </button>
+        </div>
+      </div>
+
+      <h3 className="text-2xl font-semibold text-gray-700 mb-4">Pedidos anteriores</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {cliente.pedidos.map(pedido => {
+          const comanda = parseComanda(pedido.comanda);
+          const valor = valorInformadoPedido(pedido);
+          return (
+            <div key={pedido.id} className="bg-white border border-gray-200 rounded-lg shadow-sm p-4">
+              <div className="flex justify-between text-sm mb-2">
+                <span className="font-semibold text-gray-700">#{pedido.id} · {formatDataHoraPedido(pedido.hora_criacao_pedido)}</span>
+                <span className="text-gray-500">{pedido.status_pedido} · {pedido.pagamento}</span>
+              </div>
+              {comanda.itens.length > 0 ? (
+                <ul className="text-sm text-gray-700">
+                  {comanda.itens.map(item => (
+                    <li key={item.linha}>
+                      {item.quantidade}x {item.produto}
+                      {item.adicionais.length > 0 && <span className="text-gray-500"> (+ {item.adicionais.join(", ")})</span>}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <p className="text-sm text-gray-600 whitespace-pre-wrap">{pedido.comanda}</p>
+              )}
+              {valor !== undefined && <p className="text-sm text-right font-medium text-gray-700 mt-2">{formatarMoeda(valor)}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const ClientesPage: React.FC = () => {
+  const [pedidos, setPedidos] = useState<Pedido[]>([]);
+  const [notas, setNotas] = useState<Map<string, NotaCliente>>(new Map());
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busca, setBusca] = useState<string>("");
+  const [telefoneSelecionado, setTelefoneSelecionado] = useState<string | null>(null);
+
+  const fetchDados = useCallback(async () => {
+    setLoading(true);
+    // Pedidos já arquivados no fechamento do dia também contam no histórico do cliente. O arquivo
+    // só cresce, então é lido em páginas
+    const [pedidosResult, arquivadosResult, notasResult] = await Promise.all([
+      buscarTodasAsPaginas<Pedido>((de, ate) =>
+        supabase.from("Comandas").select("*").order("hora_criacao_pedido", { ascending: false }).order("id").range(de, ate)
+      ),
+      buscarTodasAsPaginas<Pedido>((de, ate) =>
+        supabase.from("Comandas_arquivo").select("*").order("hora_criacao_pedido", { ascending: false }).order("id").range(de, ate)
+      ),
+      buscarNotasClientes(),
+    ]);
+    if (pedidosResult.error || arquivadosResult.error) {
+      const fetchError = pedidosResult.error || arquivadosResult.error;
+      console.error("Erro ao buscar pedidos dos clientes:", fetchError);
+      setError(`Falha ao carregar clientes: ${fetchError?.message}`);
+    } else {
+      setPedidos([...(pedidosResult.data ?? []), ...(arquivadosResult.data ?? [])]);
+      setError(null);
+    }
+    if (notasResult.error) {
+      console.error("Erro ao buscar notas dos clientes:", notasResult.error);
+    } else {
+      setNotas(new Map((notasResult.data as NotaCliente[]).map(n => [n.telefone_key, n])));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchDados();
+  }, [fetchDados]);
+
+  const clientes = useMemo(() => agregarClientes(pedidos), [pedidos]);
+
+  const clientesFiltrados = useMemo(() => {
+    const termo = busca.trim().toLowerCase();
+    if (!termo) return clientes;
+    return clientes.filter(c =>
+      c.telefone_key.toLowerCase().includes(termo) ||
+      c.nomes.some(n => n.toLowerCase().includes(termo)) ||
+      (notas.get(c.telefone_key)?.notas.toLowerCase().includes(termo) ?? false)
+    );
+  }, [clientes, busca, notas]);
+
+  const clienteSelecionado = clientes.find(c => c.telefone_key === telefoneSelecionado);
+
+  if (loading && pedidos.length === 0) {
+    return <div className="text-center p-10"><p className="text-xl text-gray-600">Carregando clientes...</p></div>;
+  }
+
+  if (error && pedidos.length === 0) {
+    return <div className="text-center p-10"><p className="text-xl text-red-600 bg-red-100 p-4 rounded-lg">{error}</p></div>;
+  }
+
+  if (clienteSelecionado) {
+    return (
+      <ClienteDetalhe
+        key={clienteSelecionado.telefone_key}
+        cliente={clienteSelecionado}
+        notaInicial={notas.get(clienteSelecionado.telefone_key)?.notas ?? ""}
+        onVoltar={() => setTelefoneSelecionado(null)}
+        onNotaSalva={(nota) => setNotas(prev => new Map(prev).set(nota.telefone_key, nota))}
+      />
+    );
+  }
+
+  return (
+    <div className="container mx-auto p-4 pb-20">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-3xl font-semibold text-gray-700">Clientes ({clientes.length})</h2>
+        <div className="relative">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={busca}
+            onChange={(e) => setBusca(e.target.value)}
+            placeholder="Buscar por nome, telefone ou nota"
+            className="pl-9 pr-3 py-2 w-72 border-2 border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 text-sm bg-white"
+          />
+        </div>
+      </div>
+
+      {clientesFiltrados.length === 0 && (
+        <p className="text-center text-gray-500 mt-12 text-xl">Nenhum cliente encontrado.</p>
+      )}
+
+      <div className="overflow-x-auto bg-white rounded-xl shadow border border-gray-200">
+        <table className="min-w-full text-sm text-left">
+          <thead className="bg-gray-50 text-gray-600">
+            <tr>
+              <th className="px-4 py-3 font-semibold">Cliente</th>
+              <th className="px-4 py-3 font-semibold">Telefone</th>
+              <th className="px-4 py-3 font-semibold text-right">Pedidos</th>
+              <th className="px-4 py-3 font-semibold text-right">Total gasto</th>
+              <th className="px-4 py-3 font-semibold">Último pedido</th>
+              <th className="px-4 py-3 font-semibold">O de sempre</th>
+            </tr>
+          </thead>
+          <tbody>
+            {clientesFiltrados.map(cliente => (
+              <tr key={cliente.telefone_key} onClick={() => setTelefoneSelecionado(cliente.telefone_key)} className="border-t border-gray-100 hover:bg-pink-50 cursor-pointer">
+                <td className="px-4 py-3 font-medium text-gray-800">
+                  {cliente.nomes[0] || "(sem nome)"}
+                  {notas.get(cliente.telefone_key)?.notas && <span className="ml-2 text-xs text-custom-pink" title={notas.get(cliente.telefone_key)?.notas}>● nota</span>}
+                </td>
+                <td className="px-4 py-3 text-gray-600">{cliente.telefone_key}</td>
+                <td className="px-4 py-3 text-right">{cliente.totalPedidos}</td>
+                <td className="px-4 py-3 text-right">{formatarMoeda(cliente.totalGasto)}</td>
+                <td className="px-4 py-3 text-gray-600">{formatDataHoraPedido(cliente.ultimoPedido)}</td>
+                <td className="px-4 py-3 text-gray-600">{cliente.itensFrequentes[0]?.produto ?? "-"}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ClientesPage;
@@ -1,67 +1,206 @@
-import React, { useState } from "react";
-import { supabase } from "../supabaseClient";
-import { CheckCircle, AlertCircle, Loader2 } from "lucide-react"; 
-
-export type StatusPedido = "Aguardando" | "Em preparo" | "Pronto" | "Enviado" | "Entregue";
-export type StatusPagamento = "Pago" | "Aguardando pagamento";
-
-export interface Pedido {
-  comanda: string;
-  telefone_key: string; 
-  nome_cliente: string; 
-  status_pedido: StatusPedido;
-  pagamento: StatusPagamento;
-  hora_criacao_pedido: string; // Adicionado para o timestamp
-}
+import React, { useMemo, useState } from "react";
+import { atualizarStatusPedido, atualizarPagamentoPedido, statusOptions, pagamentoOptions, type Pedido, type StatusPedido, type StatusPagamento } from "../lib/pedidos";
+import { parseComanda, type ComandaEstruturada } from "../lib/comandaParser";
+import { formatarHoraMinuto, formatarMoeda, formatHoraPedido } from "../lib/formatters";
+import { autorizarTransicao, validarTransicaoPagamento, validarTransicaoStatus } from "../lib/statusWorkflow";
+import { CheckCircle, AlertCircle, Loader2, History, Printer, QrCode, MessageSquare, MapPin, Pencil, GitCompare, Ban, WifiOff } from "lucide-react"; 
+import HistoricoTimeline from "./HistoricoTimeline";
+import VersoesComanda from "./VersoesComanda";
+import PixQrCode from "./PixQrCode";
+import { cn } from "../lib/utils";
+import { gerarTicketComanda } from "../lib/ticketComanda";
+import { enviarParaImpressora, obterConfigImpressao } from "../lib/impressao";
+import { formatarCronometro, inicioStatusAtual, type NivelSla } from "../lib/sla";
+import { calcularTotalPedido, type PrecoCardapio, type TotalPedido } from "../lib/precos";
+import { configPixCompleta, gerarPayloadPix, obterConfigPix, txidDoPedido } from "../lib/pix";
+import { montarMensagemCliente } from "../lib/mensagemCliente";
+import { enviarPedido, type Entregador } from "../lib/entregadores";
+import AtribuirEntregadorDialog from "./AtribuirEntregadorDialog";
+import { detectarZonaEntrega, previsaoEntrega, type ZonaEntrega } from "../lib/zonasEntrega";
+import { editarComanda, pedidoModificado } from "../lib/versoes";
+import { cancelarPedido, pedidoCancelado, registrarReembolso } from "../lib/cancelamento";
+import CancelarPedidoDialog from "./CancelarPedidoDialog";
+import { mutacoesDoRegistro } from "../lib/filaOffline";
+import { useFilaOffline } from "../hooks/use-fila-offline";
+import { usePermissoes } from "../hooks/use-sessao";
+
+export type { StatusPedido, StatusPagamento, Pedido } from "../lib/pedidos";
 
 interface ComandaCardProps {
   pedido: Pedido;
   onUpdate: () => void;
   isNew?: boolean; 
+  agora?: number;      // Relógio compartilhado do painel, para os cronômetros
+  nivelSla?: NivelSla; // Nível de atraso calculado pelo painel
+  outrosPedidosDoTelefone?: number; // Outros pedidos do mesmo telefone presentes no painel
+  cardapio?: PrecoCardapio[];       // Preços para calcular o total; sem eles o total não é exibido
+  zonas?: ZonaEntrega[];            // Zonas de entrega; sem elas o bairro não é conferido
 }
 
-const statusOptions: StatusPedido[] = ["Aguardando", "Em preparo", "Pronto", "Enviado", "Entregue"];
-const pagamentoOptions: StatusPagamento[] = ["Aguardando pagamento", "Pago"];
-
-// Função para formatar o timestamp para HH:MM:SS no fuso de São Paulo
-const formatHoraPedido = (timestamp: string): string => {
-  try {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString("pt-BR", { 
-      timeZone: "America/Sao_Paulo",
-      hour: "2-digit",
-      minute: "2-digit",
-      second: "2-digit",
-    });
-  } catch (e) {
-    console.error("Erro ao formatar hora do pedido:", e);
-    return "Hora inválida";
-  }
+const classesNivelSla: Record<NivelSla, string> = {
+  ok: "border-gray-200",
+  atencao: "border-yellow-400 border-2 bg-yellow-50",
+  atraso: "border-red-500 border-2 bg-red-50",
 };
 
-const FormattedComanda: React.FC<{ comandaText: string }> = ({ comandaText }) => {
-  const lines = comandaText.split("\n");
+const FormattedComanda: React.FC<{ comanda: ComandaEstruturada; comandaText: string; totalPedido?: TotalPedido }> = ({ comanda, comandaText, totalPedido }) => {
+  const campos: { rotulo: string; valor: string }[] = [];
+  if (comanda.tipoEntrega) campos.push({ rotulo: "Modalidade", valor: comanda.tipoEntrega });
+  if (comanda.endereco) campos.push({ rotulo: "Endereço", valor: comanda.endereco });
+  if (comanda.bairro) campos.push({ rotulo: "Bairro", valor: comanda.bairro });
+  if (comanda.complemento) campos.push({ rotulo: "Complemento", valor: comanda.complemento });
+  if (comanda.formaPagamento) campos.push({ rotulo: "Pagamento", valor: comanda.formaPagamento });
+  if (comanda.trocoSolicitado) {
+    campos.push({ rotulo: "Troco", valor: comanda.trocoPara !== undefined ? `para ${formatarMoeda(comanda.trocoPara)}` : "Sim" });
+  }
+  if (comanda.taxaEntregaInformada !== undefined) campos.push({ rotulo: "Taxa de entrega", valor: formatarMoeda(comanda.taxaEntregaInformada) });
+  if (comanda.totalInformado !== undefined) campos.push({ rotulo: "Total", valor: formatarMoeda(comanda.totalInformado) });
+  comanda.camposExtras.forEach(({ rotulo, valor }) => campos.push({ rotulo, valor }));
+
+  const nadaInterpretado = comanda.itens.length === 0 && campos.length === 0 && comanda.observacoes.length === 0;
+
+  // Sem nenhuma estrutura reconhecida, mostra o texto como veio
+  if (nadaInterpretado) {
+    return (
+      <div className="text-left text-sm">
+        {comandaText.split("\n").map((line, index) => (
+          <div key={index} className="text-gray-600 mb-0.5">{line}</div>
+        ))}
+      </div>
+    );
+  }
+
   return (
     <div className="text-left text-sm">
-      {lines.map((line, index) => {
-        const parts = line.split(/:(.+)/);
-        if (parts.length > 1) {
-          return (
-            <div key={index} className="mb-0.5">
-              <span className="font-semibold text-gray-700">{parts[0]}:</span>
-              <span className="text-gray-600">{parts[1]}</span>
+      {comanda.itens.length > 0 && (
+        <ul className="mb-2">
+          {comanda.itens.map((item, indiceItem) => {
+            const precificada = totalPedido?.linhas[indiceItem];
+            const semPreco = precificada !== undefined && precificada.subtotal === undefined;
+            return (
+              <li
+                key={item.linha}
+                className={cn("mb-1", semPreco && "bg-amber-100 rounded px-1 -mx-1")}
+                title={
+                  precificada?.candidatos
+                    ? `Mais de um item do cardápio combina: ${precificada.candidatos.map(c => c.nome_produto).join(", ")}`
+                    : semPreco ? "Item não encontrado no cardápio" : undefined
+                }
+              >
+                <div className="flex justify-between gap-2">
+                  <span>
+                    <span className="font-semibold text-gray-700">{item.quantidade}x</span>{" "}
+                    <span className="text-gray-700">{item.produto}</span>
+                    {item.precoInformado !== undefined && (
+                      <span className="text-gray-500 text-xs ml-1">({formatarMoeda(item.precoInformado)})</span>
+                    )}
+                  </span>
+                  {precificada?.subtotal !== undefined && (
+                    <span className="text-gray-600 text-xs whitespace-nowrap">{formatarMoeda(precificada.subtotal)}</span>
+                  )}
+                </div>
+                {item.adicionais.map((adicional, index) => (
+                  <div
+                    key={`a-${index}`}
+                    className={cn("text-gray-600 text-xs pl-4", precificada?.adicionaisSemPreco.includes(adicional) && "bg-amber-100 rounded")}
+                  >
+                    + {adicional}
+                  </div>
+                ))}
+                {item.observacoes.map((obs, index) => (
+                  <div key={`o-${index}`} className="text-gray-500 text-xs italic pl-4">Obs: {obs}</div>
+                ))}
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {totalPedido && comanda.itens.length > 0 && (
+        <div className="mb-2 pt-1 border-t border-gray-200">
+          {totalPedido.taxaEntrega > 0 && (
+            <div className="flex justify-between text-xs text-gray-600">
+              <span>Taxa de entrega</span>
+              <span>{formatarMoeda(totalPedido.taxaEntrega)}</span>
             </div>
-          );
-        }
-        return <div key={index} className="text-gray-600 mb-0.5">{line}</div>;
-      })}
+          )}
+          <div className="flex justify-between font-semibold text-gray-800">
+            <span>Total calculado</span>
+            <span>{formatarMoeda(totalPedido.total)}</span>
+          </div>
+          {totalPedido.linhasSemPreco > 0 && (
+            <div className="text-xs text-amber-700">{totalPedido.linhasSemPreco} linha(s) sem preço no cardápio, fora do total</div>
+          )}
+          {comanda.totalInformado !== undefined && Math.abs(comanda.totalInformado - totalPedido.total) >= 0.01 && (
+            <div className="text-xs text-red-600">Difere do total informado ({formatarMoeda(comanda.totalInformado)})</div>
+          )}
+        </div>
+      )}
+      {campos.map((campo, index) => (
+        <div key={index} className="mb-0.5">
+          <span className="font-semibold text-gray-700">{campo.rotulo}:</span>
+          <span className="text-gray-600"> {campo.valor}</span>
+        </div>
+      ))}
+      {comanda.observacoes.map((obs, index) => (
+        <div key={`obs-${index}`} className="mb-0.5">
+          <span className="font-semibold text-gray-700">Obs:</span>
+          <span className="text-gray-600"> {obs}</span>
+        </div>
+      ))}
+      {comanda.naoReconhecidas.length > 0 && (
+        <div className="mt-2 pt-1 border-t border-dashed border-amber-300" title="Linhas que não foram interpretadas automaticamente">
+          {comanda.naoReconhecidas.map(({ texto, linha }) => (
+            <div key={linha} className="text-amber-700 mb-0.5">{texto}</div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
 
-const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew }) => {
+const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew, agora, nivelSla = "ok", outrosPedidosDoTelefone = 0, cardapio, zonas }) => {
   const [isUpdating, setIsUpdating] = useState(false);
   const [updateSuccess, setUpdateSuccess] = useState<boolean | null>(null);
+  const [mostrarHistorico, setMostrarHistorico] = useState(false);
+  const [mostrarPix, setMostrarPix] = useState(false);
+  const [escolhendoEntregador, setEscolhendoEntregador] = useState(false);
+  const [mostrarVersoes, setMostrarVersoes] = useState(false);
+  const [cancelando, setCancelando] = useState(false);
+  // Texto em edição e a versão sobre a qual a edição começou
+  const [edicao, setEdicao] = useState<{ comanda: string; nome: string; versaoBase: number } | null>(null);
+  const filaOffline = useFilaOffline();
+  const permissoes = usePermissoes();
+  // Alterações deste pedido feitas sem conexão, ainda não confirmadas pelo servidor
+  const alteracoesNaFila = mutacoesDoRegistro("Comandas", pedido.id, filaOffline);
+  const comandaEstruturada = useMemo(() => parseComanda(pedido.comanda), [pedido.comanda]);
+  const zonaEntrega = useMemo(
+    () => (zonas && zonas.length > 0 && comandaEstruturada.tipoEntrega === "Entrega" ? detectarZonaEntrega(comandaEstruturada, zonas) : undefined),
+    [comandaEstruturada, zonas]
+  );
+  const zonaEncontrada = zonaEntrega?.situacao === "encontrada" ? zonaEntrega.zona : undefined;
+  const totalPedido = useMemo(
+    () => (cardapio && cardapio.length > 0
+      ? calcularTotalPedido(comandaEstruturada, cardapio, zonaEncontrada && Number(zonaEncontrada.taxa_entrega))
+      : undefined),
+    [comandaEstruturada, cardapio, zonaEncontrada]
+  );
+  // Valor dos itens para conferir o pedido mínimo da zona
+  const subtotalItens = totalPedido && totalPedido.linhasSemPreco === 0
+    ? totalPedido.subtotalItens
+    : comandaEstruturada.totalInformado !== undefined
+      ? comandaEstruturada.totalInformado - (comandaEstruturada.taxaEntregaInformada ?? 0)
+      : undefined;
+  // Cobra o total informado pelo bot; sem ele, o calculado, desde que todas as linhas tenham preço
+  const valorCobranca = comandaEstruturada.totalInformado ??
+    (totalPedido && totalPedido.linhasSemPreco === 0 ? totalPedido.total : undefined);
+
+  const gerarPixDoPedido = (): string | undefined => {
+    const config = obterConfigPix();
+    if (!configPixCompleta(config)) return undefined;
+    return gerarPayloadPix({ ...config, valor: valorCobranca, txid: txidDoPedido(pedido.id) });
+  };
+  // Gerado só com o painel aberto; o QR Code em si é memorizado pelo payload
+  const pixCopiaECola = mostrarPix ? gerarPixDoPedido() : undefined;
 
   const showFeedback = (success: boolean) => {
     setUpdateSuccess(success);
@@ -69,12 +208,50 @@ const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew }) =>
   };
 
   const handleStatusChange = async (newStatus: StatusPedido) => {
+    if (!autorizarTransicao(validarTransicaoStatus(pedido, newStatus))) return;
+    if (newStatus === "Enviado") {
+      setEscolhendoEntregador(true);
+      return;
+    }
     setIsUpdating(true);
     setUpdateSuccess(null);
-    const { error } = await supabase
-      .from("Comandas")
-      .update({ status_pedido: newStatus })
-      .eq("telefone_key", pedido.telefone_key);
+    const { error } = await atualizarStatusPedido(pedido, newStatus);
+    concluirAtualizacaoStatus(error);
+  };
+
+  const handleEnvio = async (entregador: Entregador | null) => {
+    setEscolhendoEntregador(false);
+    setIsUpdating(true);
+    setUpdateSuccess(null);
+    const { error } = await enviarPedido(pedido, entregador);
+    concluirAtualizacaoStatus(error);
+  };
+
+  const handleCancelamento = async (motivo: string) => {
+    setCancelando(false);
+    setIsUpdating(true);
+    setUpdateSuccess(null);
+    const { error } = await cancelarPedido(pedido, motivo);
+    concluirAtualizacaoStatus(error);
+  };
+
+  const handleReembolso = async () => {
+    if (!window.confirm(`Confirmar que o valor do pedido #${pedido.id} foi devolvido ao cliente?`)) return;
+    setIsUpdating(true);
+    setUpdateSuccess(null);
+    const { error } = await registrarReembolso(pedido);
+    setIsUpdating(false);
+    if (error) {
+      console.error("Erro ao registrar reembolso:", error);
+      alert(`Falha ao registrar reembolso: ${error.message}`);
+      showFeedback(false);
+    } else {
+      onUpdate();
+      showFeedback(true);
+    }
+  };
+
+  const concluirAtualizacaoStatus = (error: { message: string } | null) => {
     setIsUpdating(false);
     if (error) {
       console.error("Erro ao atualizar status do pedido:", error);
@@ -87,12 +264,10 @@ const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew }) =>
   };
 
   const handlePagamentoChange = async (newPagamento: StatusPagamento) => {
+    if (!autorizarTransicao(validarTransicaoPagamento(pedido, newPagamento))) return;
     setIsUpdating(true);
     setUpdateSuccess(null);
-    const { error } = await supabase
-      .from("Comandas")
-      .update({ pagamento: newPagamento })
-      .eq("telefone_key", pedido.telefone_key);
+    const { error } = await atualizarPagamentoPedido(pedido, newPagamento);
     setIsUpdating(false);
     if (error) {
       console.error("Erro ao atualizar status do pagamento:", error);
@@ -104,18 +279,73 @@ const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew }) =>
     }
   };
 
-  const handleCopiarComanda = () => {
-    navigator.clipboard.writeText(pedido.comanda)
-      .then(() => alert("Comanda copiada para a área de transferência!"))
+  const copiarTexto = (texto: string, descricao: string) => {
+    navigator.clipboard.writeText(texto)
+      .then(() => alert(`${descricao} copiado(a) para a área de transferência!`))
       .catch(err => {
-        console.error("Erro ao copiar comanda:", err);
-        alert("Falha ao copiar comanda.");
+        console.error(`Erro ao copiar ${descricao.toLowerCase()}:`, err);
+        alert(`Falha ao copiar ${descricao.toLowerCase()}.`);
       });
   };
 
-  const cardClasses = `border p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 bg-white group flex flex-col justify-between min-h-[450px] relative ${
-    isNew ? "animate-pulse border-custom-pink border-2 ring-4 ring-custom-pink ring-opacity-50" : "border-gray-200"
-  }`;
+  const handleCopiarComanda = () => copiarTexto(pedido.comanda, "Comanda");
+
+  const handleSalvarEdicao = async () => {
+    if (!edicao) return;
+    if (edicao.comanda === pedido.comanda && edicao.nome === pedido.nome_cliente) {
+      setEdicao(null);
+      return;
+    }
+    if (!edicao.comanda.trim()) {
+      alert("A comanda não pode ficar vazia.");
+      return;
+    }
+    const versaoAtual = pedido.versao ?? 1;
+    if (versaoAtual !== edicao.versaoBase &&
+      !window.confirm("A comanda foi alterada por outra pessoa durante a edição. Salvar mesmo assim?")) {
+      return;
+    }
+    setIsUpdating(true);
+    setUpdateSuccess(null);
+    // Confirmado o aviso, a edição passa a valer sobre a versão que o card mostra agora
+    const { error, status } = await editarComanda(pedido, { comanda: edicao.comanda, nome_cliente: edicao.nome.trim() }, versaoAtual);
+    setIsUpdating(false);
+    if (status === 409) {
+      // Alterada no banco depois do último evento que o card recebeu: o texto novo chega pelo
+      // Realtime, e o próximo salvar cai no aviso acima
+      alert("A comanda foi alterada por outra pessoa durante a edição. Confira a versão atual antes de salvar de novo.");
+      showFeedback(false);
+    } else if (error) {
+      console.error("Erro ao editar comanda:", error);
+      alert(`Falha ao editar comanda: ${error.message}`);
+      showFeedback(false);
+    } else {
+      setEdicao(null);
+      onUpdate();
+      showFeedback(true);
+    }
+  };
+
+  const handleCopiarMensagem = () => {
+    const pix = pedido.pagamento === "Pago" ? undefined : gerarPixDoPedido();
+    copiarTexto(montarMensagemCliente(pedido, { valor: valorCobranca, pixCopiaECola: pix }), "Mensagem");
+  };
+
+  const handleImprimirComanda = async () => {
+    const config = obterConfigImpressao();
+    try {
+      const bytes = gerarTicketComanda(pedido, { larguraPapel: config.larguraPapel, nomeRestaurante: config.nomeRestaurante });
+      await enviarParaImpressora(bytes, config, `comanda-${pedido.id}.bin`);
+    } catch (err) {
+      console.error("Erro ao imprimir comanda:", err);
+      alert(`Falha ao imprimir comanda: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const cardClasses = cn(
+    "border p-5 rounded-xl shadow-lg hover:shadow-xl transition-all duration-300 bg-white group flex flex-col justify-between min-h-[450px] relative",
+    isNew ? "animate-pulse border-custom-pink border-2 ring-4 ring-custom-pink ring-opacity-50" : classesNivelSla[nivelSla]
+  );
 
   return (
     <div className={cardClasses}>
@@ -134,50 +364,278 @@ const ComandaCard: React.FC<ComandaCardProps> = ({ pedido, onUpdate, isNew }) =>
           <AlertCircle className="h-5 w-5 text-red-500" />
         </div>
       )}
+      {escolhendoEntregador && (
+        <AtribuirEntregadorDialog
+          pedido={pedido}
+          onConfirmar={handleEnvio}
+          onCancelar={() => setEscolhendoEntregador(false)}
+        />
+      )}
+      {cancelando && (
+        <CancelarPedidoDialog
+          pedido={pedido}
+          onConfirmar={handleCancelamento}
+          onCancelar={() => setCancelando(false)}
+        />
+      )}
       <div> 
         <div className="flex justify-between items-center mb-2">
-          <h2 className="text-xl font-bold text-gray-800">Pedido: {pedido.nome_cliente || pedido.telefone_key}</h2>
+          <h2 className="text-xl font-bold text-gray-800">
+            Pedido <span className="text-gray-400 font-semibold">#{pedido.id}</span>: {pedido.nome_cliente || pedido.telefone_key}
+            {pedidoModificado(pedido) && (
+              <span
+                className="ml-2 align-middle text-xs font-semibold text-amber-800 bg-amber-100 border border-amber-300 rounded-full px-2 py-0.5"
+                title={pedido.modificado_em ? `Alterada às ${formatHoraPedido(pedido.modificado_em)}` : undefined}
+              >
+                modificado v{pedido.versao}
+              </span>
+            )}
+          </h2>
           {pedido.hora_criacao_pedido && (
             <span className="text-xs text-gray-500 bg-gray-100 px-2 py-1 rounded">
               {formatHoraPedido(pedido.hora_criacao_pedido)}
             </span>
           )}
         </div>
-        
+        {alteracoesNaFila.length > 0 && (
+          <div className="text-sm bg-gray-100 border border-gray-300 rounded px-3 py-2 mb-2">
+            {alteracoesNaFila.map(mutacao => (
+              <p key={mutacao.seq} className={mutacao.situacao === "conflito" ? "font-semibold text-red-700" : "text-gray-700"}>
+                <WifiOff size={14} className="inline mr-1" />
+                {mutacao.situacao === "conflito" ? "Conflito" : "Aguardando conexão"}: {mutacao.descricao}
+              </p>
+            ))}
+          </div>
+        )}
+        {pedidoCancelado(pedido) && (
+          <div className="text-sm bg-red-50 border border-red-300 rounded px-3 py-2 mb-2">
+            <p className="font-bold text-red-700">
+              CANCELADO{pedido.cancelado_em ? ` às ${formatHoraPedido(pedido.cancelado_em)}` : ""}
+              {pedido.cancelado_por ? <span className="font-normal"> por {pedido.cancelado_por}</span> : null}
+            </p>
+            <p className="text-red-700">{pedido.motivo_cancelamento}</p>
+            {pedido.reembolso === "Pendente" && (
+              <div className="flex items-center justify-between gap-2 mt-1">
+                <span className="font-semibold text-amber-800">Reembolso pendente</span>
+                {permissoes.alterarPagamento && (
+                  <button onClick={handleReembolso} className="text-xs bg-amber-500 text-white px-3 py-1.5 rounded-lg hover:bg-amber-600">
+                    Registrar Reembolso
+                  </button>
+                )}
+              </div>
+            )}
+            {pedido.reembolso === "Reembolsado" && (
+              <p className="text-green-700 mt-1">
+                Reembolsado{pedido.reembolsado_em ? ` às ${formatHoraPedido(pedido.reembolsado_em)}` : ""}
+              </p>
+            )}
+          </div>
+        )}
+        {outrosPedidosDoTelefone > 0 && (
+          <p className="text-xs font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded px-2 py-1 mb-2">
+            Este telefone tem mais {outrosPedidosDoTelefone} pedido(s) no painel
+          </p>
+        )}
+        {agora !== undefined && pedido.hora_criacao_pedido && (
+          <div className={`flex justify-between text-xs mb-3 font-mono ${
+            nivelSla === "atraso" ? "text-red-700 font-bold" : nivelSla === "atencao" ? "text-yellow-700 font-semibold" : "text-gray-500"
+          }`}>
+            <span title="Tempo desde a criação do pedido">Total {formatarCronometro(agora - new Date(pedido.hora_criacao_pedido).getTime())}</span>
+            <span title="Tempo no status atual">{pedido.status_pedido} {formatarCronometro(agora - new Date(inicioStatusAtual(pedido)).getTime())}</span>
+          </div>
+        )}
+        {zonaEncontrada && (
+          <div className="text-xs text-gray-700 bg-gray-50 border border-gray-200 rounded px-2 py-1 mb-2">
+            <div className="flex items-center gap-1">
+              <MapPin size={12} className="text-custom-pink" />
+              <span className="font-semibold">{zonaEncontrada.bairro}</span>
+              <span>· Taxa {formatarMoeda(Number(zonaEncontrada.taxa_entrega))}</span>
+              <span>· ~{zonaEncontrada.tempo_estimado_min} min (até {formatarHoraMinuto(previsaoEntrega(pedido.hora_criacao_pedido, zonaEncontrada))})</span>
+            </div>
+            {comandaEstruturada.taxaEntregaInformada !== undefined &&
+              Math.abs(comandaEstruturada.taxaEntregaInformada - Number(zonaEncontrada.taxa_entrega)) >= 0.01 && (
+              <div className="text-amber-700">Taxa informada ({formatarMoeda(comandaEstruturada.taxaEntregaInformada)}) difere da taxa do bairro</div>
+            )}
+            {subtotalItens !== undefined && subtotalItens < Number(zonaEncontrada.pedido_minimo) && (
+              <div className="text-amber-700">Abaixo do pedido mínimo do bairro ({formatarMoeda(Number(zonaEncontrada.pedido_minimo))})</div>
+            )}
+          </div>
+        )}
+        {zonaEntrega?.situacao === "fora" && (
+          <p className="text-xs font-medium text-red-700 bg-red-50 border border-red-200 rounded px-2 py-1 mb-2 flex items-center gap-1">
+            <MapPin size={12} />
+            Endereço fora das zonas de entrega{zonaEntrega.bairroInformado ? ` (${zonaEntrega.bairroInformado})` : ""}
+          </p>
+        )}
+
         <div className="mb-4">
           <h3 className="text-md font-semibold text-gray-700 mb-1.5">Comanda Detalhada:</h3>
-          <div className="text-gray-700 whitespace-pre-wrap bg-gray-50 p-3 rounded-md border border-gray-200 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100">
-            <FormattedComanda comandaText={pedido.comanda} />
-          </div>
+          {edicao ? (
+            <div className="bg-gray-50 p-3 rounded-md border border-custom-pink space-y-2">
+              <input
+                type="text"
+                value={edicao.nome}
+                onChange={(e) => setEdicao({ ...edicao, nome: e.target.value })}
+                placeholder="Nome do cliente"
+                className="w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white"
+              />
+              <textarea
+                value={edicao.comanda}
+                onChange={(e) => setEdicao({ ...edicao, comanda: e.target.value })}
+                rows={10}
+                className="w-full p-2 border border-gray-300 rounded-md text-sm font-mono focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white"
+              />
+              <div className="flex justify-end gap-2">
+                <button onClick={() => setEdicao(null)} className="text-xs bg-gray-200 text-gray-700 px-3.5 py-2 rounded-lg hover:bg-gray-300">
+                  Cancelar
+                </button>
+                <button onClick={handleSalvarEdicao} className="text-xs bg-custom-pink text-white px-3.5 py-2 rounded-lg shadow-md hover:bg-pink-700">
+                  Salvar Alteração
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="text-gray-700 whitespace-pre-wrap bg-gray-50 p-3 rounded-md border border-gray-200 max-h-40 overflow-y-auto scrollbar-thin scrollbar-thumb-gray-300 scrollbar-track-gray-100">
+              <FormattedComanda comanda={comandaEstruturada} comandaText={pedido.comanda} totalPedido={totalPedido} />
+            </div>
+          )}
           <button 
             onClick={handleCopiarComanda}
             className="mt-2.5 text-xs bg-custom-pink text-white px-3.5 py-2 rounded-lg shadow-md hover:bg-pink-700 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
           >
             Copiar Comanda
           </button>
-        </div>
-
-        <div className="mb-4">
-          <label htmlFor={`status-${pedido.telefone_key}`} className="block text-sm font-medium text-gray-700 mb-1">Status do Pedido:</label>
-          <select 
-            id={`status-${pedido.telefone_key}`}
-            value={pedido.status_pedido}
-            onChange={(e) => handleStatusChange(e.target.value as StatusPedido)}
-            className="w-full p-2.5 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-custom-pink focus:border-custom-pink group-hover:border-pink-400 transition-all appearance-none bg-white bg-no-repeat bg-right pr-8" 
-            style={{ backgroundImage: `url("data:image/svg+xml,%3csvg xmlns=\'http://www.w3.org/2000/svg\' fill=\'none\' viewBox=\'0 0 20 20\'%3e%3cpath stroke=\'%236b7280\' stroke-linecap=\'round\' stroke-linejoin=\'round\' stroke-width=\'1.5\' d=\'M6 8l4 4 4-4\'/\%3e%3c/svg%3e")`}}
+          <button 
+            onClick={handleImprimirComanda}
+            className="mt-2.5 ml-2 text-xs bg-gray-100 text-gray-700 px-3.5 py-2 rounded-lg shadow-sm hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
           >
-            {statusOptions.map(option => (
-              <option key={option} value={option}>{option}</option>
-            ))}
-          </select>
+            <Printer size={14} className="inline mr-1" />
+            Imprimir
+          </button>
+          <button 
+            onClick={() => setMostrarHistorico(prev => !prev)}
+            className="mt-2.5 ml-2 text-xs bg-gray-100 text-gray-700 px-3.5 py-2 rounded-lg shadow-sm hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
+          >
+            <History size={14} className="inline mr-1" />
+            {mostrarHistorico ? "Ocultar Histórico" : "Histórico"}
+          </button>
+          <button 
+            onClick={() => setMostrarPix(prev => !prev)}
+            className="mt-2.5 ml-2 text-xs bg-gray-100 text-gray-700 px-3.5 py-2 rounded-lg shadow-sm hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
+          >
+            <QrCode size={14} className="inline mr-1" />
+            {mostrarPix ? "Ocultar Pix" : "Pix"}
+          </button>
+          <button 
+            onClick={handleCopiarMensagem}
+            className="mt-2.5 ml-2 text-xs bg-gray-100 text-gray-700 px-3.5 py-2 rounded-lg shadow-sm hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
+          >
+            <MessageSquare size={14} className="inline mr-1" />
+            Mensagem ao Cliente
+          </button>
+          {!edicao && permissoes.editarComanda && (
+            <button 
+              onClick={() => setEdicao({ comanda: pedido.comanda, nome: pedido.nome_cliente ?? "", versaoBase: pedido.versao ?? 1 })}
+              className="mt-2.5 ml-2 text-xs bg-gray-100 text-gray-700 px-3.5 py-2 rounded-lg shadow-sm hover:bg-gray-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
+            >
+              <Pencil size={14} className="inline mr-1" />
+              Editar
+            </button>
+          )}
+          {pedidoModificado(pedido) && (
+            <button 
+              onClick={() => setMostrarVersoes(prev => !prev)}
+              className="mt-2.5 ml-2 text-xs bg-amber-100 text-amber-800 px-3.5 py-2 rounded-lg shadow-sm hover:bg-amber-200 transition-colors focus:outline-none focus:ring-2 focus:ring-pink-500 focus:ring-opacity-50"
+            >
+              <GitCompare size={14} className="inline mr-1" />
+              {mostrarVersoes ? "Ocultar Alterações" : "Alterações"}
+            </button>
+          )}
+          {mostrarHistorico && (
+            <div className="mt-3 bg-gray-50 p-3 rounded-md border border-gray-200">
+              <HistoricoTimeline pedido={pedido} />
+            </div>
+          )}
+          {mostrarVersoes && (
+            <div className="mt-3 bg-gray-50 p-3 rounded-md border border-amber-200">
+              <VersoesComanda pedido={pedido} />
+            </div>
+          )}
+          {mostrarPix && (
+            <div className="mt-3 bg-gray-50 p-3 rounded-md border border-gray-200 text-sm text-center">
+              {pixCopiaECola ? (
+                <>
+                  <div className="flex justify-center mb-2">
+                    <PixQrCode payload={pixCopiaECola} />
+                  </div>
+                  <p className="font-semibold text-gray-700 mb-1">
+                    {valorCobranca !== undefined ? formatarMoeda(valorCobranca) : "Valor livre (cliente digita no app)"}
+                  </p>
+                  <p className="text-xs text-gray-500 break-all font-mono mb-2">{pixCopiaECola}</p>
+                  <button
+                    onClick={() => copiarTexto(pixCopiaECola, "Pix copia e cola")}
+                    className="text-xs bg-custom-pink text-white px-3.5 py-2 rounded-lg shadow-md hover:bg-pink-700 transition-colors"
+                  >
+                    Copiar Pix
+                  </button>
+                </>
+              ) : (
+                <p className="text-amber-700">Cadastre a chave Pix, o nome e a cidade em "Pix" no topo do painel.</p>
+              )}
+            </div>
+          )}
         </div>
 
+        {pedidoCancelado(pedido) ? (
+          permissoes.alterarStatus && <div className="mb-4">
+            <button
+              onClick={() => handleStatusChange("Aguardando")}
+              className="w-full text-sm bg-gray-100 text-gray-700 px-3.5 py-2.5 rounded-lg shadow-sm hover:bg-gray-200 transition-colors"
+            >
+              Reabrir Pedido
+            </button>
+          </div>
+        ) : (
+          <div className="mb-4">
+            <label htmlFor={`status-${pedido.id}`} className="block text-sm font-medium text-gray-700 mb-1">Status do Pedido:</label>
+            <select 
+              id={`status-${pedido.id}`}
+              value={pedido.status_pedido}
+              onChange={(e) => handleStatusChange(e.target.value as StatusPedido)}
+              disabled={!permissoes.alterarStatus}
+              className="w-full p-2.5 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-custom-pink focus:border-custom-pink group-hover:border-pink-400 transition-all appearance-none bg-white bg-no-repeat bg-right pr-8" 
+              style={{ backgroundImage: `url("data:image/svg+xml,%3csvg xmlns=\'http://www.w3.org/2000/svg\' fill=\'none\' viewBox=\'0 0 20 20\'%3e%3cpath stroke=\'%236b7280\' stroke-linecap=\'round\' stroke-linejoin=\'round\' stroke-width=\'1.5\' d=\'M6 8l4 4 4-4\'/\%3e%3c/svg%3e")`}}
+            >
+              {statusOptions.map(option => (
+                <option
+                  key={option}
+                  value={option}
+                  // O bloqueio por pagamento pendente fica para a escolha, que explica o motivo
+                  disabled={option !== pedido.status_pedido && validarTransicaoStatus(pedido, option, { bloquearEntregaSemPagamento: false }).tipo === "rejeitada"}
+                >
+                  {option}
+                </option>
+              ))}
+            </select>
+            {permissoes.alterarStatus && validarTransicaoStatus(pedido, "Cancelado").tipo !== "rejeitada" && (
+              <button
+                onClick={() => setCancelando(true)}
+                className="mt-2 text-xs text-red-600 hover:text-red-800 flex items-center"
+              >
+                <Ban size={14} className="mr-1" />
+                Cancelar pedido
+              </button>
+            )}
+          </div>
+        )}
+
         <div className="mb-4">
-          <label htmlFor={`pagamento-${pedido.telefone_key}`} className="block text-sm font-medium text-gray-700 mb-1">Status do Pagamento:</label>
+          <label htmlFor={`pagamento-${pedido.id}`} className="block text-sm font-medium text-gray-700 mb-1">Status do Pagamento:</label>
           <select 
-            id={`pagamento-${pedido.telefone_key}`}
+            id={`pagamento-${pedido.id}`}
             value={pedido.pagamento}
             onChange={(e) => handlePagamentoChange(e.target.value as StatusPagamento)}
+            disabled={pedidoCancelado(pedido) || !permissoes.alterarPagamento}
             className="w-full p-2.5 border border-gray-300 rounded-lg shadow-sm focus:ring-2 focus:ring-custom-pink focus:border-custom-pink group-hover:border-pink-400 transition-all appearance-none bg-white bg-no-repeat bg-right pr-8"
             style={{ backgroundImage: `url("data:image/svg+xml,%3csvg xmlns=\'http://www.w3.org/2000/svg\' fill=\'none\' viewBox=\'0 0 20 20\'%3e%3cpath stroke=\'%236b7280\' stroke-linecap=\'round\' stroke-linejoin=\'round\' stroke-width=\'1.5\' d=\'M6 8l4 4 4-4\'/\%3e%3c/svg%3e")`}}
           >
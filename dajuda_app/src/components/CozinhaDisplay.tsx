@@ -0,0 +1,312 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Maximize, Minimize, X } from "lucide-react";
+import { atualizarStatusPedido, type Pedido, type StatusPedido } from "../lib/pedidos";
+import { parseComanda } from "../lib/comandaParser";
+import { autorizarTransicao, proximoStatusPedido, validarTransicaoStatus } from "../lib/statusWorkflow";
+import { formatarCronometro, inicioStatusAtual, type NivelSla } from "../lib/sla";
+import { cn } from "../lib/utils";
+import { enviarPedido, type Entregador } from "../lib/entregadores";
+import AtribuirEntregadorDialog from "./AtribuirEntregadorDialog";
+import { pedidoModificado } from "../lib/versoes";
+import { formatarHoraMinuto } from "../lib/formatters";
+import { mutacoesDoRegistro } from "../lib/filaOffline";
+import { useFilaOffline } from "../hooks/use-fila-offline";
+import { usePermissoes } from "../hooks/use-sessao";
+
+// Tela da cozinha (KDS): somente pedidos ativos, operada apenas pelo teclado.
+// Bump bars e teclados numéricos USB enviam teclas comuns, então os atalhos são:
+//   1-9          seleciona o card pelo número
+//   ← → ↑ ↓      move a seleção
+//   Enter / + / Espaço   avança o pedido selecionado para o próximo status
+//   - / Backspace / *    desfaz o último avanço (recall)
+//   F            alterna tela cheia
+
+interface CozinhaDisplayProps {
+  pedidos: Pedido[];
+  agora: number;
+  niveisSla: Map<number, NivelSla>;
+  newPedidoIds: Set<number>;
+  onUpdate: () => void;
+  onSair: () => void;
+}
+
+interface Avanco {
+  pedidoId: number;
+  statusAnterior: StatusPedido;
+  nome: string;
+}
+
+const statusAtivosCozinha: StatusPedido[] = ["Aguardando", "Em preparo", "Pronto"];
+
+const corStatus: Record<StatusPedido, string> = {
+  "Aguardando": "bg-yellow-500",
+  "Em preparo": "bg-orange-500",
+  "Pronto": "bg-green-600",
+  "Enviado": "bg-blue-600",
+  "Entregue": "bg-gray-500",
+  "Cancelado": "bg-red-700",
+};
+
+const classesNivelSla: Record<NivelSla, string> = {
+  ok: "border-gray-700",
+  atencao: "border-yellow-400",
+  atraso: "border-red-500 bg-red-950",
+};
+
+// Pedidos de retirada saem de "Pronto" direto para "Entregue"; os demais vão para "Enviado"
+const proximoStatusNaCozinha = (pedido: Pedido): StatusPedido | null => {
+  if (pedido.status_pedido === "Pronto" && parseComanda(pedido.comanda).tipoEntrega === "Retirada") {
+    return "Entregue";
+  }
+  return proximoStatusPedido(pedido.status_pedido);
+};
+
+const CozinhaDisplay: React.FC<CozinhaDisplayProps> = ({ pedidos, agora, niveisSla, newPedidoIds, onUpdate, onSair }) => {
+  const [indiceSelecionado, setIndiceSelecionado] = useState<number>(0);
+  const [avancos, setAvancos] = useState<Avanco[]>([]);
+  const [aviso, setAviso] = useState<string | null>(null);
+  const [emTelaCheia, setEmTelaCheia] = useState<boolean>(!!document.fullscreenElement);
+  const [ocupado, setOcupado] = useState<boolean>(false);
+  const [pedidoParaEnviar, setPedidoParaEnviar] = useState<Pedido | null>(null);
+  const filaOffline = useFilaOffline();
+  const { alterarStatus } = usePermissoes();
+
+  // Fila da cozinha: mais antigos primeiro
+  const pedidosAtivos = useMemo(
+    () => pedidos
+      .filter(p => statusAtivosCozinha.includes(p.status_pedido))
+      .sort((a, b) => new Date(a.hora_criacao_pedido).getTime() - new Date(b.hora_criacao_pedido).getTime()),
+    [pedidos]
+  );
+
+  useEffect(() => {
+    if (indiceSelecionado >= pedidosAtivos.length && pedidosAtivos.length > 0) {
+      setIndiceSelecionado(pedidosAtivos.length - 1);
+    }
+  }, [pedidosAtivos.length, indiceSelecionado]);
+
+  useEffect(() => {
+    if (!aviso) return;
+    const timeout = setTimeout(() => setAviso(null), 4000);
+    return () => clearTimeout(timeout);
+  }, [aviso]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setEmTelaCheia(!!document.fullscreenElement);
+    document.addEventListener("fullscreenchange", handleFullscreenChange);
+    return () => document.removeEventListener("fullscreenchange", handleFullscreenChange);
+  }, []);
+
+  const alternarTelaCheia = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(console.error);
+    } else {
+      document.documentElement.requestFullscreen().catch(e => {
+        console.error("Erro ao entrar em tela cheia:", e);
+        setAviso("Não foi possível entrar em tela cheia.");
+      });
+    }
+  }, []);
+
+  // `descricao` é o que aparece no aviso depois de avançar
+  const registrarAvanco = useCallback(async (
+    pedido: Pedido,
+    descricao: string,
+    atualizar: () => PromiseLike<{ error: { message: string } | null }>
+  ) => {
+    setOcupado(true);
+    const { error } = await atualizar();
+    setOcupado(false);
+    if (error) {
+      console.error("Erro ao atualizar status do pedido:", error);
+      setAviso(`Falha ao atualizar status: ${error.message}`);
+      return;
+    }
+    setAvancos(prev => [...prev, { pedidoId: pedido.id, statusAnterior: pedido.status_pedido, nome: pedido.nome_cliente || pedido.telefone_key }]);
+    setAviso(`${pedido.nome_cliente || pedido.telefone_key}: ${descricao}`);
+    onUpdate();
+  }, [onUpdate]);
+
+  const avancarSelecionado = useCallback(async () => {
+    const pedido = pedidosAtivos[indiceSelecionado];
+    if (!pedido || ocupado) return;
+    if (!alterarStatus) {
+      setAviso("Seu perfil não altera o status dos pedidos.");
+      return;
+    }
+    const proximo = proximoStatusNaCozinha(pedido);
+    if (!proximo) return;
+    if (!autorizarTransicao(validarTransicaoStatus(pedido, proximo))) return;
+    if (proximo === "Enviado") {
+      setPedidoParaEnviar(pedido);
+      return;
+    }
+    await registrarAvanco(pedido, proximo, () => atualizarStatusPedido(pedido, proximo));
+  }, [pedidosAtivos, indiceSelecionado, ocupado, alterarStatus, registrarAvanco]);
+
+  const handleEnvio = (entregador: Entregador | null) => {
+    const pedido = pedidoParaEnviar;
+    setPedidoParaEnviar(null);
+    if (!pedido) return;
+    registrarAvanco(pedido, entregador ? `Enviado com ${entregador.nome}` : "Enviado", () => enviarPedido(pedido, entregador));
+  };
+
+  const desfazerUltimoAvanco = useCallback(async () => {
+    // Com uma alteração em andamento, o último avanço ainda pode mudar; a tecla é ignorada
+    if (ocupado) return;
+    const ultimo = avancos[avancos.length - 1];
+    if (!ultimo) {
+      setAviso("Nenhum avanço para desfazer.");
+      return;
+    }
+    const pedido = pedidos.find(p => p.id === ultimo.pedidoId);
+    if (!pedido) {
+      setAvancos(prev => prev.slice(0, -1));
+      setAviso(`Pedido de ${ultimo.nome} não está mais no painel.`);
+      return;
+    }
+    // O recall é um retrocesso intencional, então não pede confirmação; só barra saltos inválidos
+    const resultado = validarTransicaoStatus(pedido, ultimo.statusAnterior);
+    if (resultado.tipo === "rejeitada") {
+      setAvancos(prev => prev.slice(0, -1));
+      setAviso(resultado.mensagem);
+      return;
+    }
+
+    setOcupado(true);
+    const { error } = await atualizarStatusPedido(pedido, ultimo.statusAnterior);
+    setOcupado(false);
+    if (error) {
+      console.error("Erro ao desfazer avanço do pedido:", error);
+      setAviso(`Falha ao desfazer: ${error.message}`);
+      return;
+    }
+    setAvancos(prev => prev.slice(0, -1));
+    setAviso(`${ultimo.nome} voltou para ${ultimo.statusAnterior}`);
+    onUpdate();
+  }, [avancos, pedidos, ocupado, onUpdate]);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Com a escolha do entregador aberta, o teclado é dela
+      if (pedidoParaEnviar || e.ctrlKey || e.altKey || e.metaKey) return;
+      if (/^[1-9]$/.test(e.key)) {
+        const indice = Number(e.key) - 1;
+        if (indice < pedidosAtivos.length) setIndiceSelecionado(indice);
+      } else if (e.key === "ArrowRight" || e.key === "ArrowDown") {
+        setIndiceSelecionado(prev => Math.min(prev + 1, Math.max(pedidosAtivos.length - 1, 0)));
+      } else if (e.key === "ArrowLeft" || e.key === "ArrowUp") {
+        setIndiceSelecionado(prev => Math.max(prev - 1, 0));
+      } else if (e.key === "Enter" || e.key === "+" || e.key === " ") {
+        avancarSelecionado();
+      } else if (e.key === "-" || e.key === "Backspace" || e.key === "*") {
+        desfazerUltimoAvanco();
+      } else if (e.key === "f" || e.key === "F") {
+        alternarTelaCheia();
+      } else {
+        return;
+      }
+      e.preventDefault();
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [pedidoParaEnviar, pedidosAtivos.length, avancarSelecionado, desfazerUltimoAvanco, alternarTelaCheia]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-gray-900 text-white overflow-y-auto p-4 text-left">
+      <div className="flex justify-between items-center mb-4">
+        <h1 className="text-3xl font-bold text-custom-pink">Cozinha · {pedidosAtivos.length} pedido(s)</h1>
+        <div className="flex items-center gap-3 text-gray-400 text-sm">
+          <span className="hidden lg:inline">1-9 seleciona · Enter avança · − desfaz · F tela cheia</span>
+          <button onClick={alternarTelaCheia} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Tela cheia (F)">
+            {emTelaCheia ? <Minimize size={20} /> : <Maximize size={20} />}
+          </button>
+          <button onClick={onSair} className="p-2 rounded-lg bg-gray-800 hover:bg-gray-700" title="Sair da tela da cozinha">
+            <X size={20} />
+          </button>
+        </div>
+      </div>
+
+      {aviso && (
+        <div className="mb-4 p-3 rounded-lg bg-gray-700 text-2xl font-semibold text-center">{aviso}</div>
+      )}
+
+      {pedidosAtivos.length === 0 && (
+        <p className="text-4xl text-gray-500 text-center mt-24">Nenhum pedido ativo.</p>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-4">
+        {pedidosAtivos.map((pedido, indice) => {
+          const comanda = parseComanda(pedido.comanda);
+          const nivel = niveisSla.get(pedido.id) ?? "ok";
+          const alteracoesNaFila = mutacoesDoRegistro("Comandas", pedido.id, filaOffline);
+          return (
+            <div
+              key={pedido.id}
+              className={cn(
+                "rounded-xl border-4 bg-gray-800 p-4",
+                classesNivelSla[nivel],
+                indice === indiceSelecionado && "ring-8 ring-custom-pink",
+                newPedidoIds.has(pedido.id) && "animate-pulse"
+              )}
+            >
+              <div className="flex justify-between items-center mb-3 gap-2">
+                <span className="text-4xl font-black text-custom-pink">{indice < 9 ? indice + 1 : "·"}</span>
+                <span className="text-2xl font-bold truncate flex-1">{pedido.nome_cliente || pedido.telefone_key}</span>
+                <span className={`text-lg font-semibold px-3 py-1 rounded-lg ${corStatus[pedido.status_pedido]}`}>{pedido.status_pedido}</span>
+              </div>
+              <div className={`text-2xl font-mono mb-3 ${nivel === "atraso" ? "text-red-400 font-bold" : nivel === "atencao" ? "text-yellow-300" : "text-gray-300"}`}>
+                {formatarCronometro(agora - new Date(inicioStatusAtual(pedido)).getTime())}
+                <span className="text-base text-gray-400"> · total {formatarCronometro(agora - new Date(pedido.hora_criacao_pedido).getTime())}</span>
+                {comanda.tipoEntrega && <span className="text-base text-gray-400"> · {comanda.tipoEntrega}</span>}
+              </div>
+              {alteracoesNaFila.length > 0 && (
+                <div className={cn(
+                  "mb-3 mr-2 text-xl font-bold rounded-lg px-3 py-1 inline-block",
+                  alteracoesNaFila.some(m => m.situacao === "conflito") ? "bg-red-600 text-white" : "bg-gray-300 text-gray-900"
+                )}>
+                  {alteracoesNaFila.some(m => m.situacao === "conflito") ? "CONFLITO" : "SEM CONEXÃO"}
+                </div>
+              )}
+              {pedidoModificado(pedido) && (
+                <div className="mb-3 text-xl font-bold text-gray-900 bg-amber-400 rounded-lg px-3 py-1 inline-block">
+                  ALTERADO{pedido.modificado_em ? ` às ${formatarHoraMinuto(new Date(pedido.modificado_em))}` : ""}
+                </div>
+              )}
+              {comanda.itens.length > 0 ? (
+                <ul className="space-y-2">
+                  {comanda.itens.map(item => (
+                    <li key={item.linha} className="text-2xl">
+                      <span className="font-bold">{item.quantidade}x</span> {item.produto}
+                      {item.adicionais.map((adicional, i) => (
+                        <div key={`a-${i}`} className="text-xl text-green-300 pl-8">+ {adicional}</div>
+                      ))}
+                      {item.observacoes.map((obs, i) => (
+                        <div key={`o-${i}`} className="text-xl text-yellow-300 pl-8">! {obs}</div>
+                      ))}
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <pre className="text-xl whitespace-pre-wrap font-sans">{pedido.comanda}</pre>
+              )}
+              {comanda.observacoes.map((obs, i) => (
+                <div key={`obs-${i}`} className="mt-2 text-xl text-yellow-300">Obs: {obs}</div>
+              ))}
+            </div>
+          );
+        })}
+      </div>
+
+      {pedidoParaEnviar && (
+        <AtribuirEntregadorDialog
+          pedido={pedidoParaEnviar}
+          onConfirmar={handleEnvio}
+          onCancelar={() => setPedidoParaEnviar(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default CozinhaDisplay;
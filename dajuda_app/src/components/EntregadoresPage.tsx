@@ -0,0 +1,330 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Bike, Loader2, Pencil, PlusCircle, Save, X } from "lucide-react";
+import type { Pedido } from "../lib/pedidos";
+import { formatarMoeda, formatHoraPedido } from "../lib/formatters";
+import { dataDeHoje, formatarDataFechamento, type DataFechamento } from "../lib/fechamento";
+import {
+  atualizarEntregador,
+  buscarEntregadores,
+  buscarEnviosDoDia,
+  calcularAcertoEntregadores,
+  criarEntregador,
+  type Entregador,
+} from "../lib/entregadores";
+
+interface EntregadoresPageProps {
+  pedidos: Pedido[]; // Pedidos do painel, para o que está na rua agora
+}
+
+interface FormEntregador {
+  nome: string;
+  telefone: string;
+  taxa: string;
+}
+
+const formVazio: FormEntregador = { nome: "", telefone: "", taxa: "" };
+
+// Aceita vírgula ou ponto como separador decimal
+const textoParaTaxa = (texto: string): number | null => {
+  const valor = Number(texto.replace(",", ".").trim() || "0");
+  return Number.isFinite(valor) && valor >= 0 ? valor : null;
+};
+
+const EntregadoresPage: React.FC<EntregadoresPageProps> = ({ pedidos }) => {
+  const [data, setData] = useState<DataFechamento>(dataDeHoje);
+  const [entregadores, setEntregadores] = useState<Entregador[]>([]);
+  const [envios, setEnvios] = useState<Pedido[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [novo, setNovo] = useState<FormEntregador>(formVazio);
+  const [salvando, setSalvando] = useState<boolean>(false);
+  const [editando, setEditando] = useState<(FormEntregador & { id: number }) | null>(null);
+
+  const carregar = useCallback(async (dataSelecionada: DataFechamento) => {
+    setLoading(true);
+    const [entregadoresResult, enviosResult] = await Promise.all([
+      buscarEntregadores(),
+      buscarEnviosDoDia(dataSelecionada),
+    ]);
+    if (entregadoresResult.error || enviosResult.error) {
+      const fetchError = entregadoresResult.error || enviosResult.error;
+      console.error("Erro ao buscar entregadores:", fetchError);
+      setError(`Falha ao carregar entregadores: ${fetchError?.message}`);
+    } else {
+      setEntregadores(entregadoresResult.data as Entregador[]);
+      setEnvios(enviosResult.data ?? []);
+      setError(null);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    carregar(data);
+  }, [carregar, data]);
+
+  // Os envios do banco são lidos ao abrir a página; os do painel chegam pelo Realtime e prevalecem
+  const acertos = useMemo(() => {
+    const porId = new Map<number, Pedido>();
+    envios.forEach(p => porId.set(p.id, p));
+    pedidos.filter(p => p.entregador_id).forEach(p => porId.set(p.id, p));
+    return calcularAcertoEntregadores(entregadores, Array.from(porId.values()), pedidos, data);
+  }, [entregadores, envios, pedidos, data]);
+
+  const totalEntregas = acertos.reduce((soma, a) => soma + a.entregas, 0);
+  const totalTaxas = acertos.reduce((soma, a) => soma + a.taxas, 0);
+  const totalNaRua = acertos.reduce((soma, a) => soma + a.pedidosNaRua.length, 0);
+
+  const handleAdicionar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const taxa = textoParaTaxa(novo.taxa);
+    if (!novo.nome.trim()) {
+      alert("Informe o nome do entregador.");
+      return;
+    }
+    if (taxa === null) {
+      alert("Taxa por entrega inválida.");
+      return;
+    }
+    setSalvando(true);
+    const { error: insertError } = await criarEntregador({
+      nome: novo.nome.trim(),
+      telefone: novo.telefone.trim() || null,
+      taxa_por_entrega: taxa,
+      ativo: true,
+    });
+    setSalvando(false);
+    if (insertError) {
+      console.error("Erro ao adicionar entregador:", insertError);
+      alert(`Falha ao adicionar entregador: ${insertError.message}`);
+      return;
+    }
+    setNovo(formVazio);
+    carregar(data);
+  };
+
+  const handleSalvarEdicao = async () => {
+    if (!editando) return;
+    const taxa = textoParaTaxa(editando.taxa);
+    if (!editando.nome.trim() || taxa === null) {
+      alert("Informe o nome e uma taxa por entrega válida.");
+      return;
+    }
+    const { error: updateError } = await atualizarEntregador(editando.id, {
+      nome: editando.nome.trim(),
+      telefone: editando.telefone.trim() || null,
+      taxa_por_entrega: taxa,
+    });
+    if (updateError) {
+      console.error("Erro ao atualizar entregador:", updateError);
+      alert(`Falha ao atualizar entregador: ${updateError.message}`);
+      return;
+    }
+    setEditando(null);
+    carregar(data);
+  };
+
+  const handleAlternarAtivo = async (entregador: Entregador) => {
+    const { error: updateError } = await atualizarEntregador(entregador.id, { ativo: !entregador.ativo });
+    if (updateError) {
+      console.error("Erro ao atualizar entregador:", updateError);
+      alert(`Falha ao atualizar entregador: ${updateError.message}`);
+      return;
+    }
+    carregar(data);
+  };
+
+  const inputClasses = "p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  return (
+    <div className="container mx-auto p-4 pb-20 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-3xl font-semibold text-gray-700">Entregas de {formatarDataFechamento(data)}</h2>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Dia
+          <input
+            type="date"
+            value={data}
+            max={dataDeHoje()}
+            onChange={(e) => e.target.value && setData(e.target.value)}
+            className={inputClasses}
+          />
+        </label>
+      </div>
+
+      {error && <p className="text-red-600 mb-6 p-4 bg-red-100 rounded-lg">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 text-custom-pink animate-spin" /></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-8">
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Entregas do dia</p>
+              <p className="text-3xl font-semibold text-gray-800">{totalEntregas}</p>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Taxas a pagar</p>
+              <p className="text-3xl font-semibold text-green-700">{formatarMoeda(totalTaxas)}</p>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Pedidos na rua agora</p>
+              <p className="text-3xl font-semibold text-blue-700">{totalNaRua}</p>
+            </div>
+          </div>
+
+          <h3 className="text-2xl font-semibold text-gray-700 mb-3">Acerto por entregador</h3>
+          {acertos.length === 0 ? (
+            <p className="text-gray-500 italic mb-8">Nenhum entregador cadastrado.</p>
+          ) : (
+            <div className="overflow-x-auto bg-white rounded-xl shadow border border-gray-200 mb-8">
+              <table className="min-w-full text-sm text-left">
+                <thead className="bg-gray-50 text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-semibold">Entregador</th>
+                    <th className="px-4 py-3 font-semibold text-right">Entregas</th>
+                    <th className="px-4 py-3 font-semibold text-right">Taxas</th>
+                    <th className="px-4 py-3 font-semibold">Na rua</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {acertos.map(({ entregador, entregas, taxas, pedidosNaRua, cancelados }) => (
+                    <tr key={entregador.id} className="border-t border-gray-100 align-top">
+                      <td className="px-4 py-3 font-medium text-gray-800">{entregador.nome}</td>
+                      <td className="px-4 py-3 text-right">
+                        {entregas}
+                        {cancelados.length > 0 && (
+                          <span
+                            className="block text-xs text-red-600"
+                            title={cancelados.map(p => `#${p.id} · ${p.nome_cliente || p.telefone_key}`).join("\n")}
+                          >
+                            {cancelados.length} cancelado(s), fora do acerto
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-3 text-right font-medium">{formatarMoeda(taxas)}</td>
+                      <td className="px-4 py-3 text-gray-700">
+                        {pedidosNaRua.length === 0 ? (
+                          <span className="text-gray-400">-</span>
+                        ) : (
+                          <ul className="space-y-0.5">
+                            {pedidosNaRua.map(p => (
+                              <li key={p.id}>
+                                #{p.id} · {p.nome_cliente || p.telefone_key}
+                                {p.enviado_em && <span className="text-gray-500"> · saiu às {formatHoraPedido(p.enviado_em)}</span>}
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+
+      <h3 className="text-2xl font-semibold text-gray-700 mb-3 flex items-center"><Bike size={24} className="mr-2 text-custom-pink" />Cadastro</h3>
+      <form onSubmit={handleAdicionar} className="flex flex-wrap items-end gap-3 mb-4">
+        <input
+          type="text"
+          placeholder="Nome"
+          value={novo.nome}
+          onChange={(e) => setNovo({ ...novo, nome: e.target.value })}
+          className={inputClasses}
+        />
+        <input
+          type="tel"
+          placeholder="Telefone"
+          value={novo.telefone}
+          onChange={(e) => setNovo({ ...novo, telefone: e.target.value })}
+          className={inputClasses}
+        />
+        <input
+          type="text"
+          inputMode="decimal"
+          placeholder="Taxa por entrega (R$)"
+          value={novo.taxa}
+          onChange={(e) => setNovo({ ...novo, taxa: e.target.value })}
+          className={`${inputClasses} w-44`}
+        />
+        <button
+          type="submit"
+          disabled={salvando}
+          className="bg-custom-pink hover:bg-pink-700 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg shadow flex items-center"
+        >
+          {salvando ? <Loader2 size={18} className="animate-spin mr-2" /> : <PlusCircle size={18} className="mr-2" />}
+          Adicionar
+        </button>
+      </form>
+
+      {entregadores.length > 0 && (
+        <div className="overflow-x-auto bg-white rounded-xl shadow border border-gray-200">
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-4 py-3 font-semibold">Nome</th>
+                <th className="px-4 py-3 font-semibold">Telefone</th>
+                <th className="px-4 py-3 font-semibold text-right">Taxa por entrega</th>
+                <th className="px-4 py-3 font-semibold">Situação</th>
+                <th className="px-4 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entregadores.map(entregador => editando?.id === entregador.id ? (
+                <tr key={entregador.id} className="border-t border-gray-100 bg-pink-50">
+                  <td className="px-4 py-2">
+                    <input type="text" value={editando.nome} onChange={(e) => setEditando({ ...editando, nome: e.target.value })} className={inputClasses} />
+                  </td>
+                  <td className="px-4 py-2">
+                    <input type="tel" value={editando.telefone} onChange={(e) => setEditando({ ...editando, telefone: e.target.value })} className={inputClasses} />
+                  </td>
+                  <td className="px-4 py-2 text-right">
+                    <input type="text" inputMode="decimal" value={editando.taxa} onChange={(e) => setEditando({ ...editando, taxa: e.target.value })} className={`${inputClasses} w-28 text-right`} />
+                  </td>
+                  <td className="px-4 py-2 text-gray-600">{entregador.ativo ? "Ativo" : "Inativo"}</td>
+                  <td className="px-4 py-2 text-right whitespace-nowrap">
+                    <button onClick={handleSalvarEdicao} className="p-1.5 text-green-600 hover:text-green-800" title="Salvar"><Save size={18} /></button>
+                    <button onClick={() => setEditando(null)} className="p-1.5 text-gray-500 hover:text-gray-700" title="Cancelar"><X size={18} /></button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={entregador.id} className={`border-t border-gray-100 ${entregador.ativo ? "" : "text-gray-400"}`}>
+                  <td className="px-4 py-3 font-medium">{entregador.nome}</td>
+                  <td className="px-4 py-3">{entregador.telefone || "-"}</td>
+                  <td className="px-4 py-3 text-right">{formatarMoeda(Number(entregador.taxa_por_entrega))}</td>
+                  <td className="px-4 py-3">
+                    <button
+                      onClick={() => handleAlternarAtivo(entregador)}
+                      className={`text-xs px-2 py-0.5 rounded-full ${entregador.ativo ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}
+                      title={entregador.ativo ? "Desativar" : "Ativar"}
+                    >
+                      {entregador.ativo ? "Ativo" : "Inativo"}
+                    </button>
+                  </td>
+                  <td className="px-4 py-3 text-right">
+                    <button
+                      onClick={() => setEditando({
+                        id: entregador.id,
+                        nome: entregador.nome,
+                        telefone: entregador.telefone ?? "",
+                        taxa: String(entregador.taxa_por_entrega).replace(".", ","),
+                      })}
+                      className="p-1.5 text-gray-500 hover:text-custom-pink"
+                      title="Editar"
+                    >
+                      <Pencil size={18} />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EntregadoresPage;
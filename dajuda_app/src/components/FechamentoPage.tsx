@@ -0,0 +1,250 @@
+import React, { useCallback, useEffect, useState } from "react";
+import { AlertTriangle, Archive, Loader2 } from "lucide-react";
+import { todosStatus, type Pedido } from "../lib/pedidos";
+import { formatarMoeda, formatDataHoraPedido, formatHoraPedido } from "../lib/formatters";
+import { valorInformadoPedido } from "../lib/clientes";
+import {
+  buscarDatasFechadas,
+  buscarFechamento,
+  buscarPedidosArquivados,
+  dataDeHoje,
+  fecharDia,
+  formatarDataFechamento,
+  previaFechamento,
+  type DataFechamento,
+  type Fechamento,
+  type PedidoArquivado,
+} from "../lib/fechamento";
+import { usePermissoes } from "../hooks/use-sessao";
+
+interface FechamentoPageProps {
+  pedidos: Pedido[]; // Pedidos ainda no painel, usados na prévia
+  operador: string;
+  onFechado: () => void;
+}
+
+const FechamentoPage: React.FC<FechamentoPageProps> = ({ pedidos, operador, onFechado }) => {
+  const [data, setData] = useState<DataFechamento>(dataDeHoje);
+  const [fechamento, setFechamento] = useState<Fechamento | null>(null);
+  const [arquivados, setArquivados] = useState<PedidoArquivado[]>([]);
+  const [datasFechadas, setDatasFechadas] = useState<DataFechamento[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const permissoes = usePermissoes();
+  const [fechando, setFechando] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const carregar = useCallback(async (dataSelecionada: DataFechamento) => {
+    setLoading(true);
+    const [fechamentoResult, arquivadosResult, datasResult] = await Promise.all([
+      buscarFechamento(dataSelecionada),
+      buscarPedidosArquivados(dataSelecionada),
+      buscarDatasFechadas(),
+    ]);
+    if (fechamentoResult.error || arquivadosResult.error) {
+      const fetchError = fechamentoResult.error || arquivadosResult.error;
+      console.error("Erro ao buscar fechamento:", fetchError);
+      setError(`Falha ao carregar fechamento: ${fetchError?.message}`);
+    } else {
+      setFechamento(fechamentoResult.data as Fechamento | null);
+      setArquivados(arquivadosResult.data as PedidoArquivado[]);
+      setError(null);
+    }
+    if (datasResult.error) {
+      console.error("Erro ao buscar datas fechadas:", datasResult.error);
+    } else {
+      setDatasFechadas((datasResult.data as { data: DataFechamento }[]).map(d => d.data));
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    carregar(data);
+  }, [carregar, data]);
+
+  const handleFecharDia = async () => {
+    const previa = previaFechamento(pedidos, data);
+    const aviso = previa.pendencias.length > 0
+      ? `\n\n${previa.pendencias.length} pedido(s) continuarão no painel por estarem abertos, sem pagamento ou aguardando reembolso.`
+      : "";
+    if (!window.confirm(`Fechar o dia ${formatarDataFechamento(data)} e arquivar ${previa.arquivados} pedido(s) concluídos ou cancelados?${aviso}`)) return;
+
+    setFechando(true);
+    const { error: rpcError } = await fecharDia(data, operador.trim());
+    setFechando(false);
+    if (rpcError) {
+      console.error("Erro ao fechar o dia:", rpcError);
+      alert(`Falha ao fechar o dia: ${rpcError.message}`);
+      return;
+    }
+    onFechado();
+    carregar(data);
+  };
+
+  // Dia já fechado mostra o que foi gravado; caso contrário, a prévia com os pedidos do painel
+  const exibido = fechamento ?? previaFechamento(pedidos, data);
+  const totalArquivado = arquivados
+    .filter(p => p.status_pedido !== "Cancelado")
+    .reduce((soma, p) => soma + (valorInformadoPedido(p) ?? 0), 0);
+
+  return (
+    <div className="container mx-auto p-4 pb-20 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-3xl font-semibold text-gray-700">Fechamento de {formatarDataFechamento(data)}</h2>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            Dia
+            <input
+              type="date"
+              value={data}
+              max={dataDeHoje()}
+              onChange={(e) => e.target.value && setData(e.target.value)}
+              className="p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white"
+            />
+          </label>
+          {permissoes.fecharDia && (
+            <button
+              onClick={handleFecharDia}
+              disabled={fechando || loading}
+              className="bg-custom-pink hover:bg-pink-700 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg shadow flex items-center"
+            >
+              {fechando ? <Loader2 size={18} className="animate-spin mr-2" /> : <Archive size={18} className="mr-2" />}
+              {fechamento ? "Fechar Novamente" : "Fechar o Dia"}
+            </button>
+          )}
+        </div>
+      </div>
+
+      {datasFechadas.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+          <span className="text-gray-500">Dias fechados:</span>
+          {datasFechadas.map(d => (
+            <button
+              key={d}
+              onClick={() => setData(d)}
+              className={`px-3 py-1 rounded-full border ${d === data ? "bg-custom-pink text-white border-custom-pink" : "bg-white text-gray-700 border-gray-300 hover:border-pink-400"}`}
+            >
+              {formatarDataFechamento(d)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {error && <p className="text-red-600 mb-6 p-4 bg-red-100 rounded-lg">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 text-custom-pink animate-spin" /></div>
+      ) : (
+        <>
+          <p className="text-sm text-gray-500 mb-4">
+            {fechamento
+              ? `Fechado em ${formatDataHoraPedido(fechamento.fechado_em)}${fechamento.fechado_por ? ` por ${fechamento.fechado_por}` : ""} · ${fechamento.arquivados} pedido(s) arquivado(s)`
+              : `Dia ainda não fechado. Prévia com os pedidos do painel: ${exibido.arquivados} pedido(s) serão arquivados.`}
+          </p>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Pedidos do dia</p>
+              <p className="text-3xl font-semibold text-gray-800">{exibido.resumo.total_pedidos}</p>
+              {!!exibido.resumo.cancelados && <p className="text-xs text-red-600">{exibido.resumo.cancelados} cancelado(s)</p>}
+            </div>
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Pagos</p>
+              <p className="text-3xl font-semibold text-green-700">{exibido.resumo.pagos}</p>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Pagamento pendente</p>
+              <p className="text-3xl font-semibold text-red-600">{exibido.resumo.pendentes_pagamento}</p>
+            </div>
+            <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4">
+              <p className="text-xs text-gray-500">Por status</p>
+              <ul className="text-sm text-gray-700">
+                {todosStatus.filter(s => exibido.resumo.por_status[s]).map(s => (
+                  <li key={s} className="flex justify-between"><span>{s}</span><span className="font-medium">{exibido.resumo.por_status[s]}</span></li>
+                ))}
+              </ul>
+            </div>
+          </div>
+
+          <h3 className="text-2xl font-semibold text-gray-700 mb-3 flex items-center">
+            {exibido.pendencias.length > 0 && <AlertTriangle size={22} className="mr-2 text-yellow-500" />}
+            Pendências ({exibido.pendencias.length})
+          </h3>
+          {exibido.pendencias.length === 0 ? (
+            <p className="text-gray-500 italic mb-8">Nenhum pedido aberto, sem pagamento ou aguardando reembolso.</p>
+          ) : (
+            <div className="overflow-x-auto bg-white rounded-xl shadow border border-yellow-300 mb-8">
+              <table className="min-w-full text-sm text-left">
+                <thead className="bg-yellow-50 text-gray-600">
+                  <tr>
+                    <th className="px-4 py-3 font-semibold">Pedido</th>
+                    <th className="px-4 py-3 font-semibold">Cliente</th>
+                    <th className="px-4 py-3 font-semibold">Criado em</th>
+                    <th className="px-4 py-3 font-semibold">Status</th>
+                    <th className="px-4 py-3 font-semibold">Pagamento</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {exibido.pendencias.map(p => (
+                    <tr key={p.id} className="border-t border-gray-100">
+                      <td className="px-4 py-3 font-medium text-gray-800">#{p.id}</td>
+                      <td className="px-4 py-3 text-gray-700">{p.nome_cliente || p.telefone_key}</td>
+                      <td className="px-4 py-3 text-gray-600">{formatDataHoraPedido(p.hora_criacao_pedido)}</td>
+                      <td className={`px-4 py-3 ${p.status_pedido !== "Entregue" ? "text-yellow-700 font-medium" : "text-gray-600"}`}>{p.status_pedido}</td>
+                      <td className={`px-4 py-3 ${p.pagamento !== "Pago" || p.reembolso === "Pendente" ? "text-red-600 font-medium" : "text-gray-600"}`}>
+                        {p.reembolso === "Pendente" ? "Reembolso pendente" : p.pagamento}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {fechamento && (
+            <>
+              <h3 className="text-2xl font-semibold text-gray-700 mb-3">
+                Pedidos arquivados ({arquivados.length})
+                {totalArquivado > 0 && <span className="text-base font-normal text-gray-500"> · {formatarMoeda(totalArquivado)} informados nas comandas</span>}
+              </h3>
+              {arquivados.length === 0 ? (
+                <p className="text-gray-500 italic">Nenhum pedido arquivado neste fechamento.</p>
+              ) : (
+                <div className="overflow-x-auto bg-white rounded-xl shadow border border-gray-200">
+                  <table className="min-w-full text-sm text-left">
+                    <thead className="bg-gray-50 text-gray-600">
+                      <tr>
+                        <th className="px-4 py-3 font-semibold">Pedido</th>
+                        <th className="px-4 py-3 font-semibold">Cliente</th>
+                        <th className="px-4 py-3 font-semibold">Hora</th>
+                        <th className="px-4 py-3 font-semibold text-right">Valor</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {arquivados.map(p => {
+                        const valor = valorInformadoPedido(p);
+                        return (
+                          <tr key={p.id} className="border-t border-gray-100">
+                            <td className="px-4 py-3 font-medium text-gray-800">#{p.id}</td>
+                            <td className="px-4 py-3 text-gray-700">{p.nome_cliente || p.telefone_key}</td>
+                            <td className="px-4 py-3 text-gray-600">{formatHoraPedido(p.hora_criacao_pedido)}</td>
+                            <td className="px-4 py-3 text-right">
+                              {p.status_pedido === "Cancelado"
+                                ? <span className="text-red-600" title={p.motivo_cancelamento ?? undefined}>Cancelado</span>
+                                : valor !== undefined ? formatarMoeda(valor) : "-"}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FechamentoPage;
@@ -0,0 +1,108 @@
+import React, { useState } from "react";
+import { WifiOff, AlertTriangle } from "lucide-react";
+import { useFilaOffline } from "../hooks/use-fila-offline";
+import {
+  aplicarConflitoMesmoAssim,
+  descartarMutacao,
+  reproduzirFila,
+  type MutacaoPendente,
+} from "../lib/filaOffline";
+
+// Aviso das alterações feitas sem conexão: quantas ainda esperam a rede e, para cada conflito,
+// o que está no servidor e o que se queria gravar, para decidir entre aplicar ou descartar.
+
+const formatarValor = (valor: unknown): string =>
+  valor === null || valor === undefined || valor === "" ? "(vazio)" : String(valor);
+
+const nomeRegistro = (mutacao: MutacaoPendente): string =>
+  mutacao.tabela === "Comandas" ? `Pedido #${mutacao.registroId}` : `Item do cardápio #${mutacao.registroId}`;
+
+const FilaOfflinePanel: React.FC = () => {
+  const fila = useFilaOffline();
+  const [resolvendo, setResolvendo] = useState<number | null>(null);
+
+  const pendentes = fila.filter(m => m.situacao === "pendente");
+  const conflitos = fila.filter(m => m.situacao === "conflito");
+
+  if (fila.length === 0) return null;
+
+  const handleAplicar = async (mutacao: MutacaoPendente) => {
+    setResolvendo(mutacao.seq);
+    const { error } = await aplicarConflitoMesmoAssim(mutacao);
+    setResolvendo(null);
+    if (error) {
+      console.error("Erro ao aplicar alteração em conflito:", error);
+      alert(`Falha ao aplicar a alteração: ${error.message}`);
+    }
+  };
+
+  const handleDescartar = async (mutacao: MutacaoPendente) => {
+    setResolvendo(mutacao.seq);
+    await descartarMutacao(mutacao);
+    setResolvendo(null);
+  };
+
+  return (
+    <div className="mb-6 space-y-3 text-left">
+      {pendentes.length > 0 && (
+        <div className="bg-gray-100 border border-gray-300 rounded-xl p-3 flex flex-wrap items-center justify-between gap-3">
+          <p className="flex items-center gap-2 text-gray-700 font-medium">
+            <WifiOff size={18} />
+            {pendentes.length} alteração(ões) aguardando conexão para serem enviadas.
+          </p>
+          <button
+            onClick={() => reproduzirFila()}
+            className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-700 text-white hover:bg-gray-800 transition-colors"
+          >
+            Tentar agora
+          </button>
+        </div>
+      )}
+
+      {conflitos.map(mutacao => (
+        <div key={mutacao.seq} className="bg-red-50 border border-red-300 rounded-xl p-3">
+          <p className="flex items-center gap-2 text-red-800 font-semibold">
+            <AlertTriangle size={18} />
+            Conflito em {nomeRegistro(mutacao)}: {mutacao.descricao}
+          </p>
+          {mutacao.erro ? (
+            <p className="text-sm text-red-700 mt-1">O servidor recusou a alteração: {mutacao.erro}</p>
+          ) : mutacao.valoresServidor === null ? (
+            <p className="text-sm text-red-700 mt-1">O registro não existe mais no servidor.</p>
+          ) : (
+            <ul className="text-sm text-gray-700 mt-1">
+              {Object.keys(mutacao.esperado).map(coluna => (
+                <li key={coluna}>
+                  <span className="font-medium">{coluna}</span>: alterado por outra pessoa para{" "}
+                  <span className="font-medium">{formatarValor(mutacao.valoresServidor?.[coluna])}</span>; você queria{" "}
+                  <span className="font-medium">{formatarValor(mutacao.alteracoes[coluna])}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+          <p className="text-xs text-gray-500 mt-1">Feita às {new Date(mutacao.criadaEm).toLocaleTimeString("pt-BR")}</p>
+          <div className="flex gap-2 mt-2">
+            {mutacao.valoresServidor !== null && (
+              <button
+                onClick={() => handleAplicar(mutacao)}
+                disabled={resolvendo === mutacao.seq}
+                className="px-3 py-1.5 rounded-lg text-sm font-medium bg-red-600 text-white hover:bg-red-700 disabled:opacity-50"
+              >
+                Aplicar mesmo assim
+              </button>
+            )}
+            <button
+              onClick={() => handleDescartar(mutacao)}
+              disabled={resolvendo === mutacao.seq}
+              className="px-3 py-1.5 rounded-lg text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 disabled:opacity-50"
+            >
+              Descartar
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FilaOfflinePanel;
@@ -0,0 +1,74 @@
+import React from "react";
+import { Search, XCircle } from "lucide-react";
+import { pagamentoOptions, todosStatus } from "../lib/pedidos";
+import { filtrosAtivos, filtrosVazios, type FiltrosPedidos } from "../lib/filtrosPedidos";
+
+interface FiltrosPedidosBarProps {
+  filtros: FiltrosPedidos;
+  onChange: (filtros: FiltrosPedidos) => void;
+  totalFiltrado: number;
+  total: number;
+}
+
+const alternar = <T,>(lista: T[], valor: T): T[] =>
+  lista.includes(valor) ? lista.filter(v => v !== valor) : [...lista, valor];
+
+const chipClasses = (ativo: boolean) =>
+  `px-3 py-1 rounded-full text-sm font-medium border transition-colors ${
+    ativo ? "bg-custom-pink text-white border-custom-pink" : "bg-white text-gray-700 border-gray-300 hover:border-pink-400"
+  }`;
+
+const FiltrosPedidosBar: React.FC<FiltrosPedidosBarProps> = ({ filtros, onChange, totalFiltrado, total }) => {
+  const fieldClasses = "p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="relative flex-1 min-w-[220px]">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={filtros.busca}
+            onChange={(e) => onChange({ ...filtros, busca: e.target.value })}
+            placeholder="Buscar por cliente, telefone ou conteúdo da comanda"
+            className={`${fieldClasses} w-full pl-9`}
+          />
+        </div>
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          De
+          <input type="datetime-local" value={filtros.de} onChange={(e) => onChange({ ...filtros, de: e.target.value })} className={fieldClasses} />
+        </label>
+        <label className="flex items-center gap-1 text-sm text-gray-600">
+          Até
+          <input type="datetime-local" value={filtros.ate} onChange={(e) => onChange({ ...filtros, ate: e.target.value })} className={fieldClasses} />
+        </label>
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <span className="text-sm text-gray-500 mr-1">Status:</span>
+        {todosStatus.map(status => (
+          <button key={status} onClick={() => onChange({ ...filtros, status: alternar(filtros.status, status) })} className={chipClasses(filtros.status.includes(status))}>
+            {status}
+          </button>
+        ))}
+        <span className="text-sm text-gray-500 ml-3 mr-1">Pagamento:</span>
+        {pagamentoOptions.map(pagamento => (
+          <button key={pagamento} onClick={() => onChange({ ...filtros, pagamento: alternar(filtros.pagamento, pagamento) })} className={chipClasses(filtros.pagamento.includes(pagamento))}>
+            {pagamento}
+          </button>
+        ))}
+        <div className="ml-auto flex items-center gap-3 text-sm text-gray-500">
+          {filtrosAtivos(filtros) && (
+            <>
+              <span>{totalFiltrado} de {total} pedidos</span>
+              <button onClick={() => onChange(filtrosVazios)} className="flex items-center text-gray-600 hover:text-custom-pink">
+                <XCircle size={16} className="mr-1" /> Limpar filtros
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default FiltrosPedidosBar;
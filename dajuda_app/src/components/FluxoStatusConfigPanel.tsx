@@ -0,0 +1,31 @@
+import React, { useState } from "react";
+import { obterConfigFluxo, salvarConfigFluxo, type ConfigFluxo } from "../lib/statusWorkflow";
+
+const FluxoStatusConfigPanel: React.FC = () => {
+  const [config, setConfig] = useState<ConfigFluxo>(obterConfigFluxo);
+
+  const atualizar = (parcial: Partial<ConfigFluxo>) => {
+    const novaConfig = { ...config, ...parcial };
+    setConfig(novaConfig);
+    salvarConfigFluxo(novaConfig);
+  };
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-3">Regras de status</h3>
+      <label className="flex items-center gap-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={config.bloquearEntregaSemPagamento}
+          onChange={(e) => atualizar({ bloquearEntregaSemPagamento: e.target.checked })}
+        />
+        Barrar "Entregue" enquanto o pagamento estiver pendente
+      </label>
+      <p className="text-xs text-gray-500 mt-1">
+        Desligado, o painel só pede confirmação (útil para pedidos pagos na entrega).
+      </p>
+    </div>
+  );
+};
+
+export default FluxoStatusConfigPanel;
@@ -0,0 +1,82 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { Pedido } from "../lib/pedidos";
+import { formatHoraPedido } from "../lib/formatters";
+import { buscarHistoricoPedido, calcularPeriodosStatus, formatarDuracao, type HistoricoPedido } from "../lib/historico";
+
+interface HistoricoTimelineProps {
+  pedido: Pedido;
+}
+
+const HistoricoTimeline: React.FC<HistoricoTimelineProps> = ({ pedido }) => {
+  const [historico, setHistorico] = useState<HistoricoPedido[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Recarrega sempre que o status ou o pagamento mudarem, para incluir a nova entrada
+  useEffect(() => {
+    let cancelado = false;
+    setLoading(true);
+    buscarHistoricoPedido(pedido).then(({ data, error: fetchError }) => {
+      if (cancelado) return;
+      if (fetchError) {
+        console.error("Erro ao buscar histórico do pedido:", fetchError);
+        setError(`Falha ao carregar histórico: ${fetchError.message}`);
+      } else {
+        setHistorico(data as HistoricoPedido[]);
+        setError(null);
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelado = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pedido.id, pedido.status_pedido, pedido.pagamento]);
+
+  if (loading && historico.length === 0) {
+    return <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 text-custom-pink animate-spin" /></div>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  const periodos = calcularPeriodosStatus(pedido, historico);
+  const pagamentos = historico.filter(h => h.campo === "pagamento" && h.valor_anterior !== null);
+
+  return (
+    <div className="text-left text-xs">
+      <ol className="border-l-2 border-pink-200 ml-1.5 space-y-2">
+        {periodos.map((periodo, index) => (
+          <li key={`${periodo.inicio}-${index}`} className="relative pl-4">
+            <span className={`absolute -left-[5px] top-1 h-2 w-2 rounded-full ${periodo.fim ? "bg-pink-300" : "bg-custom-pink"}`} />
+            <div className="flex justify-between gap-2">
+              <span className="font-semibold text-gray-700">{periodo.status}</span>
+              <span className="text-gray-500">{formatHoraPedido(periodo.inicio)}</span>
+            </div>
+            <div className="text-gray-500">
+              {periodo.fim
+                ? `Ficou ${formatarDuracao(new Date(periodo.fim).getTime() - new Date(periodo.inicio).getTime())}`
+                : `Há ${formatarDuracao(Date.now() - new Date(periodo.inicio).getTime())}`}
+              {periodo.alteradoPor && ` · por ${periodo.alteradoPor}`}
+            </div>
+          </li>
+        ))}
+      </ol>
+      {pagamentos.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-gray-200 space-y-1">
+          {pagamentos.map(h => (
+            <div key={h.id} className="text-gray-600">
+              <span className="text-gray-500">{formatHoraPedido(h.alterado_em)}</span>{" "}
+              Pagamento: {h.valor_anterior} → <span className="font-semibold">{h.valor_novo}</span>
+              {h.alterado_por && <span className="text-gray-500"> · por {h.alterado_por}</span>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HistoricoTimeline;
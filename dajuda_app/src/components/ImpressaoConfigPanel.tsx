@@ -0,0 +1,60 @@
+import React, { useState } from "react";
+import { obterConfigImpressao, salvarConfigImpressao, transportesImpressao, type ConfigImpressao, type TipoTransporte } from "../lib/impressao";
+import type { LarguraPapel } from "../lib/escpos";
+
+const ImpressaoConfigPanel: React.FC = () => {
+  const [config, setConfig] = useState<ConfigImpressao>(obterConfigImpressao);
+
+  const atualizar = (parcial: Partial<ConfigImpressao>) => {
+    const novaConfig = { ...config, ...parcial };
+    setConfig(novaConfig);
+    salvarConfigImpressao(novaConfig);
+  };
+
+  const fieldClasses = "block w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-3">Impressora térmica</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor="impressao_transporte" className="block text-sm font-medium text-gray-700 mb-1">Envio</label>
+          <select id="impressao_transporte" value={config.transporte} onChange={(e) => atualizar({ transporte: e.target.value as TipoTransporte })} className={fieldClasses}>
+            {Object.values(transportesImpressao).map(t => (
+              <option key={t.tipo} value={t.tipo} disabled={!t.disponivel()}>
+                {t.nome}{t.disponivel() ? "" : " (indisponível)"}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="impressao_largura" className="block text-sm font-medium text-gray-700 mb-1">Largura do papel</label>
+          <select id="impressao_largura" value={config.larguraPapel} onChange={(e) => atualizar({ larguraPapel: Number(e.target.value) as LarguraPapel })} className={fieldClasses}>
+            <option value={58}>58mm</option>
+            <option value={80}>80mm</option>
+          </select>
+        </div>
+        <div>
+          <label htmlFor="impressao_nome" className="block text-sm font-medium text-gray-700 mb-1">Nome no cabeçalho</label>
+          <input id="impressao_nome" type="text" value={config.nomeRestaurante} onChange={(e) => atualizar({ nomeRestaurante: e.target.value })} className={fieldClasses} />
+        </div>
+        {config.transporte === "agente" && (
+          <div>
+            <label htmlFor="impressao_url" className="block text-sm font-medium text-gray-700 mb-1">URL do agente</label>
+            <input id="impressao_url" type="url" value={config.urlAgente} onChange={(e) => atualizar({ urlAgente: e.target.value })} className={fieldClasses} />
+          </div>
+        )}
+        {config.transporte === "serial" && (
+          <div>
+            <label htmlFor="impressao_baud" className="block text-sm font-medium text-gray-700 mb-1">Baud rate</label>
+            <select id="impressao_baud" value={config.baudRate} onChange={(e) => atualizar({ baudRate: Number(e.target.value) })} className={fieldClasses}>
+              {[9600, 19200, 38400, 57600, 115200].map(b => <option key={b} value={b}>{b}</option>)}
+            </select>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImpressaoConfigPanel;
@@ -0,0 +1,45 @@
+import React from "react";
+import { RefreshCw } from "lucide-react";
+import { useConexaoRealtime } from "../hooks/use-conexao-realtime";
+import { reconectarTodos, situacaoGeral, type EstadoCanal, type SituacaoCanal } from "../lib/conexaoRealtime";
+import { cn } from "../lib/utils";
+
+const aparencia: Record<SituacaoCanal, { texto: string; classes: string; ponto: string }> = {
+  conectado: { texto: "Ao vivo", classes: "bg-green-50 text-green-700 border-green-300", ponto: "bg-green-500" },
+  conectando: { texto: "Conectando…", classes: "bg-gray-50 text-gray-600 border-gray-300", ponto: "bg-gray-400 animate-pulse" },
+  reconectando: { texto: "Reconectando…", classes: "bg-amber-50 text-amber-800 border-amber-300", ponto: "bg-amber-500 animate-pulse" },
+  offline: { texto: "Offline", classes: "bg-red-50 text-red-700 border-red-300", ponto: "bg-red-600" },
+};
+
+const descreverCanal = (estado: EstadoCanal): string =>
+  `${estado.tabela}: ${aparencia[estado.situacao].texto}` +
+  (estado.tentativas > 0 ? ` (tentativa ${estado.tentativas})` : "") +
+  (estado.situacao !== "conectado" && estado.ultimoErro ? ` - ${estado.ultimoErro}` : "");
+
+// Situação do Realtime no cabeçalho; fora do ar, o clique tenta reconectar na hora
+const IndicadorConexao: React.FC = () => {
+  const conexoes = useConexaoRealtime();
+  const situacao = situacaoGeral(conexoes);
+  if (!situacao) return null;
+
+  const { texto, classes, ponto } = aparencia[situacao];
+  const foraDoAr = situacao !== "conectado";
+
+  return (
+    <button
+      onClick={foraDoAr ? reconectarTodos : undefined}
+      title={conexoes.map(descreverCanal).join("\n") + (foraDoAr ? "\nClique para tentar reconectar agora" : "")}
+      className={cn(
+        "inline-flex items-center gap-2 px-3 py-1 rounded-full border text-sm font-medium",
+        classes,
+        foraDoAr ? "cursor-pointer hover:shadow" : "cursor-default"
+      )}
+    >
+      <span className={cn("h-2.5 w-2.5 rounded-full", ponto)} />
+      {texto}
+      {foraDoAr && <RefreshCw size={14} />}
+    </button>
+  );
+};
+
+export default IndicadorConexao;
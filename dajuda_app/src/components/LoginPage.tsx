@@ -0,0 +1,75 @@
+import React, { useState } from "react";
+import { Loader2, LogIn } from "lucide-react";
+import { entrar, sair, type Sessao } from "../lib/equipe";
+
+interface LoginPageProps {
+  sessao: Sessao;
+}
+
+// Tela de entrada do painel; também avisa quem entrou mas ainda não foi cadastrado na equipe
+const LoginPage: React.FC<LoginPageProps> = ({ sessao }) => {
+  const [email, setEmail] = useState("");
+  const [senha, setSenha] = useState("");
+  const [entrando, setEntrando] = useState(false);
+  const [erro, setErro] = useState<string | null>(null);
+
+  const fieldClasses = "block w-full p-2.5 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setEntrando(true);
+    setErro(null);
+    const { error } = await entrar(email, senha);
+    setEntrando(false);
+    if (error) {
+      console.error("Erro ao entrar:", error);
+      setErro(error.message === "Invalid login credentials" ? "E-mail ou senha incorretos." : `Falha ao entrar: ${error.message}`);
+    }
+  };
+
+  return (
+    <div className="p-6 bg-gray-50 min-h-screen font-sans flex flex-col items-center justify-center">
+      <h1 className="text-5xl font-bold text-center text-custom-pink mb-8">D’Ajuda Refeições</h1>
+      <div className="bg-white border rounded-xl shadow-md p-6 w-full max-w-sm text-left">
+        {sessao.situacao === "carregando" ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 text-custom-pink animate-spin" />
+          </div>
+        ) : sessao.situacao === "sem_perfil" ? (
+          <>
+            <h2 className="text-lg font-semibold text-gray-800 mb-2">Acesso pendente</h2>
+            <p className="text-sm text-gray-600 mb-4">
+              O usuário <span className="font-medium">{sessao.email}</span> ainda não faz parte da equipe. Peça a um administrador para cadastrar seu perfil.
+            </p>
+            <button onClick={sair} className="w-full px-4 py-2.5 rounded-lg bg-gray-200 text-gray-700 font-medium hover:bg-gray-300 transition-colors">
+              Entrar com outro usuário
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <h2 className="text-lg font-semibold text-gray-800">Entrar no painel</h2>
+            <div>
+              <label htmlFor="login_email" className="block text-sm font-medium text-gray-700 mb-1">E-mail</label>
+              <input id="login_email" type="email" autoComplete="username" required value={email} onChange={(e) => setEmail(e.target.value)} className={fieldClasses} />
+            </div>
+            <div>
+              <label htmlFor="login_senha" className="block text-sm font-medium text-gray-700 mb-1">Senha</label>
+              <input id="login_senha" type="password" autoComplete="current-password" required value={senha} onChange={(e) => setSenha(e.target.value)} className={fieldClasses} />
+            </div>
+            {erro && <p className="text-sm text-red-600">{erro}</p>}
+            <button
+              type="submit"
+              disabled={entrando}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2.5 bg-custom-pink text-white rounded-lg shadow-md hover:bg-pink-700 transition-colors font-medium disabled:opacity-60"
+            >
+              {entrando ? <Loader2 size={18} className="animate-spin" /> : <LogIn size={18} />}
+              Entrar
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LoginPage;
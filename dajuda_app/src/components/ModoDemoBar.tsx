@@ -0,0 +1,73 @@
+import React, { useEffect, useState } from "react";
+import { GraduationCap } from "lucide-react";
+import { carregarCardapioDemo, gerarPedidoDemoAgora, iniciarGeradorDemo } from "../lib/geradorDemo";
+import { obterConfigGeradorDemo, sairModoDemo, salvarConfigGeradorDemo, type ConfigGeradorDemo } from "../lib/modoDemo";
+
+// Faixa do modo demonstração: deixa claro que os dados são de mentira e controla o gerador
+const ModoDemoBar: React.FC = () => {
+  const [config, setConfig] = useState<ConfigGeradorDemo>(obterConfigGeradorDemo);
+
+  useEffect(() => {
+    carregarCardapioDemo();
+  }, []);
+
+  useEffect(() => (config.ativo ? iniciarGeradorDemo(config) : undefined), [config]);
+
+  const atualizar = (parcial: Partial<ConfigGeradorDemo>) => {
+    const novaConfig = { ...config, ...parcial };
+    setConfig(novaConfig);
+    salvarConfigGeradorDemo(novaConfig);
+  };
+
+  const handleSair = () => {
+    if (window.confirm("Sair do modo demonstração? Os pedidos de treino serão descartados.")) sairModoDemo();
+  };
+
+  return (
+    <div className="bg-indigo-600 text-white rounded-xl shadow-md px-4 py-3 mb-6 flex flex-wrap items-center justify-between gap-3 text-left">
+      <div className="flex items-center gap-3">
+        <GraduationCap size={28} />
+        <div>
+          <p className="font-bold text-lg">MODO DEMONSTRAÇÃO</p>
+          <p className="text-sm text-indigo-100">
+            Pedidos fictícios, nada é gravado no sistema real. Relatórios, clientes e fechamento mostram os dados reais, só para leitura.
+          </p>
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center gap-3 text-sm">
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={config.ativo} onChange={(e) => atualizar({ ativo: e.target.checked })} />
+          Gerar pedidos
+        </label>
+        <label className="flex items-center gap-2">
+          <input
+            type="number"
+            min={0.2}
+            max={20}
+            step={0.2}
+            value={config.pedidosPorMinuto}
+            onChange={(e) => atualizar({ pedidosPorMinuto: Math.min(20, Math.max(0.2, Number(e.target.value) || 1)) })}
+            className="w-16 p-1 rounded-md text-gray-800 text-center"
+          />
+          por minuto
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={config.pagamentos} onChange={(e) => atualizar({ pagamentos: e.target.checked })} />
+          Pagamentos
+        </label>
+        <label className="flex items-center gap-2">
+          <input type="checkbox" checked={config.edicoes} onChange={(e) => atualizar({ edicoes: e.target.checked })} />
+          Alterações
+        </label>
+        <button onClick={() => gerarPedidoDemoAgora()} className="px-3 py-1.5 rounded-lg bg-white text-indigo-700 font-semibold hover:bg-indigo-50">
+          Gerar pedido agora
+        </button>
+        <button onClick={handleSair} className="px-3 py-1.5 rounded-lg border border-white font-semibold hover:bg-indigo-700">
+          Sair da demonstração
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ModoDemoBar;
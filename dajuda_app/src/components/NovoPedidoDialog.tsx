@@ -0,0 +1,491 @@
+import React, { useMemo, useState } from "react";
+import { useFieldArray, useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Loader2, MapPin, Plus, Search, Trash2, X } from "lucide-react";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "./ui/form";
+import { Input } from "./ui/input";
+import { Textarea } from "./ui/textarea";
+import { normalizarTexto, parseValorMonetario } from "../lib/comandaParser";
+import { formatarMoeda } from "../lib/formatters";
+import { itemDisponivel, precoVigente, type PrecoCardapio } from "../lib/precos";
+import { zonaDoBairro, type ZonaEntrega } from "../lib/zonasEntrega";
+import {
+  criarPedidoManual,
+  montarComandaManual,
+  subtotalItemNovoPedido,
+  totalNovoPedido,
+  type DadosNovoPedido,
+} from "../lib/novoPedido";
+
+interface NovoPedidoDialogProps {
+  cardapio: PrecoCardapio[];
+  zonas: ZonaEntrega[];
+  onCriado: () => void;
+  onCancelar: () => void;
+}
+
+const valorOpcional = (texto: string) => !texto.trim() || parseValorMonetario(texto) !== undefined;
+
+const itemSchema = z.object({
+  produto: z.string().min(1),
+  quantidade: z.number({ invalid_type_error: "Quantidade inválida" }).int().min(1, "Mínimo 1").max(99, "Máximo 99"),
+  adicionais: z.array(z.string()),
+  observacao: z.string(),
+});
+
+const novoPedidoSchema = z
+  .object({
+    origem: z.enum(["Telefone", "Balcão"]),
+    nomeCliente: z.string().trim().min(1, "Informe o nome do cliente"),
+    telefone: z.string().refine(t => {
+      const digitos = t.replace(/\D/g, "").length;
+      return digitos === 0 || (digitos >= 10 && digitos <= 13);
+    }, "Telefone inválido"),
+    tipoEntrega: z.enum(["Retirada", "Entrega"]),
+    endereco: z.string(),
+    bairro: z.string(),
+    complemento: z.string(),
+    formaPagamento: z.string(),
+    troco: z.string().refine(valorOpcional, "Valor inválido"),
+    pagamento: z.enum(["Aguardando pagamento", "Pago"]),
+    taxaEntrega: z.string().refine(valorOpcional, "Valor inválido"),
+    observacoes: z.string(),
+    itens: z.array(itemSchema).min(1, "Adicione pelo menos um item"),
+  })
+  .superRefine((dados, ctx) => {
+    if (dados.origem === "Telefone" && !dados.telefone.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["telefone"], message: "Informe o telefone do cliente" });
+    }
+    if (dados.tipoEntrega === "Entrega") {
+      if (!dados.endereco.trim()) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["endereco"], message: "Informe o endereço" });
+      if (!dados.bairro.trim()) ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["bairro"], message: "Informe o bairro" });
+    }
+  });
+
+type FormNovoPedido = z.infer<typeof novoPedidoSchema>;
+
+const valoresIniciais: FormNovoPedido = {
+  origem: "Telefone",
+  nomeCliente: "",
+  telefone: "",
+  tipoEntrega: "Entrega",
+  endereco: "",
+  bairro: "",
+  complemento: "",
+  formaPagamento: "",
+  troco: "",
+  pagamento: "Aguardando pagamento",
+  taxaEntrega: "",
+  observacoes: "",
+  itens: [],
+};
+
+const formasPagamento = ["Dinheiro", "Pix", "Cartão de crédito", "Cartão de débito"];
+
+const selectClasses = "flex h-9 w-full rounded-md border border-zinc-200 bg-white px-3 py-1 text-sm shadow-sm focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-zinc-950";
+
+const NovoPedidoDialog: React.FC<NovoPedidoDialogProps> = ({ cardapio, zonas, onCriado, onCancelar }) => {
+  const [busca, setBusca] = useState<string>("");
+  const [salvando, setSalvando] = useState<boolean>(false);
+
+  const form = useForm<FormNovoPedido>({
+    resolver: zodResolver(novoPedidoSchema),
+    defaultValues: valoresIniciais,
+  });
+  const { fields, append, remove } = useFieldArray({ control: form.control, name: "itens" });
+
+  const disponiveis = useMemo(() => cardapio.filter(i => i.nome_produto && itemDisponivel(i)), [cardapio]);
+  const adicionaisDisponiveis = useMemo(() => disponiveis.filter(i => i.categoria === "Adicional"), [disponiveis]);
+  const produtosDisponiveis = useMemo(() => disponiveis.filter(i => i.categoria !== "Adicional"), [disponiveis]);
+
+  const resultadosBusca = useMemo(() => {
+    const alvo = normalizarTexto(busca);
+    if (!alvo) return [];
+    return produtosDisponiveis.filter(i => normalizarTexto(i.nome_produto).includes(alvo)).slice(0, 8);
+  }, [busca, produtosDisponiveis]);
+
+  const precoPorNome = useMemo(
+    () => new Map(disponiveis.map(i => [i.nome_produto, precoVigente(i)] as [string, number | undefined])),
+    [disponiveis]
+  );
+
+  // Produto + adicionais, por unidade; null quando algum deles não tem preço
+  const precoUnitario = (produto: string, adicionais: string[]): number | null => {
+    const precos = [produto, ...adicionais].map(nome => precoPorNome.get(nome));
+    return precos.some(p => p === undefined) ? null : precos.reduce<number>((soma, p) => soma + (p ?? 0), 0);
+  };
+
+  const paraDadosPedido = (valores: FormNovoPedido): DadosNovoPedido => ({
+    ...valores,
+    trocoPara: valores.troco.trim() ? parseValorMonetario(valores.troco) ?? null : null,
+    taxaEntrega: valores.taxaEntrega.trim() ? parseValorMonetario(valores.taxaEntrega) ?? null : null,
+    itens: valores.itens.map(item => ({ ...item, precoUnitario: precoUnitario(item.produto, item.adicionais) })),
+  });
+
+  const adicionarItem = (item: PrecoCardapio) => {
+    append({ produto: item.nome_produto, quantidade: 1, adicionais: [], observacao: "" });
+    setBusca("");
+  };
+
+  const valores = form.watch();
+  const dadosAtuais = paraDadosPedido(valores);
+  const total = dadosAtuais.itens.length > 0 ? totalNovoPedido(dadosAtuais) : null;
+  const zona = valores.tipoEntrega === "Entrega" && valores.bairro.trim() ? zonaDoBairro(valores.bairro, zonas) : undefined;
+
+  // Sugere a taxa do bairro quando a taxa ainda não foi digitada
+  const handleBairroBlur = () => {
+    if (zona && !form.getValues("taxaEntrega").trim()) {
+      form.setValue("taxaEntrega", Number(zona.taxa_entrega).toFixed(2).replace(".", ","));
+    }
+  };
+
+  const onSubmit = async (valoresValidos: FormNovoPedido) => {
+    setSalvando(true);
+    const { error } = await criarPedidoManual(paraDadosPedido(valoresValidos));
+    setSalvando(false);
+    if (error) {
+      console.error("Erro ao criar pedido:", error);
+      alert(`Falha ao criar pedido: ${error.message}`);
+      return;
+    }
+    onCriado();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 backdrop-blur-sm flex justify-center items-start z-50 p-4 overflow-y-auto text-left">
+      <div className="bg-white text-gray-800 p-6 rounded-xl shadow-2xl w-full max-w-4xl my-8">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-2xl font-semibold">Novo Pedido</h3>
+          <button onClick={onCancelar} className="text-gray-500 hover:text-gray-800" title="Cancelar">
+            <X size={22} />
+          </button>
+        </div>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <div className="space-y-4">
+              <h4 className="text-lg font-semibold text-gray-700">Itens</h4>
+              <div className="relative">
+                <Search size={16} className="absolute left-3 top-2.5 text-gray-400" />
+                <Input
+                  value={busca}
+                  onChange={(e) => setBusca(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      if (resultadosBusca[0]) adicionarItem(resultadosBusca[0]);
+                    }
+                  }}
+                  placeholder="Buscar no cardápio..."
+                  className="pl-9"
+                />
+                {resultadosBusca.length > 0 && (
+                  <ul className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-md shadow-lg max-h-64 overflow-y-auto">
+                    {resultadosBusca.map(item => {
+                      const preco = precoVigente(item);
+                      return (
+                        <li key={item.id}>
+                          <button
+                            type="button"
+                            onClick={() => adicionarItem(item)}
+                            className="w-full flex justify-between px-3 py-2 text-sm hover:bg-pink-50"
+                          >
+                            <span>{item.nome_produto} <span className="text-xs text-gray-500">· {item.categoria}</span></span>
+                            <span className="text-gray-600">{preco !== undefined ? formatarMoeda(preco) : "sem preço"}</span>
+                          </button>
+                        </li>
+                      );
+                    })}
+                  </ul>
+                )}
+                {busca.trim() && resultadosBusca.length === 0 && (
+                  <p className="text-xs text-gray-500 mt-1">Nenhum item disponível com esse nome.</p>
+                )}
+              </div>
+
+              {fields.length === 0 && (
+                <p className="text-sm text-gray-500 italic">Nenhum item adicionado.</p>
+              )}
+              {form.formState.errors.itens?.message && (
+                <p className="text-[0.8rem] font-medium text-red-500">{form.formState.errors.itens.message}</p>
+              )}
+
+              {fields.map((field, indice) => {
+                const item = dadosAtuais.itens[indice];
+                const subtotal = item ? subtotalItemNovoPedido(item) : null;
+                return (
+                  <div key={field.id} className="border border-gray-200 rounded-lg p-3 space-y-2">
+                    <div className="flex items-center gap-2">
+                      <FormField
+                        control={form.control}
+                        name={`itens.${indice}.quantidade`}
+                        render={({ field: quantidade }) => (
+                          <FormItem className="w-20 space-y-0">
+                            <FormControl>
+                              <Input
+                                type="number"
+                                min={1}
+                                max={99}
+                                {...quantidade}
+                                onChange={(e) => quantidade.onChange(e.target.valueAsNumber)}
+                              />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <span className="flex-1 font-medium">{field.produto}</span>
+                      <span className="text-sm text-gray-600 whitespace-nowrap">{subtotal !== null ? formatarMoeda(subtotal) : "sem preço"}</span>
+                      <button type="button" onClick={() => remove(indice)} className="p-1 text-gray-400 hover:text-red-600" title="Remover item">
+                        <Trash2 size={16} />
+                      </button>
+                    </div>
+                    {adicionaisDisponiveis.length > 0 && (
+                      <FormField
+                        control={form.control}
+                        name={`itens.${indice}.adicionais`}
+                        render={({ field: adicionais }) => (
+                          <div className="flex flex-wrap gap-1">
+                            {adicionaisDisponiveis.map(adicional => {
+                              const selecionado = adicionais.value.includes(adicional.nome_produto);
+                              return (
+                                <button
+                                  key={adicional.id}
+                                  type="button"
+                                  onClick={() => adicionais.onChange(selecionado
+                                    ? adicionais.value.filter(a => a !== adicional.nome_produto)
+                                    : [...adicionais.value, adicional.nome_produto])}
+                                  className={`text-xs px-2 py-0.5 rounded-full border ${selecionado ? "bg-custom-pink text-white border-custom-pink" : "bg-white text-gray-600 border-gray-300 hover:border-pink-400"}`}
+                                >
+                                  + {adicional.nome_produto}
+                                </button>
+                              );
+                            })}
+                          </div>
+                        )}
+                      />
+                    )}
+                    <FormField
+                      control={form.control}
+                      name={`itens.${indice}.observacao`}
+                      render={({ field: observacao }) => (
+                        <FormItem className="space-y-0">
+                          <FormControl>
+                            <Input placeholder="Observação do item (ex.: sem cebola)" {...observacao} />
+                          </FormControl>
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                );
+              })}
+
+              <div className="flex justify-between items-center pt-2 border-t border-gray-200 font-semibold">
+                <span>Total</span>
+                <span>{total !== null ? formatarMoeda(total) : "-"}</span>
+              </div>
+              {dadosAtuais.itens.some(i => i.precoUnitario === null) && (
+                <p className="text-xs text-amber-700">Há itens sem preço no cardápio; o total não será escrito na comanda.</p>
+              )}
+            </div>
+
+            <div className="space-y-3">
+              <h4 className="text-lg font-semibold text-gray-700">Cliente e entrega</h4>
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="origem"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Origem</FormLabel>
+                      <FormControl>
+                        <select {...field} className={selectClasses}>
+                          <option value="Telefone">Telefone</option>
+                          <option value="Balcão">Balcão</option>
+                        </select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="tipoEntrega"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Modalidade</FormLabel>
+                      <FormControl>
+                        <select {...field} className={selectClasses}>
+                          <option value="Entrega">Entrega</option>
+                          <option value="Retirada">Retirada</option>
+                        </select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="nomeCliente"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Nome</FormLabel>
+                      <FormControl><Input {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="telefone"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Telefone</FormLabel>
+                      <FormControl><Input type="tel" placeholder="(11) 98765-4321" {...field} /></FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {valores.tipoEntrega === "Entrega" && (
+                <div className="grid grid-cols-2 gap-3">
+                  <FormField
+                    control={form.control}
+                    name="endereco"
+                    render={({ field }) => (
+                      <FormItem className="col-span-2">
+                        <FormLabel>Endereço</FormLabel>
+                        <FormControl><Input placeholder="Rua, número" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="bairro"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Bairro</FormLabel>
+                        <FormControl>
+                          <Input {...field} onBlur={() => { field.onBlur(); handleBairroBlur(); }} />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                  <FormField
+                    control={form.control}
+                    name="complemento"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Complemento</FormLabel>
+                        <FormControl><Input {...field} /></FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  {zonas.length > 0 && valores.bairro.trim() && (
+                    <p className={`col-span-2 text-xs flex items-center gap-1 ${zona ? "text-gray-600" : "text-red-700"}`}>
+                      <MapPin size={12} />
+                      {zona
+                        ? `${zona.bairro} · Taxa ${formatarMoeda(Number(zona.taxa_entrega))} · ~${zona.tempo_estimado_min} min`
+                        : "Bairro fora das zonas de entrega"}
+                    </p>
+                  )}
+                  <FormField
+                    control={form.control}
+                    name="taxaEntrega"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Taxa de entrega (R$)</FormLabel>
+                        <FormControl><Input inputMode="decimal" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-2 gap-3">
+                <FormField
+                  control={form.control}
+                  name="formaPagamento"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Forma de pagamento</FormLabel>
+                      <FormControl>
+                        <select {...field} className={selectClasses}>
+                          <option value="">Não informada</option>
+                          {formasPagamento.map(forma => <option key={forma} value={forma}>{forma}</option>)}
+                        </select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="pagamento"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Status do pagamento</FormLabel>
+                      <FormControl>
+                        <select {...field} className={selectClasses}>
+                          <option value="Aguardando pagamento">Aguardando pagamento</option>
+                          <option value="Pago">Pago</option>
+                        </select>
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                {valores.formaPagamento === "Dinheiro" && (
+                  <FormField
+                    control={form.control}
+                    name="troco"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Troco para (R$)</FormLabel>
+                        <FormControl><Input inputMode="decimal" {...field} /></FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+              </div>
+
+              <FormField
+                control={form.control}
+                name="observacoes"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Observações do pedido</FormLabel>
+                    <FormControl><Textarea rows={2} {...field} /></FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <details className="text-sm">
+                <summary className="cursor-pointer text-gray-600">Prévia da comanda</summary>
+                <pre className="mt-2 p-3 bg-gray-50 border border-gray-200 rounded-md whitespace-pre-wrap font-sans text-xs">{montarComandaManual(dadosAtuais)}</pre>
+              </details>
+
+              <div className="flex justify-end gap-3 pt-2">
+                <button type="button" onClick={onCancelar} className="px-4 py-2 rounded-lg bg-gray-200 text-gray-700 hover:bg-gray-300">
+                  Cancelar
+                </button>
+                <button
+                  type="submit"
+                  disabled={salvando}
+                  className="bg-custom-pink hover:bg-pink-700 disabled:opacity-50 text-white font-medium py-2 px-4 rounded-lg shadow flex items-center"
+                >
+                  {salvando ? <Loader2 size={18} className="animate-spin mr-2" /> : <Plus size={18} className="mr-2" />}
+                  Criar Pedido
+                </button>
+              </div>
+            </div>
+          </form>
+        </Form>
+      </div>
+    </div>
+  );
+};
+
+export default NovoPedidoDialog;
@@ -0,0 +1,175 @@
+import React, { useState } from "react";
+import { Loader2 } from "lucide-react";
+import { atualizarStatusPedido, statusOptions, type Pedido, type StatusPedido } from "../lib/pedidos";
+import { formatHoraPedido } from "../lib/formatters";
+import { parseComanda } from "../lib/comandaParser";
+import { autorizarTransicao, validarTransicaoStatus } from "../lib/statusWorkflow";
+import type { NivelSla } from "../lib/sla";
+import { enviarPedido } from "../lib/entregadores";
+import AtribuirEntregadorDialog from "./AtribuirEntregadorDialog";
+import { pedidoModificado } from "../lib/versoes";
+import { mutacoesDoRegistro } from "../lib/filaOffline";
+import { useFilaOffline } from "../hooks/use-fila-offline";
+import { usePermissoes } from "../hooks/use-sessao";
+
+interface PedidosBoardProps {
+  pedidos: Pedido[];
+  onUpdate: () => void;
+  newPedidoIds: Set<number>;
+  niveisSla?: Map<number, NivelSla>;
+}
+
+const corColuna: Record<StatusPedido, string> = {
+  "Aguardando": "border-yellow-400",
+  "Em preparo": "border-orange-400",
+  "Pronto": "border-green-500",
+  "Enviado": "border-blue-400",
+  "Entregue": "border-gray-400",
+  "Cancelado": "border-red-400",
+};
+
+const classesNivelSla: Record<NivelSla, string> = {
+  ok: "border-gray-200",
+  atencao: "border-yellow-400 border-2",
+  atraso: "border-red-500 border-2",
+};
+
+const BoardCard: React.FC<{ pedido: Pedido; isNew: boolean; isUpdating: boolean; nivelSla: NivelSla; onDragStart: (e: React.DragEvent) => void }> = ({ pedido, isNew, isUpdating, nivelSla, onDragStart }) => {
+  const { itens } = parseComanda(pedido.comanda);
+  const alteracoesNaFila = mutacoesDoRegistro("Comandas", pedido.id, useFilaOffline());
+  const conflito = alteracoesNaFila.some(m => m.situacao === "conflito");
+  const { alterarStatus } = usePermissoes();
+  return (
+    <div
+      draggable={alterarStatus && !isUpdating}
+      onDragStart={onDragStart}
+      className={`relative bg-white border rounded-lg p-3 shadow-sm hover:shadow-md text-left ${alterarStatus ? "cursor-grab active:cursor-grabbing" : ""} ${
+        isNew ? "animate-pulse border-custom-pink border-2" : classesNivelSla[nivelSla]
+      }`}
+    >
+      {isUpdating && (
+        <div className="absolute inset-0 bg-white bg-opacity-75 flex items-center justify-center rounded-lg">
+          <Loader2 className="h-5 w-5 text-custom-pink animate-spin" />
+        </div>
+      )}
+      <div className="flex justify-between items-start gap-2 mb-1">
+        <span className="font-semibold text-gray-800 break-words">
+          <span className="text-gray-400">#{pedido.id}</span> {pedido.nome_cliente || pedido.telefone_key}
+        </span>
+        {pedido.hora_criacao_pedido && (
+          <span className="text-xs text-gray-500 shrink-0">{formatHoraPedido(pedido.hora_criacao_pedido)}</span>
+        )}
+      </div>
+      {itens.length > 0 && (
+        <ul className="text-xs text-gray-600 mb-1">
+          {itens.map(item => (
+            <li key={item.linha}>{item.quantidade}x {item.produto}</li>
+          ))}
+        </ul>
+      )}
+      <span className={`text-xs px-2 py-0.5 rounded-full ${pedido.pagamento === "Pago" ? "bg-green-100 text-green-700" : "bg-red-100 text-red-700"}`}>
+        {pedido.pagamento}
+      </span>
+      {pedidoModificado(pedido) && (
+        <span className="ml-1 text-xs px-2 py-0.5 rounded-full bg-amber-100 text-amber-800">modificado</span>
+      )}
+      {alteracoesNaFila.length > 0 && (
+        <span
+          className={`ml-1 text-xs px-2 py-0.5 rounded-full ${conflito ? "bg-red-600 text-white" : "bg-gray-200 text-gray-700"}`}
+          title={alteracoesNaFila.map(m => m.descricao).join("\n")}
+        >
+          {conflito ? "conflito" : "sem conexão"}
+        </span>
+      )}
+    </div>
+  );
+};
+
+const PedidosBoard: React.FC<PedidosBoardProps> = ({ pedidos, onUpdate, newPedidoIds, niveisSla }) => {
+  const [colunaAlvo, setColunaAlvo] = useState<StatusPedido | null>(null);
+  const [atualizando, setAtualizando] = useState<Set<number>>(new Set());
+  const [pedidoParaEnviar, setPedidoParaEnviar] = useState<Pedido | null>(null);
+
+  const handleDrop = async (e: React.DragEvent, novoStatus: StatusPedido) => {
+    e.preventDefault();
+    setColunaAlvo(null);
+    const id = Number(e.dataTransfer.getData("text/plain"));
+    const pedido = pedidos.find(p => p.id === id);
+    if (!pedido || pedido.status_pedido === novoStatus) return;
+    if (!autorizarTransicao(validarTransicaoStatus(pedido, novoStatus))) return;
+    if (novoStatus === "Enviado") {
+      setPedidoParaEnviar(pedido);
+      return;
+    }
+    await aplicarAtualizacao(pedido, () => atualizarStatusPedido(pedido, novoStatus));
+  };
+
+  const aplicarAtualizacao = async (pedido: Pedido, atualizar: () => PromiseLike<{ error: { message: string } | null }>) => {
+    const id = pedido.id;
+    setAtualizando(prev => new Set(prev).add(id));
+    const { error } = await atualizar();
+    setAtualizando(prev => {
+      const updated = new Set(prev);
+      updated.delete(id);
+      return updated;
+    });
+    if (error) {
+      console.error("Erro ao atualizar status do pedido:", error);
+      alert(`Falha ao atualizar status do pedido: ${error.message}`);
+    } else {
+      onUpdate();
+    }
+  };
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4 items-start">
+      {statusOptions.map(status => {
+        const pedidosDaColuna = pedidos.filter(p => p.status_pedido === status);
+        return (
+          <div
+            key={status}
+            onDragOver={(e) => { e.preventDefault(); setColunaAlvo(status); }}
+            onDragLeave={() => setColunaAlvo(prev => (prev === status ? null : prev))}
+            onDrop={(e) => handleDrop(e, status)}
+            className={`rounded-xl border-t-4 ${corColuna[status]} p-3 min-h-[200px] transition-colors ${
+              colunaAlvo === status ? "bg-pink-50 ring-2 ring-custom-pink" : "bg-gray-100"
+            }`}
+          >
+            <div className="flex justify-between items-center mb-3">
+              <h3 className="text-lg font-semibold text-gray-700">{status}</h3>
+              <span className="text-sm font-medium bg-white text-gray-700 px-2 py-0.5 rounded-full shadow-sm">{pedidosDaColuna.length}</span>
+            </div>
+            <div className="space-y-3">
+              {pedidosDaColuna.map(pedido => (
+                <BoardCard
+                  key={pedido.id}
+                  pedido={pedido}
+                  isNew={newPedidoIds.has(pedido.id)}
+                  isUpdating={atualizando.has(pedido.id)}
+                  nivelSla={niveisSla?.get(pedido.id) ?? "ok"}
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData("text/plain", String(pedido.id));
+                    e.dataTransfer.effectAllowed = "move";
+                  }}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      {pedidoParaEnviar && (
+        <AtribuirEntregadorDialog
+          pedido={pedidoParaEnviar}
+          onConfirmar={(entregador) => {
+            const pedido = pedidoParaEnviar;
+            setPedidoParaEnviar(null);
+            aplicarAtualizacao(pedido, () => enviarPedido(pedido, entregador));
+          }}
+          onCancelar={() => setPedidoParaEnviar(null)}
+        />
+      )}
+    </div>
+  );
+};
+
+export default PedidosBoard;
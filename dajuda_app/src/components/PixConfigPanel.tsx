@@ -0,0 +1,59 @@
+import React, { useState } from "react";
+import { chavePixAmbigua, normalizarChavePix, obterConfigPix, salvarConfigPix, type ConfigPix, type TipoChavePix } from "../lib/pix";
+
+const tiposChave: { valor: TipoChavePix; rotulo: string }[] = [
+  { valor: "automatico", rotulo: "Detectar pelo formato" },
+  { valor: "telefone", rotulo: "Telefone" },
+  { valor: "cpf_cnpj", rotulo: "CPF/CNPJ" },
+  { valor: "email", rotulo: "E-mail" },
+  { valor: "aleatoria", rotulo: "Chave aleatória" },
+];
+
+const PixConfigPanel: React.FC = () => {
+  const [config, setConfig] = useState<ConfigPix>(obterConfigPix);
+
+  const atualizar = (parcial: Partial<ConfigPix>) => {
+    const novaConfig = { ...config, ...parcial };
+    setConfig(novaConfig);
+    salvarConfigPix(novaConfig);
+  };
+
+  const fieldClasses = "block w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+  const chaveNormalizada = config.chave.trim() ? normalizarChavePix(config.chave, config.tipoChave) : "";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-3">Recebimento por Pix</h3>
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <div>
+          <label htmlFor="pix_chave" className="block text-sm font-medium text-gray-700 mb-1">Chave Pix</label>
+          <input id="pix_chave" type="text" value={config.chave} onChange={(e) => atualizar({ chave: e.target.value })} placeholder="Telefone, e-mail, CNPJ ou chave aleatória" className={fieldClasses} />
+          {chaveNormalizada && chaveNormalizada !== config.chave.trim() && (
+            <p className="text-xs text-gray-500 mt-1">Será usada como {chaveNormalizada}</p>
+          )}
+          {config.tipoChave === "automatico" && chavePixAmbigua(config.chave) && (
+            <p className="text-xs text-amber-700 mt-1">Pode ser CPF ou telefone: escolha o tipo da chave.</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="pix_tipo" className="block text-sm font-medium text-gray-700 mb-1">Tipo da chave</label>
+          <select id="pix_tipo" value={config.tipoChave} onChange={(e) => atualizar({ tipoChave: e.target.value as TipoChavePix })} className={fieldClasses}>
+            {tiposChave.map(tipo => (
+              <option key={tipo.valor} value={tipo.valor}>{tipo.rotulo}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="pix_nome" className="block text-sm font-medium text-gray-700 mb-1">Nome do recebedor</label>
+          <input id="pix_nome" type="text" maxLength={25} value={config.nome} onChange={(e) => atualizar({ nome: e.target.value })} className={fieldClasses} />
+        </div>
+        <div>
+          <label htmlFor="pix_cidade" className="block text-sm font-medium text-gray-700 mb-1">Cidade</label>
+          <input id="pix_cidade" type="text" maxLength={15} value={config.cidade} onChange={(e) => atualizar({ cidade: e.target.value })} className={fieldClasses} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PixConfigPanel;
@@ -0,0 +1,37 @@
+import React, { useMemo } from "react";
+import { gerarQrCode } from "../lib/qrcode";
+
+interface PixQrCodeProps {
+  payload: string;
+  tamanho?: number; // Lado em pixels
+}
+
+const ZONA_SILENCIO = 4; // Margem clara exigida pelos leitores, em módulos
+
+const PixQrCode: React.FC<PixQrCodeProps> = ({ payload, tamanho = 192 }) => {
+  const { lado, caminho } = useMemo(() => {
+    const modulos = gerarQrCode(payload);
+    const partes: string[] = [];
+    modulos.forEach((linha, y) => linha.forEach((escuro, x) => {
+      if (escuro) partes.push(`M${x + ZONA_SILENCIO},${y + ZONA_SILENCIO}h1v1h-1z`);
+    }));
+    return { lado: modulos.length + ZONA_SILENCIO * 2, caminho: partes.join("") };
+  }, [payload]);
+
+  return (
+    <svg
+      viewBox={`0 0 ${lado} ${lado}`}
+      width={tamanho}
+      height={tamanho}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label="QR Code Pix"
+      className="bg-white"
+    >
+      <rect width={lado} height={lado} fill="#fff" />
+      <path d={caminho} fill="#000" />
+    </svg>
+  );
+};
+
+export default PixQrCode;
@@ -0,0 +1,281 @@
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Loader2 } from "lucide-react";
+import { Bar, BarChart, CartesianGrid, Cell, Pie, PieChart, XAxis, YAxis } from "recharts";
+import { ChartContainer, ChartTooltip, ChartTooltipContent, type ChartConfig } from "./ui/chart";
+import type { Pedido } from "../lib/pedidos";
+import type { HistoricoPedido } from "../lib/historico";
+import { formatarMoeda } from "../lib/formatters";
+import { dataDeHoje, dataDoPedido, formatarDataFechamento, somarDias } from "../lib/fechamento";
+import {
+  buscarHistoricoDoPeriodo,
+  buscarPedidosDoPeriodo,
+  calcularCancelamentos,
+  calcularItensMaisVendidos,
+  calcularPedidosPorHora,
+  calcularResumoDiario,
+  calcularTempoMedioPorStatus,
+  variacaoPercentual,
+  type PeriodoRelatorio,
+} from "../lib/relatorios";
+
+const presets: { rotulo: string; dias: number }[] = [
+  { rotulo: "Hoje", dias: 1 },
+  { rotulo: "7 dias", dias: 7 },
+  { rotulo: "30 dias", dias: 30 },
+];
+
+const chartConfig = {
+  pedidos: { label: "Pedidos", color: "#FF69B4" },
+  minutos: { label: "Minutos", color: "#F97316" },
+  quantidade: { label: "Unidades", color: "#FF69B4" },
+  pago: { label: "Pago", color: "#16A34A" },
+  pendente: { label: "Pendente", color: "#DC2626" },
+  cancelados: { label: "Cancelados", color: "#DC2626" },
+} satisfies ChartConfig;
+
+const tooltipClasses = "bg-white";
+
+const Variacao: React.FC<{ valor: number | undefined }> = ({ valor }) => {
+  if (valor === undefined) return <span className="text-xs text-gray-400">sem base</span>;
+  return (
+    <span className={`text-xs font-medium ${valor >= 0 ? "text-green-700" : "text-red-600"}`}>
+      {valor >= 0 ? "▲" : "▼"} {Math.abs(valor)}% vs dia anterior
+    </span>
+  );
+};
+
+const RelatoriosPage: React.FC = () => {
+  const [periodo, setPeriodo] = useState<PeriodoRelatorio>(() => ({ de: dataDeHoje(), ate: dataDeHoje() }));
+  const [pedidos, setPedidos] = useState<Pedido[]>([]);
+  const [historico, setHistorico] = useState<HistoricoPedido[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Busca um dia antes do início para que o primeiro dia também tenha com o que comparar
+  const carregar = useCallback(async (selecionado: PeriodoRelatorio) => {
+    setLoading(true);
+    const estendido = { de: somarDias(selecionado.de, -1), ate: selecionado.ate };
+    const [pedidosResult, historicoResult] = await Promise.all([
+      buscarPedidosDoPeriodo(estendido),
+      buscarHistoricoDoPeriodo(selecionado),
+    ]);
+    if (pedidosResult.error || historicoResult.error) {
+      const fetchError = pedidosResult.error || historicoResult.error;
+      console.error("Erro ao carregar relatórios:", fetchError);
+      setError(`Falha ao carregar relatórios: ${fetchError?.message}`);
+    } else {
+      setPedidos(pedidosResult.data ?? []);
+      setHistorico(historicoResult.data ?? []);
+      setError(null);
+    }
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    carregar(periodo);
+  }, [carregar, periodo]);
+
+  const pedidosDoPeriodo = useMemo(
+    () => pedidos.filter(p => dataDoPedido(p.hora_criacao_pedido) >= periodo.de),
+    [pedidos, periodo.de]
+  );
+  const porHora = useMemo(() => calcularPedidosPorHora(pedidosDoPeriodo), [pedidosDoPeriodo]);
+  const temposPorStatus = useMemo(() => calcularTempoMedioPorStatus(pedidosDoPeriodo, historico), [pedidosDoPeriodo, historico]);
+  const maisVendidos = useMemo(() => calcularItensMaisVendidos(pedidosDoPeriodo), [pedidosDoPeriodo]);
+  const cancelamentos = useMemo(() => calcularCancelamentos(pedidosDoPeriodo), [pedidosDoPeriodo]);
+  const resumoDiario = useMemo(
+    () => calcularResumoDiario(pedidos, { de: somarDias(periodo.de, -1), ate: periodo.ate }),
+    [pedidos, periodo]
+  );
+
+  const diasNoPeriodo = resumoDiario.slice(1);
+  const ultimoDia = resumoDiario[resumoDiario.length - 1];
+  const penultimoDia = resumoDiario[resumoDiario.length - 2];
+  const validos = pedidosDoPeriodo.length - cancelamentos.cancelados;
+  const pagos = diasNoPeriodo.reduce((soma, d) => soma + d.pagos, 0);
+  const valorTotal = diasNoPeriodo.reduce((soma, d) => soma + d.valor, 0);
+  const pagamentos = [
+    { chave: "pago", pedidos: pagos },
+    { chave: "pendente", pedidos: validos - pagos },
+  ];
+
+  const aplicarPreset = (dias: number) => {
+    const hoje = dataDeHoje();
+    setPeriodo({ de: somarDias(hoje, 1 - dias), ate: hoje });
+  };
+
+  const fieldClasses = "p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+  const cardClasses = "bg-white border border-gray-200 rounded-xl shadow-sm p-4";
+
+  return (
+    <div className="container mx-auto p-4 pb-20 text-left">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-6">
+        <h2 className="text-3xl font-semibold text-gray-700">
+          {periodo.de === periodo.ate
+            ? formatarDataFechamento(periodo.de)
+            : `${formatarDataFechamento(periodo.de)} a ${formatarDataFechamento(periodo.ate)}`}
+        </h2>
+        <div className="flex flex-wrap items-center gap-3">
+          {presets.map(preset => (
+            <button
+              key={preset.rotulo}
+              onClick={() => aplicarPreset(preset.dias)}
+              className="px-4 py-2 rounded-xl text-sm font-medium bg-gray-200 text-gray-700 hover:bg-gray-300 transition-colors"
+            >
+              {preset.rotulo}
+            </button>
+          ))}
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            De
+            <input type="date" value={periodo.de} max={periodo.ate} onChange={(e) => e.target.value && setPeriodo(prev => ({ ...prev, de: e.target.value }))} className={fieldClasses} />
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-600">
+            Até
+            <input type="date" value={periodo.ate} min={periodo.de} max={dataDeHoje()} onChange={(e) => e.target.value && setPeriodo(prev => ({ ...prev, ate: e.target.value }))} className={fieldClasses} />
+          </label>
+        </div>
+      </div>
+
+      {error && <p className="text-red-600 mb-6 p-4 bg-red-100 rounded-lg">{error}</p>}
+
+      {loading ? (
+        <div className="flex justify-center py-10"><Loader2 className="h-8 w-8 text-custom-pink animate-spin" /></div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8">
+            <div className={cardClasses}>
+              <p className="text-xs text-gray-500">Pedidos</p>
+              <p className="text-3xl font-semibold text-gray-800">{pedidosDoPeriodo.length}</p>
+              {penultimoDia && <Variacao valor={variacaoPercentual(ultimoDia.pedidos, penultimoDia.pedidos)} />}
+            </div>
+            <div className={cardClasses}>
+              <p className="text-xs text-gray-500">Valor informado nas comandas</p>
+              <p className="text-3xl font-semibold text-gray-800">{formatarMoeda(valorTotal)}</p>
+              {penultimoDia && <Variacao valor={variacaoPercentual(ultimoDia.valor, penultimoDia.valor)} />}
+            </div>
+            <div className={cardClasses}>
+              <p className="text-xs text-gray-500">Pagos</p>
+              <p className="text-3xl font-semibold text-green-700">
+                {validos > 0 ? Math.round((pagos / validos) * 100) : 0}%
+              </p>
+              <p className="text-xs text-gray-400">{pagos} de {validos}</p>
+            </div>
+            <div className={cardClasses}>
+              <p className="text-xs text-gray-500">Ticket médio</p>
+              <p className="text-3xl font-semibold text-gray-800">
+                {validos > 0 ? formatarMoeda(valorTotal / validos) : "-"}
+              </p>
+            </div>
+            <div className={cardClasses}>
+              <p className="text-xs text-gray-500">Cancelamentos</p>
+              <p className={`text-3xl font-semibold ${cancelamentos.cancelados > 0 ? "text-red-600" : "text-gray-800"}`}>
+                {cancelamentos.taxa.toLocaleString("pt-BR")}%
+              </p>
+              <p className="text-xs text-gray-400">
+                {cancelamentos.cancelados} de {cancelamentos.total}
+                {cancelamentos.reembolsosPendentes > 0 && <span className="text-red-600"> · {cancelamentos.reembolsosPendentes} reembolso(s) pendente(s)</span>}
+              </p>
+            </div>
+          </div>
+
+          {pedidosDoPeriodo.length === 0 ? (
+            <p className="text-center text-gray-500 mt-12 text-xl">Nenhum pedido no período.</p>
+          ) : (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <div className={cardClasses}>
+                <h3 className="font-semibold text-gray-700 mb-2">Pedidos por hora</h3>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <BarChart data={porHora}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="hora" tickLine={false} axisLine={false} />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                    <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} />} />
+                    <Bar dataKey="pedidos" fill="var(--color-pedidos)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+
+              <div className={cardClasses}>
+                <h3 className="font-semibold text-gray-700 mb-2">Tempo médio por status (min)</h3>
+                {temposPorStatus.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">Sem mudanças de status registradas no período.</p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={temposPorStatus} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="status" tickLine={false} axisLine={false} width={90} />
+                      <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} />} />
+                      <Bar dataKey="minutos" fill="var(--color-minutos)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              <div className={cardClasses}>
+                <h3 className="font-semibold text-gray-700 mb-2">Pago x pendente</h3>
+                <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                  <PieChart>
+                    <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} nameKey="chave" hideLabel />} />
+                    <Pie data={pagamentos} dataKey="pedidos" nameKey="chave" innerRadius={50} label>
+                      {pagamentos.map(p => <Cell key={p.chave} fill={`var(--color-${p.chave})`} />)}
+                    </Pie>
+                  </PieChart>
+                </ChartContainer>
+              </div>
+
+              <div className={cardClasses}>
+                <h3 className="font-semibold text-gray-700 mb-2">Itens mais vendidos</h3>
+                {maisVendidos.length === 0 ? (
+                  <p className="text-sm text-gray-500 italic">Nenhum item reconhecido nas comandas.</p>
+                ) : (
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={maisVendidos} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="produto" tickLine={false} axisLine={false} width={140} />
+                      <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} />} />
+                      <Bar dataKey="quantidade" fill="var(--color-quantidade)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                )}
+              </div>
+
+              {cancelamentos.porMotivo.length > 0 && (
+                <div className={cardClasses}>
+                  <h3 className="font-semibold text-gray-700 mb-2">Motivos de cancelamento</h3>
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={cancelamentos.porMotivo} layout="vertical">
+                      <CartesianGrid horizontal={false} />
+                      <XAxis type="number" allowDecimals={false} tickLine={false} axisLine={false} />
+                      <YAxis type="category" dataKey="motivo" tickLine={false} axisLine={false} width={160} />
+                      <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} />} />
+                      <Bar dataKey="pedidos" name="cancelados" fill="var(--color-cancelados)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              )}
+
+              {diasNoPeriodo.length > 1 && (
+                <div className={`${cardClasses} lg:col-span-2`}>
+                  <h3 className="font-semibold text-gray-700 mb-2">Pedidos por dia</h3>
+                  <ChartContainer config={chartConfig} className="h-64 w-full aspect-auto">
+                    <BarChart data={diasNoPeriodo.map(d => ({ ...d, dia: formatarDataFechamento(d.data).slice(0, 5) }))}>
+                      <CartesianGrid vertical={false} />
+                      <XAxis dataKey="dia" tickLine={false} axisLine={false} />
+                      <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={30} />
+                      <ChartTooltip content={<ChartTooltipContent className={tooltipClasses} />} />
+                      <Bar dataKey="pedidos" fill="var(--color-pedidos)" radius={4} />
+                    </BarChart>
+                  </ChartContainer>
+                </div>
+              )}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RelatoriosPage;
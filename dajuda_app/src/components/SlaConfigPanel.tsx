@@ -0,0 +1,56 @@
+import React from "react";
+import { statusOptions } from "../lib/pedidos";
+import { configSlaPadrao, type ConfigSla, type LimiteSla } from "../lib/sla";
+
+interface SlaConfigPanelProps {
+  config: ConfigSla;
+  onChange: (config: ConfigSla) => void;
+}
+
+const SlaConfigPanel: React.FC<SlaConfigPanelProps> = ({ config, onChange }) => {
+  const handleLimiteChange = (status: keyof ConfigSla, campo: keyof LimiteSla, valor: string) => {
+    const atual = config[status] ?? configSlaPadrao[status] ?? { atencao: 10, atraso: 20 };
+    const minutos = Math.max(1, Number(valor) || 1);
+    onChange({ ...config, [status]: { ...atual, [campo]: minutos } });
+  };
+
+  const handleAtivoChange = (status: keyof ConfigSla, ativo: boolean) => {
+    onChange({ ...config, [status]: ativo ? (configSlaPadrao[status] ?? { atencao: 10, atraso: 20 }) : null });
+  };
+
+  const fieldClasses = "w-16 p-1 border border-gray-300 rounded-md text-sm text-center focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500";
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-1">Tempos limite por status</h3>
+      <p className="text-sm text-gray-500 mb-3">Minutos no status atual até o card ficar amarelo (atenção) e vermelho (atraso).</p>
+      <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-3">
+        {statusOptions.map(status => {
+          const limite = config[status];
+          return (
+            <div key={status} className="border border-gray-200 rounded-lg p-3">
+              <label className="flex items-center gap-2 font-medium text-gray-700 mb-2">
+                <input type="checkbox" checked={limite !== null} onChange={(e) => handleAtivoChange(status, e.target.checked)} />
+                {status}
+              </label>
+              {limite && (
+                <div className="space-y-1 text-sm text-gray-600">
+                  <div className="flex justify-between items-center">
+                    <span className="text-yellow-700">Atenção</span>
+                    <input type="number" min={1} value={limite.atencao} onChange={(e) => handleLimiteChange(status, "atencao", e.target.value)} className={fieldClasses} />
+                  </div>
+                  <div className="flex justify-between items-center">
+                    <span className="text-red-700">Atraso</span>
+                    <input type="number" min={1} value={limite.atraso} onChange={(e) => handleLimiteChange(status, "atraso", e.target.value)} className={fieldClasses} />
+                  </div>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SlaConfigPanel;
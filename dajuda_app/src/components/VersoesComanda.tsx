@@ -0,0 +1,104 @@
+import React, { useEffect, useState } from "react";
+import { Loader2 } from "lucide-react";
+import type { Pedido } from "../lib/pedidos";
+import { formatHoraPedido } from "../lib/formatters";
+import { cn } from "../lib/utils";
+import { buscarVersoesPedido, diffLinhas, montarVersoes, type VersaoComanda } from "../lib/versoes";
+
+interface VersoesComandaProps {
+  pedido: Pedido;
+}
+
+const VersoesComanda: React.FC<VersoesComandaProps> = ({ pedido }) => {
+  const [anteriores, setAnteriores] = useState<VersaoComanda[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [versaoSelecionada, setVersaoSelecionada] = useState<number | null>(null); // null = última mudança
+
+  // Recarrega a cada nova versão
+  useEffect(() => {
+    let cancelado = false;
+    setLoading(true);
+    buscarVersoesPedido(pedido).then(({ data, error: fetchError }) => {
+      if (cancelado) return;
+      if (fetchError) {
+        console.error("Erro ao buscar versões da comanda:", fetchError);
+        setError(`Falha ao carregar versões: ${fetchError.message}`);
+      } else {
+        setAnteriores(data as VersaoComanda[]);
+        setError(null);
+      }
+      setLoading(false);
+    });
+    return () => {
+      cancelado = true;
+    };
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pedido.id, pedido.versao]);
+
+  if (loading && anteriores.length === 0) {
+    return <div className="flex justify-center py-2"><Loader2 className="h-5 w-5 text-custom-pink animate-spin" /></div>;
+  }
+
+  if (error) {
+    return <p className="text-xs text-red-600">{error}</p>;
+  }
+
+  const versoes = montarVersoes(pedido, anteriores);
+  if (versoes.length < 2) {
+    return <p className="text-xs text-gray-500 italic">Nenhuma versão anterior.</p>;
+  }
+
+  // Compara a versão escolhida com a seguinte
+  const indiceDepois = versaoSelecionada === null
+    ? versoes.length - 1
+    : Math.max(1, versoes.findIndex(v => v.versao === versaoSelecionada));
+  const antes = versoes[indiceDepois - 1];
+  const depois = versoes[indiceDepois];
+  const linhas = diffLinhas(antes.comanda ?? "", depois.comanda ?? "");
+
+  return (
+    <div className="text-left text-xs">
+      <div className="flex flex-wrap gap-1 mb-2">
+        {versoes.slice(1).map(v => (
+          <button
+            key={v.versao}
+            onClick={() => setVersaoSelecionada(v.versao)}
+            className={`px-2 py-0.5 rounded-full border ${v.versao === depois.versao ? "bg-custom-pink text-white border-custom-pink" : "bg-white text-gray-600 border-gray-300 hover:border-pink-400"}`}
+          >
+            v{v.versao - 1} → v{v.versao}
+          </button>
+        ))}
+      </div>
+      {antes.substituida_em && (
+        <p className="text-gray-500 mb-1">
+          Alterada às {formatHoraPedido(antes.substituida_em)}{antes.substituida_por ? ` por ${antes.substituida_por}` : ""}
+        </p>
+      )}
+      {antes.nome_cliente !== depois.nome_cliente && (
+        <p className="mb-1">
+          <span className="font-semibold text-gray-700">Cliente:</span>{" "}
+          <span className="line-through text-red-600">{antes.nome_cliente || "-"}</span>{" "}
+          <span className="text-green-700">{depois.nome_cliente || "-"}</span>
+        </p>
+      )}
+      <div className="font-mono bg-white border border-gray-200 rounded">
+        {linhas.map((linha, index) => (
+          <div
+            key={index}
+            className={cn(
+              "px-2 whitespace-pre-wrap",
+              linha.tipo === "adicionada" && "bg-green-100 text-green-800",
+              linha.tipo === "removida" && "bg-red-100 text-red-700 line-through",
+              linha.tipo === "igual" && "text-gray-500"
+            )}
+          >
+            {linha.tipo === "adicionada" ? "+ " : linha.tipo === "removida" ? "- " : "  "}{linha.texto}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default VersoesComanda;
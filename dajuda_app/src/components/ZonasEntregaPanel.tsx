@@ -0,0 +1,196 @@
+import React, { useState } from "react";
+import { Pencil, PlusCircle, Save, Trash2, X } from "lucide-react";
+import { formatarMoeda } from "../lib/formatters";
+import {
+  atualizarZonaEntrega,
+  criarZonaEntrega,
+  removerZonaEntrega,
+  type NovaZonaEntrega,
+  type ZonaEntrega,
+} from "../lib/zonasEntrega";
+
+interface ZonasEntregaPanelProps {
+  zonas: ZonaEntrega[];
+  onAlterado: () => void;
+}
+
+// Campos como digitados; valores com vírgula e apelidos separados por vírgula
+interface FormZona {
+  bairro: string;
+  apelidos: string;
+  taxa: string;
+  minimo: string;
+  tempo: string;
+}
+
+const formVazio: FormZona = { bairro: "", apelidos: "", taxa: "", minimo: "", tempo: "40" };
+
+const zonaParaForm = (zona: ZonaEntrega): FormZona => ({
+  bairro: zona.bairro,
+  apelidos: (zona.apelidos ?? []).join(", "),
+  taxa: String(zona.taxa_entrega).replace(".", ","),
+  minimo: String(zona.pedido_minimo).replace(".", ","),
+  tempo: String(zona.tempo_estimado_min),
+});
+
+// Retorna a mensagem de erro quando algum campo é inválido
+const formParaZona = (form: FormZona): Omit<NovaZonaEntrega, "ativo"> | string => {
+  const valor = (texto: string) => Number(texto.replace(",", ".").trim() || "0");
+  const taxa = valor(form.taxa);
+  const minimo = valor(form.minimo);
+  const tempo = Number(form.tempo);
+  if (!form.bairro.trim()) return "Informe o bairro.";
+  if (!Number.isFinite(taxa) || taxa < 0) return "Taxa de entrega inválida.";
+  if (!Number.isFinite(minimo) || minimo < 0) return "Pedido mínimo inválido.";
+  if (!Number.isInteger(tempo) || tempo <= 0) return "Tempo estimado inválido.";
+  return {
+    bairro: form.bairro.trim(),
+    apelidos: form.apelidos.split(",").map(a => a.trim()).filter(Boolean),
+    taxa_entrega: taxa,
+    pedido_minimo: minimo,
+    tempo_estimado_min: tempo,
+  };
+};
+
+const ZonasEntregaPanel: React.FC<ZonasEntregaPanelProps> = ({ zonas, onAlterado }) => {
+  const [novo, setNovo] = useState<FormZona>(formVazio);
+  const [editando, setEditando] = useState<(FormZona & { id: number }) | null>(null);
+
+  const handleAdicionar = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const zona = formParaZona(novo);
+    if (typeof zona === "string") {
+      alert(zona);
+      return;
+    }
+    const { error } = await criarZonaEntrega({ ...zona, ativo: true });
+    if (error) {
+      console.error("Erro ao adicionar zona de entrega:", error);
+      alert(`Falha ao adicionar zona de entrega: ${error.message}`);
+      return;
+    }
+    setNovo(formVazio);
+    onAlterado();
+  };
+
+  const handleSalvar = async () => {
+    if (!editando) return;
+    const zona = formParaZona(editando);
+    if (typeof zona === "string") {
+      alert(zona);
+      return;
+    }
+    const { error } = await atualizarZonaEntrega(editando.id, zona);
+    if (error) {
+      console.error("Erro ao atualizar zona de entrega:", error);
+      alert(`Falha ao atualizar zona de entrega: ${error.message}`);
+      return;
+    }
+    setEditando(null);
+    onAlterado();
+  };
+
+  const handleAlternarAtivo = async (zona: ZonaEntrega) => {
+    const { error } = await atualizarZonaEntrega(zona.id, { ativo: !zona.ativo });
+    if (error) {
+      console.error("Erro ao atualizar zona de entrega:", error);
+      alert(`Falha ao atualizar zona de entrega: ${error.message}`);
+      return;
+    }
+    onAlterado();
+  };
+
+  const handleRemover = async (zona: ZonaEntrega) => {
+    if (!window.confirm(`Remover a zona "${zona.bairro}"?`)) return;
+    const { error } = await removerZonaEntrega(zona.id);
+    if (error) {
+      console.error("Erro ao remover zona de entrega:", error);
+      alert(`Falha ao remover zona de entrega: ${error.message}`);
+      return;
+    }
+    onAlterado();
+  };
+
+  const fieldClasses = "block w-full p-2 border border-gray-300 rounded-md text-sm focus:outline-none focus:ring-1 focus:ring-pink-500 focus:border-pink-500 bg-white";
+
+  const camposForm = (form: FormZona, alterar: (parcial: Partial<FormZona>) => void) => (
+    <>
+      <input type="text" placeholder="Bairro" value={form.bairro} onChange={(e) => alterar({ bairro: e.target.value })} className={fieldClasses} />
+      <input type="text" placeholder="Outras grafias (separadas por vírgula)" value={form.apelidos} onChange={(e) => alterar({ apelidos: e.target.value })} className={fieldClasses} />
+      <input type="text" inputMode="decimal" placeholder="Taxa (R$)" value={form.taxa} onChange={(e) => alterar({ taxa: e.target.value })} className={fieldClasses} />
+      <input type="text" inputMode="decimal" placeholder="Pedido mínimo (R$)" value={form.minimo} onChange={(e) => alterar({ minimo: e.target.value })} className={fieldClasses} />
+      <input type="number" min={1} placeholder="Tempo (min)" value={form.tempo} onChange={(e) => alterar({ tempo: e.target.value })} className={fieldClasses} />
+    </>
+  );
+
+  return (
+    <div className="bg-white border border-gray-200 rounded-xl shadow-sm p-4 mb-8 text-left">
+      <h3 className="text-lg font-semibold text-gray-700 mb-3">Zonas de Entrega</h3>
+      <form onSubmit={handleAdicionar} className="grid grid-cols-1 sm:grid-cols-6 gap-3 mb-4">
+        {camposForm(novo, parcial => setNovo({ ...novo, ...parcial }))}
+        <button type="submit" className="bg-custom-pink hover:bg-pink-700 text-white text-sm font-medium py-2 px-4 rounded-lg shadow flex items-center justify-center">
+          <PlusCircle size={16} className="mr-2" /> Adicionar
+        </button>
+      </form>
+
+      {zonas.length === 0 ? (
+        <p className="text-sm text-gray-500 italic">Nenhuma zona cadastrada. Sem zonas, os pedidos de entrega não são conferidos.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm text-left">
+            <thead className="bg-gray-50 text-gray-600">
+              <tr>
+                <th className="px-3 py-2 font-semibold">Bairro</th>
+                <th className="px-3 py-2 font-semibold text-right">Taxa</th>
+                <th className="px-3 py-2 font-semibold text-right">Mínimo</th>
+                <th className="px-3 py-2 font-semibold text-right">Tempo</th>
+                <th className="px-3 py-2 font-semibold">Situação</th>
+                <th className="px-3 py-2"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {zonas.map(zona => editando?.id === zona.id ? (
+                <tr key={zona.id} className="border-t border-gray-100 bg-pink-50">
+                  <td colSpan={5} className="px-3 py-2">
+                    <div className="grid grid-cols-1 sm:grid-cols-5 gap-2">
+                      {camposForm(editando, parcial => setEditando({ ...editando, ...parcial }))}
+                    </div>
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button onClick={handleSalvar} className="p-1.5 text-green-600 hover:text-green-800" title="Salvar"><Save size={18} /></button>
+                    <button onClick={() => setEditando(null)} className="p-1.5 text-gray-500 hover:text-gray-700" title="Cancelar"><X size={18} /></button>
+                  </td>
+                </tr>
+              ) : (
+                <tr key={zona.id} className={`border-t border-gray-100 ${zona.ativo ? "" : "text-gray-400"}`}>
+                  <td className="px-3 py-2">
+                    <span className="font-medium">{zona.bairro}</span>
+                    {zona.apelidos?.length > 0 && <span className="text-xs text-gray-500"> · {zona.apelidos.join(", ")}</span>}
+                  </td>
+                  <td className="px-3 py-2 text-right">{formatarMoeda(Number(zona.taxa_entrega))}</td>
+                  <td className="px-3 py-2 text-right">{Number(zona.pedido_minimo) > 0 ? formatarMoeda(Number(zona.pedido_minimo)) : "-"}</td>
+                  <td className="px-3 py-2 text-right">{zona.tempo_estimado_min} min</td>
+                  <td className="px-3 py-2">
+                    <button
+                      onClick={() => handleAlternarAtivo(zona)}
+                      className={`text-xs px-2 py-0.5 rounded-full ${zona.ativo ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-500"}`}
+                      title={zona.ativo ? "Desativar" : "Ativar"}
+                    >
+                      {zona.ativo ? "Atendida" : "Suspensa"}
+                    </button>
+                  </td>
+                  <td className="px-3 py-2 text-right whitespace-nowrap">
+                    <button onClick={() => setEditando({ id: zona.id, ...zonaParaForm(zona) })} className="p-1.5 text-gray-500 hover:text-custom-pink" title="Editar"><Pencil size={16} /></button>
+                    <button onClick={() => handleRemover(zona)} className="p-1.5 text-gray-500 hover:text-red-600" title="Remover"><Trash2 size={16} /></button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ZonasEntregaPanel;
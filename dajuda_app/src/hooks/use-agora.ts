@@ -0,0 +1,13 @@
+import * as React from "react"
+
+// Relógio compartilhado para cronômetros: re-renderiza a cada `intervaloMs`
+export function useAgora(intervaloMs: number = 1000) {
+  const [agora, setAgora] = React.useState(() => Date.now())
+
+  React.useEffect(() => {
+    const id = window.setInterval(() => setAgora(Date.now()), intervaloMs)
+    return () => window.clearInterval(id)
+  }, [intervaloMs])
+
+  return agora
+}
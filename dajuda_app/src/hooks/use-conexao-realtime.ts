@@ -0,0 +1,7 @@
+import * as React from "react"
+import { assinarConexoes, obterConexoes } from "../lib/conexaoRealtime"
+
+// Situação de todos os canais do Realtime abertos no momento
+export function useConexaoRealtime() {
+  return React.useSyncExternalStore(assinarConexoes, obterConexoes)
+}
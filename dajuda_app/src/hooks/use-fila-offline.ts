@@ -0,0 +1,11 @@
+import * as React from "react"
+import { assinarFila, iniciarFila, obterFila } from "../lib/filaOffline"
+
+// Alterações aguardando conexão ou em conflito, atualizadas a cada mudança na fila
+export function useFilaOffline() {
+  React.useEffect(() => {
+    iniciarFila()
+  }, [])
+
+  return React.useSyncExternalStore(assinarFila, obterFila)
+}
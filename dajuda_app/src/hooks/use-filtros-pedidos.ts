@@ -0,0 +1,22 @@
+import * as React from "react"
+import { escreverFiltrosNaUrl, lerFiltrosDaUrl, type FiltrosPedidos } from "../lib/filtrosPedidos"
+
+// Mantém os filtros do painel sincronizados com a query string da URL
+export function useFiltrosPedidos() {
+  const [filtros, setFiltros] = React.useState<FiltrosPedidos>(() => lerFiltrosDaUrl(window.location.search))
+
+  React.useEffect(() => {
+    const search = escreverFiltrosNaUrl(window.location.search, filtros)
+    if (search !== window.location.search) {
+      window.history.replaceState(null, "", `${window.location.pathname}${search}${window.location.hash}`)
+    }
+  }, [filtros])
+
+  React.useEffect(() => {
+    const onPopState = () => setFiltros(lerFiltrosDaUrl(window.location.search))
+    window.addEventListener("popstate", onPopState)
+    return () => window.removeEventListener("popstate", onPopState)
+  }, [])
+
+  return [filtros, setFiltros] as const
+}
@@ -0,0 +1,17 @@
+import type { PrecoCardapio } from "../lib/precos"
+import { repositorios } from "../lib/repositorios"
+import { useTabelaRealtime } from "./use-tabela-realtime"
+
+// Preços do cardápio para o cálculo dos totais, mantidos pelos eventos do Realtime como as
+// demais listas. `ativo` desligado fecha o canal: a página do cardápio abre o dela, e ao voltar
+// a busca completa da reabertura traz o que mudou nesse meio-tempo.
+export function usePrecosCardapio(ativo: boolean = true) {
+  const { linhas } = useTabelaRealtime<PrecoCardapio>({
+    repositorio: repositorios.cardapio,
+    canal: "precos_cardapio_channel",
+    descricao: "preços do cardápio",
+    ordenar: (a, b) => (a.nome_produto ?? "").localeCompare(b.nome_produto ?? "", "pt-BR") || a.id - b.id,
+    ativo,
+  })
+  return linhas
+}
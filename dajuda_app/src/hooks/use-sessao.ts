@@ -0,0 +1,14 @@
+import * as React from "react"
+import { assinarSessao, obterSessao, permissoesDoPapel } from "../lib/equipe"
+
+// Quem está logado no painel e em que situação está o login
+export function useSessao() {
+  return React.useSyncExternalStore(assinarSessao, obterSessao)
+}
+
+// O que o papel de quem está logado permite fazer
+export function usePermissoes() {
+  const sessao = useSessao()
+  const papel = sessao.situacao === "logado" ? sessao.perfil.papel : undefined
+  return React.useMemo(() => permissoesDoPapel(papel), [papel])
+}
@@ -0,0 +1,146 @@
+import * as React from "react"
+import {
+  assinarConexoes,
+  conectarCanal,
+  obterConexoes,
+  type SituacaoCanal,
+} from "../lib/conexaoRealtime"
+import {
+  aplicarEvento,
+  contarDivergencias,
+  idDoEvento,
+  type EventoRealtime,
+  type LinhaComId,
+  type Ordenacao,
+} from "../lib/sincronizacao"
+import type { RepositorioTabela } from "../lib/repositorios"
+
+export type StatusConexao = SituacaoCanal | "fechado"
+
+interface OpcoesTabelaRealtime<T extends LinhaComId> {
+  repositorio: Pick<RepositorioTabela<unknown>, "tabela" | "listar" | "assinar">
+  canal: string
+  descricao: string // Usada nas mensagens de erro ("pedidos", "cardápio")
+  ordenar: Ordenacao<T>
+  converter?: (registro: Record<string, unknown>) => T
+  ativo?: boolean // Desligado, o canal é fechado e a lista fica como estava
+  intervaloReconciliacaoMs?: number
+  aoInserir?: (linha: T) => void // Só para linhas que ainda não estavam na lista
+  preservar?: (linha: T) => boolean // Linhas locais que nem eventos nem a busca completa sobrescrevem
+}
+
+// Lista de uma tabela mantida pelos eventos do Realtime. A busca completa roda ao conectar
+// (e a cada reconexão, para cobrir o que se perdeu na queda), quando a aba volta a ficar visível
+// e periodicamente; eventos que chegam durante a busca são guardados e aplicados depois dela.
+// As quedas do canal são tratadas pelo gerenciador de conexões (lib/conexaoRealtime).
+export function useTabelaRealtime<T extends LinhaComId>(opcoes: OpcoesTabelaRealtime<T>) {
+  const { repositorio, canal, ativo = true, intervaloReconciliacaoMs = 5 * 60000 } = opcoes
+  const [linhas, setLinhasState] = React.useState<T[]>([])
+  const [carregando, setCarregando] = React.useState<boolean>(true)
+  const [erro, setErro] = React.useState<string | null>(null)
+  const estadoCanal = React.useSyncExternalStore(assinarConexoes, () => obterConexoes().find(e => e.canal === canal))
+  // Cópia síncrona da lista, lida pelos handlers do canal sem depender de closures antigas
+  const linhasRef = React.useRef<T[]>([])
+  const opcoesRef = React.useRef(opcoes)
+  opcoesRef.current = opcoes
+  const eventosDuranteBuscaRef = React.useRef<EventoRealtime[] | null>(null)
+  const buscarDeNovoRef = React.useRef<boolean>(false)
+
+  const setLinhas = React.useCallback((valor: T[] | ((atuais: T[]) => T[])) => {
+    linhasRef.current = typeof valor === "function" ? valor(linhasRef.current) : valor
+    setLinhasState(linhasRef.current)
+  }, [])
+
+  // `idsConhecidos`: ao reaplicar eventos guardados durante a busca completa, a linha inserida
+  // já veio na busca, mas continua sendo novidade se não estava na lista antes dela
+  const aplicar = React.useCallback((evento: EventoRealtime, idsConhecidos?: Set<number>) => {
+    const { ordenar, converter, aoInserir, preservar } = opcoesRef.current
+    const id = idDoEvento(evento)
+    const atual = linhasRef.current.find(l => l.id === id)
+    if (atual && preservar?.(atual)) return
+    const nova = evento.eventType === "INSERT" && id !== undefined && (idsConhecidos ? !idsConhecidos.has(id) : !atual)
+    setLinhas(aplicarEvento(linhasRef.current, evento, ordenar, converter))
+    if (nova) {
+      aoInserir?.(linhasRef.current.find(l => l.id === id)!)
+    }
+  }, [setLinhas])
+
+  const sincronizar = React.useCallback(async (motivo: string) => {
+    if (eventosDuranteBuscaRef.current) {
+      buscarDeNovoRef.current = true
+      return
+    }
+    eventosDuranteBuscaRef.current = []
+    const idsAntesDaBusca = new Set(linhasRef.current.map(l => l.id))
+    const { repositorio: { tabela, listar }, descricao, converter, ordenar, preservar } = opcoesRef.current
+    const { data, error } = await listar()
+    const eventosDuranteBusca = eventosDuranteBuscaRef.current
+    eventosDuranteBuscaRef.current = null
+
+    if (error) {
+      console.error(`Erro ao buscar ${descricao}:`, error)
+      setErro(`Falha ao carregar ${descricao}: ${error.message}`)
+    } else {
+      const locais = new Map(linhasRef.current.map(l => [l.id, l]))
+      const remotas = (data ?? [])
+        .map(registro => (converter ? converter(registro as Record<string, unknown>) : registro as T))
+        .map(linha => {
+          const local = locais.get(linha.id)
+          return local && preservar?.(local) ? local : linha
+        })
+        .sort(ordenar)
+      if (linhasRef.current.length > 0) {
+        const divergencias = contarDivergencias(linhasRef.current, remotas)
+        if (divergencias > 0) {
+          console.warn(`Sincronização de ${tabela} (${motivo}): ${divergencias} linha(s) faltando ou sobrando no estado local.`)
+        }
+      }
+      setLinhas(remotas)
+      setErro(null)
+    }
+    setCarregando(false)
+    eventosDuranteBusca.forEach(evento => aplicar(evento, idsAntesDaBusca))
+
+    if (buscarDeNovoRef.current) {
+      buscarDeNovoRef.current = false
+      sincronizar(motivo)
+    }
+  }, [aplicar, setLinhas])
+
+  React.useEffect(() => {
+    if (!ativo) return
+
+    sincronizar("carga inicial")
+
+    const desconectar = conectarCanal({
+      canal,
+      repositorio,
+      aoEvento: evento => {
+        if (eventosDuranteBuscaRef.current) {
+          eventosDuranteBuscaRef.current.push(evento)
+        } else {
+          aplicar(evento)
+        }
+      },
+      // Eventos entre a busca e a inscrição (ou durante a queda) não chegam pelo canal
+      aoConectar: reconexao => sincronizar(reconexao ? "reconexão" : "inscrição no canal"),
+    })
+
+    const intervalo = window.setInterval(() => sincronizar("reconciliação periódica"), intervaloReconciliacaoMs)
+    // Tablets em repouso perdem eventos sem que o canal acuse a queda
+    const handleVisibilidade = () => {
+      if (document.visibilityState === "visible") sincronizar("aba visível")
+    }
+    document.addEventListener("visibilitychange", handleVisibilidade)
+
+    return () => {
+      window.clearInterval(intervalo)
+      document.removeEventListener("visibilitychange", handleVisibilidade)
+      desconectar()
+    }
+  }, [ativo, canal, repositorio, intervaloReconciliacaoMs, aplicar, sincronizar])
+
+  const status: StatusConexao = estadoCanal?.situacao ?? "fechado"
+
+  return { linhas, setLinhas, carregando, erro, status, sincronizar }
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+import { repositorioZonasEntrega, type ZonaEntrega } from "../lib/zonasEntrega"
+import { useTabelaRealtime } from "./use-tabela-realtime"
+
+// Zonas de entrega cadastradas, mantidas pelos eventos do Realtime como as demais listas
+export function useZonasEntrega() {
+  const { linhas, sincronizar } = useTabelaRealtime<ZonaEntrega>({
+    repositorio: repositorioZonasEntrega,
+    canal: "zonas_entrega_channel",
+    descricao: "zonas de entrega",
+    ordenar: (a, b) => a.bairro.localeCompare(b.bairro, "pt-BR") || a.id - b.id,
+  })
+
+  // O painel das zonas chama depois de salvar, sem esperar o evento do canal
+  const recarregar = React.useCallback(() => {
+    sincronizar("alteração no painel")
+  }, [sincronizar])
+
+  return { zonas: linhas, recarregar }
+}
@@ -0,0 +1,62 @@
+import type { EstadoCanal } from "./conexaoRealtime";
+
+// Alerta de pedidos sem conexão: se o canal das Comandas fica fora do ar por mais que o tempo
+// configurado durante o horário de funcionamento, o app avisa em tela cheia e com som, já que
+// nesse intervalo pedidos novos não aparecem.
+
+export interface ConfigAlertaConexao {
+  ativo: boolean;
+  minutosSemConexao: number;
+  abertura: string;     // "HH:MM", horário de São Paulo
+  fechamento: string;   // Antes da abertura = fecha depois da meia-noite
+}
+
+const STORAGE_KEY = "dajuda.alertaConexao";
+
+export const configAlertaConexaoPadrao: ConfigAlertaConexao = {
+  ativo: true,
+  minutosSemConexao: 2,
+  abertura: "10:00",
+  fechamento: "23:00",
+};
+
+export const obterConfigAlertaConexao = (): ConfigAlertaConexao => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? { ...configAlertaConexaoPadrao, ...JSON.parse(salvo) } : configAlertaConexaoPadrao;
+  } catch (e) {
+    console.error("Erro ao ler configuração do alerta de conexão:", e);
+    return configAlertaConexaoPadrao;
+  }
+};
+
+export const salvarConfigAlertaConexao = (config: ConfigAlertaConexao) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar configuração do alerta de conexão:", e);
+  }
+};
+
+export const dentroDoHorario = (config: Pick<ConfigAlertaConexao, "abertura" | "fechamento">, agora: number): boolean => {
+  const hora = new Date(agora).toLocaleTimeString("en-GB", {
+    timeZone: "America/Sao_Paulo",
+    hour: "2-digit",
+    minute: "2-digit",
+    hourCycle: "h23",
+  });
+  if (config.abertura <= config.fechamento) return hora >= config.abertura && hora < config.fechamento;
+  return hora >= config.abertura || hora < config.fechamento;
+};
+
+// Minutos fora do ar do canal das Comandas quando o alerta deve tocar; null quando não deve
+export const minutosPedidosForaDoAr = (
+  conexoes: EstadoCanal[],
+  config: ConfigAlertaConexao,
+  agora: number
+): number | null => {
+  const pedidos = conexoes.find(c => c.tabela === "Comandas");
+  if (!config.ativo || !pedidos || pedidos.situacao === "conectado") return null;
+  const minutos = (agora - pedidos.desde) / 60000;
+  return minutos >= config.minutosSemConexao && dentroDoHorario(config, agora) ? Math.floor(minutos) : null;
+};
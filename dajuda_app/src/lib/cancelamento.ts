@@ -0,0 +1,41 @@
+import { obterOperador } from "./operador";
+import { atualizarPedido, type Pedido } from "./pedidos";
+import { repositorios } from "./repositorios";
+
+// Cancelamento de pedidos. O pedido não é apagado: fica como "Cancelado", fora das visões ativas,
+// e continua contando nos relatórios. O trigger do banco registra quando e por quem, e deixa o
+// reembolso pendente quando o pedido já estava pago.
+
+export const motivosCancelamento: string[] = [
+  "Cliente desistiu",
+  "Item em falta",
+  "Pedido duplicado",
+  "Fora da área de entrega",
+  "Pagamento não confirmado",
+  "Cliente não encontrado na entrega",
+  "Outro",
+];
+
+export const pedidoCancelado = (pedido: Pick<Pedido, "status_pedido">): boolean =>
+  pedido.status_pedido === "Cancelado";
+
+export const reembolsoPendente = (pedido: Pick<Pedido, "status_pedido" | "reembolso">): boolean =>
+  pedidoCancelado(pedido) && pedido.reembolso === "Pendente";
+
+// O detalhe vai junto no mesmo texto: "Item em falta - acabou o açaí de 500ml"
+export const montarMotivoCancelamento = (motivo: string, detalhe: string): string =>
+  detalhe.trim() ? `${motivo} - ${detalhe.trim()}` : motivo;
+
+// Motivo da lista que originou o texto gravado, para agrupar nos relatórios
+export const categoriaMotivo = (motivoGravado: string | null | undefined): string =>
+  motivosCancelamento.find(m => (motivoGravado ?? "").startsWith(m)) ?? "Outro";
+
+export const cancelarPedido = (pedido: Pedido, motivo: string) =>
+  atualizarPedido(pedido, { status_pedido: "Cancelado", motivo_cancelamento: motivo }, `Cancelado: ${motivo}`);
+
+export const registrarReembolso = (pedido: Pedido) =>
+  repositorios.pedidos.atualizar(
+    pedido.id,
+    { reembolso: "Reembolsado", atualizado_por: obterOperador() || null },
+    { reembolso: "Pendente" }
+  );
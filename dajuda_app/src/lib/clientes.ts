@@ -0,0 +1,118 @@
+import { supabase } from "../supabaseClient";
+import { normalizarTexto, parseComanda } from "./comandaParser";
+import { pedidoCancelado } from "./cancelamento";
+import type { Pedido } from "./pedidos";
+
+// Diretório de clientes montado a partir do histórico de pedidos, agrupado por telefone
+
+export interface ItemFrequente {
+  produto: string;
+  quantidade: number; // Unidades somadas em todos os pedidos
+  pedidos: number;    // Em quantos pedidos o item apareceu
+}
+
+export interface ClienteResumo {
+  telefone_key: string;
+  nomes: string[];          // Variações de nome usadas, da mais recente para a mais antiga
+  primeiroPedido: string;
+  ultimoPedido: string;
+  totalPedidos: number;
+  totalGasto: number;       // Soma dos totais conhecidos (informados na comanda ou por item), sem cancelados
+  pedidosSemValor: number;  // Pedidos cujo valor não pôde ser determinado
+  itensFrequentes: ItemFrequente[];
+  enderecos: string[];
+  pedidos: Pedido[];        // Do mais recente para o mais antigo
+}
+
+export interface NotaCliente {
+  telefone_key: string;
+  notas: string;
+  atualizado_em: string;
+}
+
+// Pedidos de balcão sem telefone dividem uma chave só e não formam cliente. Os lançados antes
+// dela ganhavam "balcao-<horário>", um por pedido.
+export const CHAVE_BALCAO = "balcao";
+
+export const chaveDeBalcao = (telefoneKey: string): boolean =>
+  telefoneKey === CHAVE_BALCAO || telefoneKey.startsWith(`${CHAVE_BALCAO}-`);
+
+// Valor do pedido segundo a própria comanda: total informado ou soma dos preços por item
+export const valorInformadoPedido = (pedido: Pedido): number | undefined => {
+  const comanda = parseComanda(pedido.comanda);
+  if (comanda.totalInformado !== undefined) return comanda.totalInformado;
+  if (comanda.itens.length > 0 && comanda.itens.every(i => i.precoInformado !== undefined)) {
+    return comanda.itens.reduce((soma, i) => soma + (i.precoInformado ?? 0), 0);
+  }
+  return undefined;
+};
+
+export const agregarClientes = (pedidos: Pedido[]): ClienteResumo[] => {
+  const porTelefone = new Map<string, Pedido[]>();
+  pedidos.forEach(p => {
+    if (!p.telefone_key || chaveDeBalcao(p.telefone_key)) return;
+    porTelefone.set(p.telefone_key, [...(porTelefone.get(p.telefone_key) ?? []), p]);
+  });
+
+  return Array.from(porTelefone.entries()).map(([telefone_key, doCliente]) => {
+    const ordenados = [...doCliente].sort((a, b) => b.hora_criacao_pedido.localeCompare(a.hora_criacao_pedido));
+    const nomes: string[] = [];
+    const enderecos: string[] = [];
+    const itens = new Map<string, ItemFrequente>();
+    let totalGasto = 0;
+    let pedidosSemValor = 0;
+
+    ordenados.forEach(pedido => {
+      const nome = pedido.nome_cliente?.trim();
+      if (nome && !nomes.some(n => normalizarTexto(n) === normalizarTexto(nome))) nomes.push(nome);
+
+      const comanda = parseComanda(pedido.comanda);
+      if (comanda.endereco) {
+        const endereco = [comanda.endereco, comanda.complemento, comanda.bairro].filter(Boolean).join(" - ");
+        if (!enderecos.some(e => normalizarTexto(e) === normalizarTexto(endereco))) enderecos.push(endereco);
+      }
+      if (pedidoCancelado(pedido)) return;
+
+      const valor = valorInformadoPedido(pedido);
+      if (valor !== undefined) totalGasto += valor;
+      else pedidosSemValor += 1;
+
+      const vistosNestePedido = new Set<string>();
+      comanda.itens.forEach(item => {
+        const chave = normalizarTexto(item.produto);
+        const atual = itens.get(chave) ?? { produto: item.produto, quantidade: 0, pedidos: 0 };
+        atual.quantidade += item.quantidade;
+        if (!vistosNestePedido.has(chave)) {
+          atual.pedidos += 1;
+          vistosNestePedido.add(chave);
+        }
+        itens.set(chave, atual);
+      });
+    });
+
+    return {
+      telefone_key,
+      nomes,
+      primeiroPedido: ordenados[ordenados.length - 1].hora_criacao_pedido,
+      ultimoPedido: ordenados[0].hora_criacao_pedido,
+      totalPedidos: ordenados.length,
+      totalGasto,
+      pedidosSemValor,
+      itensFrequentes: Array.from(itens.values())
+        .sort((a, b) => b.pedidos - a.pedidos || b.quantidade - a.quantidade)
+        .slice(0, 5),
+      enderecos,
+      pedidos: ordenados,
+    };
+  }).sort((a, b) => b.ultimoPedido.localeCompare(a.ultimoPedido));
+};
+
+export const buscarNotasClientes = () =>
+  supabase
+    .from("Clientes")
+    .select("*");
+
+export const salvarNotaCliente = (telefone_key: string, notas: string) =>
+  supabase
+    .from("Clientes")
+    .upsert({ telefone_key, notas, atualizado_em: new Date().toISOString() });
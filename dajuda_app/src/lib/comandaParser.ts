@@ -0,0 +1,323 @@
+// Parser tolerante para o texto livre do campo `comanda` gerado pelo bot do WhatsApp.
+// A ideia é nunca "perder" uma linha: tudo o que não for reconhecido vai para `naoReconhecidas`,
+// para que a UI possa mostrar ao atendente o que precisa ser lido manualmente.
+
+export type TipoEntrega = "Entrega" | "Retirada";
+
+export interface ItemComanda {
+  quantidade: number;
+  produto: string;
+  adicionais: string[];
+  observacoes: string[];
+  precoInformado?: number; // Valor escrito na própria linha do item (ex.: "- R$ 18,00"), se houver
+  linha: number;           // Índice (base 0) da linha no texto original
+}
+
+export interface CampoExtra {
+  rotulo: string;
+  valor: string;
+  linha: number;
+}
+
+export interface LinhaNaoReconhecida {
+  texto: string;
+  linha: number;
+}
+
+export interface ComandaEstruturada {
+  itens: ItemComanda[];
+  nomeCliente?: string;
+  telefone?: string;
+  endereco?: string;
+  bairro?: string;
+  complemento?: string;
+  formaPagamento?: string;
+  trocoSolicitado: boolean;
+  trocoPara?: number;
+  tipoEntrega?: TipoEntrega;
+  taxaEntregaInformada?: number;
+  totalInformado?: number;
+  observacoes: string[];       // Observações gerais do pedido (não vinculadas a um item)
+  camposExtras: CampoExtra[];  // Linhas "Chave: valor" com chave desconhecida
+  naoReconhecidas: LinhaNaoReconhecida[];
+}
+
+type CampoConhecido =
+  | "nome"
+  | "telefone"
+  | "endereco"
+  | "bairro"
+  | "complemento"
+  | "pagamento"
+  | "troco"
+  | "entrega"
+  | "observacao"
+  | "adicional"
+  | "taxa"
+  | "total"
+  | "cabecalho";
+
+// Chaves normalizadas (minúsculas, sem acentos) aceitas para cada campo
+const aliasesCampos: Record<CampoConhecido, string[]> = {
+  nome: ["nome", "cliente", "nome do cliente"],
+  telefone: ["telefone", "tel", "fone", "celular", "whatsapp", "contato"],
+  endereco: ["endereco", "end", "endereco de entrega", "local de entrega", "rua"],
+  bairro: ["bairro"],
+  complemento: ["complemento", "referencia", "ponto de referencia", "apto", "apartamento", "bloco"],
+  pagamento: ["pagamento", "forma de pagamento", "pgto", "metodo de pagamento", "meio de pagamento"],
+  troco: ["troco", "troco para", "precisa de troco"],
+  entrega: ["entrega", "tipo", "tipo de entrega", "modalidade", "retirada", "tipo de pedido"],
+  observacao: ["obs", "observacao", "observacoes", "obs do pedido"],
+  adicional: ["adicional", "adicionais", "extra", "extras", "acrescimo", "acrescimos"],
+  taxa: ["taxa", "taxa de entrega", "frete"],
+  total: ["total", "valor total", "total do pedido", "valor"],
+  cabecalho: ["pedido", "itens", "itens do pedido", "comanda", "resumo", "resumo do pedido", "produtos"],
+};
+
+const campoPorAlias = new Map<string, CampoConhecido>(
+  (Object.entries(aliasesCampos) as [CampoConhecido, string[]][]).flatMap(([campo, aliases]) =>
+    aliases.map(alias => [alias, campo] as [string, CampoConhecido])
+  )
+);
+
+// Campos que encerram a lista de itens: depois deles, "Obs:" passa a ser observação geral
+const camposDeRodape: CampoConhecido[] = ["nome", "telefone", "endereco", "bairro", "complemento", "pagamento", "troco", "entrega", "taxa", "total"];
+
+export const normalizarTexto = (texto: string): string =>
+  texto
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/\s+/g, " ")
+    .trim();
+
+// Remove a formatação do WhatsApp (*negrito*, _itálico_, ~riscado~) e emojis/marcadores do início da linha
+const limparLinha = (linha: string): string =>
+  linha
+    .replace(/[*_~`]/g, "")
+    .replace(/^[^\p{L}\p{N}+\-•·(]+/u, "")
+    .trim();
+
+// Converte valores como "R$ 1.234,56", "18,00", "18.5" ou "50 reais" em número
+export const parseValorMonetario = (texto: string): number | undefined => {
+  const match = texto.match(/(\d{1,3}(?:\.\d{3})+(?:,\d{1,2})?|\d+(?:[.,]\d{1,2})?)/);
+  if (!match) return undefined;
+  let numero = match[1];
+  if (numero.includes(",")) {
+    numero = numero.replace(/\./g, "").replace(",", ".");
+  } else if (/^\d{1,3}(\.\d{3})+$/.test(numero)) {
+    numero = numero.replace(/\./g, "");
+  }
+  const valor = Number(numero);
+  return Number.isFinite(valor) ? valor : undefined;
+};
+
+const regexPrecoNoFim = /\s*[-–=:]?\s*R\$\s*(\d[\d.,]*)\s*$/i;
+const regexItemComQuantidade = /^(?:[-•·]\s*)?(\d{1,3})\s*(?:x|un\.?|unid\.?|und\.?)?\s*[-–]?\s+(\S.*)$|^(?:[-•·]\s*)?(\d{1,3})\s*x(\S.*)$/i;
+const regexMarcador = /^[-•·]\s*(\S.*)$/;
+const regexChaveValor = /^([^:]{1,40}):\s*(.*)$/;
+const regexDecoracao = /^[\s\-=_*~.•·]*$/;
+
+const detectarTipoEntrega = (valor: string): TipoEntrega | undefined => {
+  const v = normalizarTexto(valor);
+  if (/retir|balcao|buscar|busca no local|no local/.test(v)) return "Retirada";
+  if (/entreg|delivery|motoboy|levar|^sim$/.test(v)) return "Entrega";
+  return undefined;
+};
+
+const detectarTroco = (valor: string): { solicitado: boolean; para?: number } => {
+  const v = normalizarTexto(valor);
+  if (/^(nao|n|sem troco|nao precisa|nenhum)\b/.test(v)) return { solicitado: false };
+  return { solicitado: true, para: parseValorMonetario(valor) };
+};
+
+const criarItem = (quantidade: number, textoProduto: string, linha: number): ItemComanda => {
+  let produto = textoProduto.trim();
+  let precoInformado: number | undefined;
+  const preco = produto.match(regexPrecoNoFim);
+  if (preco) {
+    precoInformado = parseValorMonetario(preco[1]);
+    produto = produto.slice(0, preco.index).trim();
+  }
+  // Adicionais escritos na mesma linha: "1x Marmita do Dia + Ovo + Bacon"
+  const [nome, ...adicionais] = produto.split(/\s+\+\s*/);
+  return {
+    quantidade: quantidade > 0 ? quantidade : 1,
+    produto: nome.replace(/[-–:]\s*$/, "").trim(),
+    adicionais: adicionais.map(a => a.trim()).filter(Boolean),
+    observacoes: [],
+    precoInformado,
+    linha,
+  };
+};
+
+export const parseComanda = (texto: string | null | undefined): ComandaEstruturada => {
+  const resultado: ComandaEstruturada = {
+    itens: [],
+    trocoSolicitado: false,
+    observacoes: [],
+    camposExtras: [],
+    naoReconhecidas: [],
+  };
+  if (!texto) return resultado;
+
+  let ultimoItem: ItemComanda | null = null;
+  let emSecaoDeItens = false;
+
+  texto.split(/\r?\n/).forEach((linhaOriginal, indice) => {
+    const indentada = /^\s+\S/.test(linhaOriginal);
+    const linha = limparLinha(linhaOriginal);
+    if (!linha || regexDecoracao.test(linha)) return;
+
+    // Adicional iniciado por "+", vinculado ao último item
+    if (linha.startsWith("+")) {
+      const adicional = linha.replace(/^\+\s*/, "").trim();
+      if (ultimoItem && adicional) {
+        ultimoItem.adicionais.push(adicional);
+      } else {
+        resultado.naoReconhecidas.push({ texto: linhaOriginal.trim(), linha: indice });
+      }
+      return;
+    }
+
+    const chaveValor = linha.match(regexChaveValor);
+    const campo = chaveValor ? campoPorAlias.get(normalizarTexto(chaveValor[1])) : undefined;
+
+    // Itens com quantidade têm prioridade, exceto quando a linha é claramente um campo conhecido
+    if (!campo) {
+      const item = linha.match(regexItemComQuantidade);
+      if (item) {
+        const quantidade = Number(item[1] ?? item[3]);
+        ultimoItem = criarItem(quantidade, item[2] ?? item[4], indice);
+        resultado.itens.push(ultimoItem);
+        emSecaoDeItens = true;
+        return;
+      }
+    }
+
+    if (chaveValor && campo) {
+      const valor = chaveValor[2].trim();
+      if (camposDeRodape.includes(campo)) {
+        emSecaoDeItens = false;
+      }
+      switch (campo) {
+        case "cabecalho":
+          emSecaoDeItens = true;
+          ultimoItem = null;
+          if (valor) {
+            // "Pedido: 1x Marmita" — o item vem na mesma linha do cabeçalho
+            const item = valor.match(regexItemComQuantidade);
+            if (item) {
+              ultimoItem = criarItem(Number(item[1] ?? item[3]), item[2] ?? item[4], indice);
+              resultado.itens.push(ultimoItem);
+            } else {
+              resultado.camposExtras.push({ rotulo: chaveValor[1].trim(), valor, linha: indice });
+            }
+          }
+          return;
+        case "nome":
+          if (valor) resultado.nomeCliente = valor;
+          return;
+        case "telefone":
+          if (valor) resultado.telefone = valor;
+          return;
+        case "endereco":
+          if (valor) resultado.endereco = valor;
+          return;
+        case "bairro":
+          if (valor) resultado.bairro = valor;
+          return;
+        case "complemento":
+          if (valor) resultado.complemento = valor;
+          return;
+        case "pagamento": {
+          if (!valor) return;
+          // "Pagamento: Dinheiro (troco para 50)"
+          const trocoNoPagamento = valor.match(/\(?\s*troco\s*(?:para|p\/)?\s*:?\s*([^)]*)\)?/i);
+          if (trocoNoPagamento) {
+            const troco = detectarTroco(trocoNoPagamento[1]);
+            resultado.trocoSolicitado = troco.solicitado;
+            resultado.trocoPara = troco.para;
+            resultado.formaPagamento = valor.slice(0, trocoNoPagamento.index).replace(/[-–,]\s*$/, "").trim() || valor;
+          } else {
+            resultado.formaPagamento = valor;
+          }
+          return;
+        }
+        case "troco": {
+          if (!valor) return;
+          const troco = detectarTroco(valor);
+          resultado.trocoSolicitado = troco.solicitado;
+          resultado.trocoPara = troco.para;
+          return;
+        }
+        case "entrega": {
+          const tipo = detectarTipoEntrega(valor || chaveValor[1]);
+          if (tipo) {
+            resultado.tipoEntrega = tipo;
+          } else if (valor) {
+            resultado.camposExtras.push({ rotulo: chaveValor[1].trim(), valor, linha: indice });
+          }
+          return;
+        }
+        case "observacao":
+          if (!valor) return;
+          if (ultimoItem && (emSecaoDeItens || indentada)) {
+            ultimoItem.observacoes.push(valor);
+          } else {
+            resultado.observacoes.push(valor);
+          }
+          return;
+        case "adicional":
+          if (!valor) return;
+          if (ultimoItem) {
+            ultimoItem.adicionais.push(...valor.split(/\s*[,;]\s*|\s+\+\s*/).filter(Boolean));
+          } else {
+            resultado.naoReconhecidas.push({ texto: linhaOriginal.trim(), linha: indice });
+          }
+          return;
+        case "taxa":
+          resultado.taxaEntregaInformada = parseValorMonetario(valor);
+          return;
+        case "total":
+          resultado.totalInformado = parseValorMonetario(valor);
+          return;
+      }
+    }
+
+    // "- Marmita do Dia" dentro da lista de itens conta como 1 unidade
+    const marcador = linha.match(regexMarcador);
+    if (marcador && emSecaoDeItens && !indentada) {
+      ultimoItem = criarItem(1, marcador[1], indice);
+      resultado.itens.push(ultimoItem);
+      return;
+    }
+
+    // Texto livre indentado logo abaixo de um item é observação daquele item
+    if (indentada && ultimoItem && emSecaoDeItens) {
+      ultimoItem.observacoes.push(marcador ? marcador[1] : linha);
+      return;
+    }
+
+    if (chaveValor && chaveValor[2].trim()) {
+      resultado.camposExtras.push({ rotulo: chaveValor[1].trim(), valor: chaveValor[2].trim(), linha: indice });
+      return;
+    }
+
+    // Linhas como "Retirada no balcão" ou "Entrega" sem chave
+    const tipoSolto = /^(retirada|entrega|delivery)\b/i.test(linha) ? detectarTipoEntrega(linha) : undefined;
+    if (tipoSolto) {
+      resultado.tipoEntrega = tipoSolto;
+      return;
+    }
+
+    resultado.naoReconhecidas.push({ texto: linhaOriginal.trim(), linha: indice });
+  });
+
+  // Um endereço informado sem modalidade explícita indica entrega
+  if (!resultado.tipoEntrega && resultado.endereco) {
+    resultado.tipoEntrega = "Entrega";
+  }
+
+  return resultado;
+};
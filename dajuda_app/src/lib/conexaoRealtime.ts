@@ -0,0 +1,170 @@
+import type { EventoRealtime } from "./sincronizacao";
+import type { RepositorioTabela, StatusAssinatura } from "./repositorios";
+
+// Canais do Realtime abertos pelo app. Quando um canal cai (erro, timeout ou fechamento que não
+// foi pedido), ele é recriado com espera crescente entre as tentativas, e a volta da rede dispara
+// uma tentativa imediata. A cada inscrição quem abriu o canal é avisado, para buscar o que perdeu.
+
+export type SituacaoCanal = "conectando" | "conectado" | "reconectando" | "offline";
+
+export interface EstadoCanal {
+  canal: string;
+  tabela: string;
+  situacao: SituacaoCanal;
+  desde: number;        // Início da situação; fora do ar, conta desde a queda (ou desde a abertura)
+  tentativas: number;   // Reinscrições desde a queda
+  ultimoErro?: string;
+}
+
+interface OpcoesCanal {
+  canal: string;
+  repositorio: Pick<RepositorioTabela<unknown>, "tabela" | "assinar">;
+  aoEvento: (evento: EventoRealtime) => void;
+  aoConectar: (reconexao: boolean) => void;
+}
+
+const ATRASO_INICIAL_MS = 1000;
+const ATRASO_MAXIMO_MS = 30000;
+
+let estados: EstadoCanal[] = [];
+const ouvintes = new Set<() => void>();
+const reconexoesImediatas = new Map<string, () => void>();
+
+const notificar = () => ouvintes.forEach(ouvinte => ouvinte());
+
+const atualizarEstado = (canal: string, parcial: Partial<EstadoCanal>) => {
+  estados = estados.map(e => (e.canal === canal ? { ...e, ...parcial } : e));
+  notificar();
+};
+
+export const obterConexoes = (): EstadoCanal[] => estados;
+
+export const assinarConexoes = (ouvinte: () => void) => {
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+};
+
+// Espera antes da próxima tentativa: 1 s, 2 s, 4 s... até 30 s, com variação de ±20% para os
+// canais não tentarem todos no mesmo instante
+export const atrasoReconexao = (tentativa: number): number => {
+  const base = Math.min(ATRASO_INICIAL_MS * 2 ** tentativa, ATRASO_MAXIMO_MS);
+  return Math.round(base * (0.8 + Math.random() * 0.4));
+};
+
+// Pior situação entre os canais abertos, para o indicador do cabeçalho
+export const situacaoGeral = (conexoes: EstadoCanal[]): SituacaoCanal | null => {
+  if (conexoes.length === 0) return null;
+  const ordem: SituacaoCanal[] = ["offline", "reconectando", "conectando", "conectado"];
+  return ordem.find(situacao => conexoes.some(c => c.situacao === situacao)) ?? "conectado";
+};
+
+// Abandona as esperas em andamento e tenta de novo agora (botão do indicador)
+export const reconectarTodos = () => reconexoesImediatas.forEach(reconectar => reconectar());
+
+// Abre o canal da tabela e o mantém aberto até a função devolvida ser chamada
+export const conectarCanal = ({ canal, repositorio, aoEvento, aoConectar }: OpcoesCanal): (() => void) => {
+  const { tabela } = repositorio;
+  let encerrarAssinatura: (() => Promise<unknown>) | null = null;
+  let remocao: Promise<unknown> = Promise.resolve();
+  let temporizador: number | undefined;
+  let tentativas = 0;
+  let jaConectou = false;
+  let encerrado = false;
+
+  estados = [
+    ...estados.filter(e => e.canal !== canal),
+    { canal, tabela, situacao: navigator.onLine ? "conectando" : "offline", desde: Date.now(), tentativas: 0 },
+  ];
+  notificar();
+
+  const inscrever = () => {
+    let atual = true;
+    const encerrar = repositorio.assinar({
+      canal,
+      aoEvento,
+      aoStatus: (status, err) => {
+        // Avisos da assinatura antiga (o CLOSED da remoção, por exemplo) não contam
+        if (encerrado || !atual) return;
+        tratarStatus(status, err);
+      },
+    });
+    encerrarAssinatura = () => {
+      atual = false;
+      return encerrar();
+    };
+  };
+
+  const tratarStatus = (status: StatusAssinatura, err?: Error) => {
+    if (status === "SUBSCRIBED") {
+      console.log(`Conectado ao canal Realtime do Supabase (${tabela})!`);
+      tentativas = 0;
+      atualizarEstado(canal, { situacao: "conectado", desde: Date.now(), tentativas: 0, ultimoErro: undefined });
+      aoConectar(jaConectou);
+      jaConectou = true;
+    } else if (status === "CHANNEL_ERROR") {
+      console.error(`Erro no canal Realtime do Supabase (${tabela}):`, err);
+      agendarReinscricao(err?.message || "Erro desconhecido");
+    } else if (status === "TIMED_OUT") {
+      console.warn(`Timeout na conexão Realtime do Supabase (${tabela}).`);
+      agendarReinscricao("Tempo de conexão esgotado");
+    } else if (status === "CLOSED") {
+      console.log(`Canal Realtime (${tabela}) fechado.`);
+      agendarReinscricao("Canal fechado");
+    }
+  };
+
+  const agendarReinscricao = (erro: string, atraso: number = atrasoReconexao(tentativas)) => {
+    if (encerrado) return;
+    const estado = estados.find(e => e.canal === canal);
+    atualizarEstado(canal, {
+      situacao: navigator.onLine ? "reconectando" : "offline",
+      tentativas,
+      ultimoErro: erro,
+      ...(estado?.situacao === "conectado" ? { desde: Date.now() } : {}),
+    });
+
+    if (encerrarAssinatura) {
+      remocao = encerrarAssinatura().catch(console.error);
+      encerrarAssinatura = null;
+    }
+    window.clearTimeout(temporizador);
+    temporizador = window.setTimeout(async () => {
+      temporizador = undefined;
+      await remocao;
+      if (encerrado) return;
+      tentativas += 1;
+      atualizarEstado(canal, { tentativas });
+      inscrever();
+    }, atraso);
+  };
+
+  const reconectarAgora = () => {
+    const estado = estados.find(e => e.canal === canal);
+    if (estado?.situacao === "conectado") return;
+    tentativas = 0;
+    agendarReinscricao(estado?.ultimoErro ?? "Reconexão manual", 0);
+  };
+
+  const handleOffline = () => {
+    const estado = estados.find(e => e.canal === canal);
+    if (estado && estado.situacao !== "conectado") atualizarEstado(canal, { situacao: "offline" });
+  };
+
+  reconexoesImediatas.set(canal, reconectarAgora);
+  window.addEventListener("online", reconectarAgora);
+  window.addEventListener("offline", handleOffline);
+  inscrever();
+
+  return () => {
+    encerrado = true;
+    window.clearTimeout(temporizador);
+    window.removeEventListener("online", reconectarAgora);
+    window.removeEventListener("offline", handleOffline);
+    reconexoesImediatas.delete(canal);
+    encerrarAssinatura?.().catch(console.error);
+    estados = estados.filter(e => e.canal !== canal);
+    notificar();
+  };
+};
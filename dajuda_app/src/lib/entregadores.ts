@@ -0,0 +1,91 @@
+import { supabase } from "../supabaseClient";
+import { dataDoPedido, inicioDoDia, somarDias, type DataFechamento } from "./fechamento";
+import { atualizarPedido, type Pedido } from "./pedidos";
+
+// Entregadores e o acerto das entregas de cada um. O envio grava quem saiu com o pedido e a
+// taxa vigente; o trigger de envio registra o horário (ver supabase/migrations).
+
+export interface Entregador {
+  id: number;
+  nome: string;
+  telefone: string | null;
+  taxa_por_entrega: number;
+  ativo: boolean;
+}
+
+export type NovoEntregador = Omit<Entregador, "id">;
+
+export interface AcertoEntregador {
+  entregador: Entregador;
+  entregas: number;
+  taxas: number;
+  pedidosNaRua: Pedido[]; // Em "Enviado" agora
+  cancelados: Pedido[]; // Saíram com ele e foram cancelados; não contam entrega nem taxa
+}
+
+export const buscarEntregadores = () =>
+  supabase
+    .from("Entregadores")
+    .select("id, nome, telefone, taxa_por_entrega, ativo")
+    .order("nome", { ascending: true });
+
+export const criarEntregador = (entregador: NovoEntregador) =>
+  supabase
+    .from("Entregadores")
+    .insert([entregador]);
+
+export const atualizarEntregador = (id: number, alteracoes: Partial<NovoEntregador>) =>
+  supabase
+    .from("Entregadores")
+    .update(alteracoes)
+    .eq("id", id);
+
+// Marca o pedido como "Enviado" com o entregador escolhido (ou sem entregador, se null)
+export const enviarPedido = (pedido: Pedido, entregador: Entregador | null) =>
+  atualizarPedido(
+    pedido,
+    {
+      status_pedido: "Enviado",
+      entregador_id: entregador?.id ?? null,
+      taxa_entregador: entregador ? Number(entregador.taxa_por_entrega) : null,
+    },
+    entregador ? `Enviado com ${entregador.nome}` : "Status: Enviado"
+  );
+
+// Pedidos enviados no dia, do painel e do arquivo do fechamento
+export const buscarEnviosDoDia = async (data: DataFechamento) => {
+  const inicio = inicioDoDia(data);
+  const fim = inicioDoDia(somarDias(data, 1));
+  const [ativos, arquivados] = await Promise.all([
+    supabase.from("Comandas").select("*").not("entregador_id", "is", null).gte("enviado_em", inicio).lt("enviado_em", fim),
+    supabase.from("Comandas_arquivo").select("*").not("entregador_id", "is", null).gte("enviado_em", inicio).lt("enviado_em", fim),
+  ]);
+  const error = ativos.error || arquivados.error;
+  return {
+    data: error ? null : [...(ativos.data as Pedido[]), ...(arquivados.data as Pedido[])],
+    error,
+  };
+};
+
+// `envios` são os pedidos enviados no dia; `pedidosNoPainel`, os pedidos ativos agora
+export const calcularAcertoEntregadores = (
+  entregadores: Entregador[],
+  envios: Pedido[],
+  pedidosNoPainel: Pedido[],
+  data: DataFechamento
+): AcertoEntregador[] =>
+  entregadores
+    .map(entregador => {
+      const doEntregador = envios.filter(p =>
+        p.entregador_id === entregador.id && p.enviado_em && dataDoPedido(p.enviado_em) === data
+      );
+      const entregues = doEntregador.filter(p => p.status_pedido !== "Cancelado");
+      return {
+        entregador,
+        entregas: entregues.length,
+        taxas: entregues.reduce((soma, p) => soma + Number(p.taxa_entregador ?? 0), 0),
+        pedidosNaRua: pedidosNoPainel.filter(p => p.entregador_id === entregador.id && p.status_pedido === "Enviado"),
+        cancelados: doEntregador.filter(p => p.status_pedido === "Cancelado"),
+      };
+    })
+    .filter(acerto => acerto.entregador.ativo || acerto.entregas > 0 || acerto.pedidosNaRua.length > 0 || acerto.cancelados.length > 0);
@@ -0,0 +1,103 @@
+import { supabase } from "../supabaseClient";
+import { salvarOperador } from "./operador";
+
+// Login da equipe pelo Supabase Auth e o papel de cada um, cadastrado em "Equipe". O banco é quem
+// garante as permissões (ver a migração equipe_papeis); aqui elas só escondem o que o papel não pode
+// fazer. No backend em memória (VITE_BACKEND=memoria) não há projeto para autenticar, e o painel
+// entra direto como admin.
+
+export type Papel = "cozinha" | "caixa" | "admin";
+
+export const nomesPapel: Record<Papel, string> = {
+  cozinha: "Cozinha",
+  caixa: "Caixa",
+  admin: "Administrador",
+};
+
+export interface PerfilEquipe {
+  user_id: string;
+  nome: string;
+  papel: Papel;
+}
+
+export type Sessao =
+  | { situacao: "carregando" }
+  | { situacao: "deslogado" }
+  | { situacao: "sem_perfil"; email: string } // Usuário do Auth ainda não cadastrado em "Equipe"
+  | { situacao: "logado"; perfil: PerfilEquipe };
+
+export interface Permissoes {
+  alterarStatus: boolean;
+  alterarPagamento: boolean;
+  lancarPedido: boolean;
+  editarComanda: boolean; // Texto da comanda e nome do cliente
+  fecharDia: boolean;
+  incluirExcluirCardapio: boolean;
+}
+
+export const permissoesDoPapel = (papel: Papel | undefined): Permissoes => ({
+  alterarStatus: papel === "cozinha" || papel === "admin",
+  alterarPagamento: papel === "caixa" || papel === "admin",
+  lancarPedido: papel === "caixa" || papel === "admin",
+  editarComanda: papel === "caixa" || papel === "admin",
+  fecharDia: papel === "caixa" || papel === "admin",
+  incluirExcluirCardapio: papel === "admin",
+});
+
+export const loginDispensado = import.meta.env.VITE_BACKEND === "memoria";
+
+const perfilLocal: PerfilEquipe = { user_id: "local", nome: "Equipe (local)", papel: "admin" };
+
+let sessao: Sessao = loginDispensado ? { situacao: "logado", perfil: perfilLocal } : { situacao: "carregando" };
+let acompanhando = false;
+const ouvintes = new Set<() => void>();
+
+const definirSessao = (nova: Sessao) => {
+  sessao = nova;
+  // O nome do perfil passa a ser o operador gravado nas alterações e no fechamento
+  if (nova.situacao === "logado") salvarOperador(nova.perfil.nome);
+  ouvintes.forEach(ouvinte => ouvinte());
+};
+
+const carregarPerfil = async (userId: string, email: string) => {
+  const { data, error } = await supabase.from("Equipe").select("user_id, nome, papel").eq("user_id", userId).maybeSingle();
+  if (error) console.error("Erro ao buscar perfil da equipe:", error);
+  definirSessao(data ? { situacao: "logado", perfil: data as PerfilEquipe } : { situacao: "sem_perfil", email });
+};
+
+const acompanharSessao = () => {
+  if (acompanhando || loginDispensado) return;
+  acompanhando = true;
+  supabase.auth.onAuthStateChange((evento, novaSessao) => {
+    if (!novaSessao) {
+      definirSessao({ situacao: "deslogado" });
+      return;
+    }
+    // A renovação do token não troca o usuário
+    if (evento === "TOKEN_REFRESHED" && sessao.situacao === "logado") return;
+    // Fora do callback: consultas do supabase-js dentro dele esperam o próprio callback terminar
+    const { id, email } = novaSessao.user;
+    setTimeout(() => carregarPerfil(id, email ?? ""), 0);
+  });
+};
+
+export const obterSessao = (): Sessao => sessao;
+
+export const assinarSessao = (ouvinte: () => void) => {
+  acompanharSessao();
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+};
+
+export const entrar = (email: string, senha: string) =>
+  supabase.auth.signInWithPassword({ email: email.trim(), password: senha });
+
+export const sair = async () => {
+  const { error } = await supabase.auth.signOut();
+  if (error) {
+    console.error("Erro ao sair:", error);
+    alert(`Falha ao sair: ${error.message}`);
+  }
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from "vitest";
+import { codificarTexto, quebrarLinhas } from "./escpos";
+
+describe("codificarTexto", () => {
+  it("codifica os acentos do português na página PC860", () => {
+    expect(codificarTexto("Feijão à moda, açaí")).toEqual([
+      0x46, 0x65, 0x69, 0x6a, 0x84, 0x6f, 0x20, 0x85, 0x20, 0x6d, 0x6f, 0x64, 0x61, 0x2c, 0x20, 0x61, 0x87, 0x61, 0xa1,
+    ]);
+    expect(codificarTexto("ÇÃÕÉ")).toEqual([0x80, 0x8e, 0x99, 0x90]);
+  });
+
+  it("troca pontuação tipográfica e tira o acento do que não está na tabela", () => {
+    expect(codificarTexto("“ok”…")).toEqual([0x22, 0x6f, 0x6b, 0x22, 0x2e, 0x2e, 0x2e]);
+    expect(codificarTexto("ë€")).toEqual([0x65, 0x3f]);
+  });
+});
+
+describe("quebrarLinhas", () => {
+  it("quebra em espaços e recua as linhas de continuação", () => {
+    expect(quebrarLinhas("   Obs: sem cebola e caprichar no feijão", 20, "     ")).toEqual([
+      "   Obs: sem cebola e",
+      "     caprichar no",
+      "     feijão",
+    ]);
+  });
+
+  it("corta palavras maiores que a linha", () => {
+    expect(quebrarLinhas("abcdefghij", 4)).toEqual(["abcd", "efgh", "ij"]);
+  });
+});
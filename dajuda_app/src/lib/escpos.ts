@@ -0,0 +1,147 @@
+// Gerador mínimo de comandos ESC/POS para impressoras térmicas (Epson e compatíveis).
+// Puro e determinístico: recebe texto/comandos e devolve bytes, sem acesso a DOM ou relógio.
+
+export type LarguraPapel = 58 | 80;
+
+// Colunas na fonte A (12x24) para cada largura de papel
+export const colunasPorLargura: Record<LarguraPapel, number> = {
+  58: 32,
+  80: 48,
+};
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+// Página de código PC860 (Português), selecionada com ESC t 3
+const CODEPAGE_PC860 = 3;
+const tabelaPc860: Record<string, number> = {
+  "Ç": 0x80, "ü": 0x81, "é": 0x82, "â": 0x83, "ã": 0x84, "à": 0x85, "Á": 0x86, "ç": 0x87,
+  "ê": 0x88, "Ê": 0x89, "è": 0x8a, "Í": 0x8b, "Ô": 0x8c, "ì": 0x8d, "Ã": 0x8e, "Â": 0x8f,
+  "É": 0x90, "À": 0x91, "È": 0x92, "ô": 0x93, "õ": 0x94, "ò": 0x95, "Ú": 0x96, "ù": 0x97,
+  "Ì": 0x98, "Õ": 0x99, "Ü": 0x9a, "Ù": 0x9d, "Ó": 0x9f, "á": 0xa0, "í": 0xa1, "ó": 0xa2,
+  "ú": 0xa3, "ñ": 0xa4, "Ñ": 0xa5, "ª": 0xa6, "º": 0xa7, "Ò": 0xa9,
+};
+
+// Pontuação tipográfica comum em mensagens do WhatsApp, trocada pelo equivalente ASCII
+const substituicoesAscii: Record<string, string> = {
+  "‘": "'", "’": "'", "“": "\"", "”": "\"", "–": "-", "—": "-", "…": "...", "\u00a0": " ",
+};
+
+// Converte texto para bytes PC860; caracteres fora da tabela perdem o acento ou viram "?"
+export const codificarTexto = (texto: string): number[] => {
+  const bytes: number[] = [];
+  for (const original of texto) {
+    const char = substituicoesAscii[original] ?? original;
+    if (char.length > 1) {
+      bytes.push(...codificarTexto(char));
+      continue;
+    }
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else if (tabelaPc860[char] !== undefined) {
+      bytes.push(tabelaPc860[char]);
+    } else {
+      const semAcento = char.normalize("NFD").replace(/[\u0300-\u036f]/g, "");
+      const base = semAcento.charCodeAt(0);
+      bytes.push(semAcento.length > 0 && base >= 0x20 && base < 0x7f ? base : 0x3f);
+    }
+  }
+  return bytes;
+};
+
+// Quebra o texto em linhas de no máximo `colunas` caracteres, preferindo quebrar em espaços.
+// Os espaços iniciais do texto são mantidos e as linhas de continuação recebem o `recuo` informado.
+export const quebrarLinhas = (texto: string, colunas: number, recuo: string = ""): string[] => {
+  const largura = Math.max(recuo.length + 1, colunas);
+  const linhas: string[] = [];
+  const recuoInicial = texto.match(/^ */)?.[0] ?? "";
+  let atual = "";
+  for (const palavra of texto.split(/\s+/).filter(Boolean)) {
+    if (atual === "") {
+      atual = recuoInicial + palavra;
+    } else if (atual.length + 1 + palavra.length <= largura) {
+      atual += " " + palavra;
+    } else {
+      linhas.push(atual);
+      atual = recuo + palavra;
+    }
+    while (atual.length > largura) {
+      linhas.push(atual.slice(0, largura));
+      atual = recuo + atual.slice(largura);
+    }
+  }
+  if (atual !== "" || linhas.length === 0) linhas.push(atual);
+  return linhas;
+};
+
+export type Alinhamento = "esquerda" | "centro" | "direita";
+
+export interface EscPosBuilder {
+  texto: (texto: string) => EscPosBuilder;
+  linha: (texto?: string) => EscPosBuilder;
+  paragrafo: (texto: string, recuo?: string) => EscPosBuilder;
+  colunas: (esquerda: string, direita: string) => EscPosBuilder;
+  separador: (char?: string) => EscPosBuilder;
+  alinhar: (alinhamento: Alinhamento) => EscPosBuilder;
+  negrito: (ativo: boolean) => EscPosBuilder;
+  tamanho: (largura: 1 | 2, altura: 1 | 2) => EscPosBuilder;
+  avancar: (linhas: number) => EscPosBuilder;
+  cortar: () => EscPosBuilder;
+  bytes: () => Uint8Array;
+}
+
+export const criarEscPos = (larguraPapel: LarguraPapel): EscPosBuilder => {
+  const buffer: number[] = [ESC, 0x40, ESC, 0x74, CODEPAGE_PC860]; // ESC @ (reset) + ESC t (página de código)
+  let fatorLargura = 1;
+  const colunasAtuais = () => Math.floor(colunasPorLargura[larguraPapel] / fatorLargura);
+
+  const builder: EscPosBuilder = {
+    texto: (texto) => {
+      buffer.push(...codificarTexto(texto));
+      return builder;
+    },
+    linha: (texto = "") => {
+      buffer.push(...codificarTexto(texto), LF);
+      return builder;
+    },
+    paragrafo: (texto, recuo = "") => {
+      quebrarLinhas(texto, colunasAtuais(), recuo).forEach(l => builder.linha(l));
+      return builder;
+    },
+    colunas: (esquerda, direita) => {
+      const largura = colunasAtuais();
+      const espaco = largura - esquerda.length - direita.length;
+      if (espaco >= 1) {
+        return builder.linha(esquerda + " ".repeat(espaco) + direita);
+      }
+      builder.paragrafo(esquerda);
+      return builder.linha(" ".repeat(Math.max(0, largura - direita.length)) + direita);
+    },
+    separador: (char = "-") => builder.linha(char.repeat(colunasAtuais())),
+    alinhar: (alinhamento) => {
+      buffer.push(ESC, 0x61, alinhamento === "centro" ? 1 : alinhamento === "direita" ? 2 : 0);
+      return builder;
+    },
+    negrito: (ativo) => {
+      buffer.push(ESC, 0x45, ativo ? 1 : 0);
+      return builder;
+    },
+    tamanho: (largura, altura) => {
+      fatorLargura = largura;
+      buffer.push(GS, 0x21, ((largura - 1) << 4) | (altura - 1));
+      return builder;
+    },
+    avancar: (linhas) => {
+      buffer.push(ESC, 0x64, Math.max(0, Math.min(255, linhas)));
+      return builder;
+    },
+    cortar: () => {
+      buffer.push(GS, 0x56, 0x42, 0x00); // GS V 66 0: avança até a guilhotina e corta parcialmente
+      return builder;
+    },
+    bytes: () => Uint8Array.from(buffer),
+  };
+  return builder;
+};
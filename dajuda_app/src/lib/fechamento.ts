@@ -0,0 +1,112 @@
+import { supabase } from "../supabaseClient";
+import type { Pedido, StatusPagamento, StatusPedido, StatusReembolso } from "./pedidos";
+
+// Fechamento do dia. A função `fechar_dia` do banco arquiva os pedidos concluídos em
+// "Comandas_arquivo", lista o que ficou aberto ou sem pagamento e grava o resumo em "Fechamentos".
+// Aqui ficam os tipos, as consultas e a prévia calculada no navegador antes de fechar.
+
+// Datas no formato AAAA-MM-DD, sempre no fuso de São Paulo (o mesmo usado pelo banco)
+export type DataFechamento = string;
+
+export interface ResumoFechamento {
+  total_pedidos: number;
+  pagos: number;
+  pendentes_pagamento: number;
+  cancelados?: number; // Ausente nos fechamentos anteriores ao cancelamento de pedidos
+  por_status: Partial<Record<StatusPedido, number>>;
+}
+
+export interface PendenciaFechamento {
+  id: number;
+  nome_cliente: string;
+  telefone_key: string;
+  status_pedido: StatusPedido;
+  pagamento: StatusPagamento;
+  reembolso?: StatusReembolso | null;
+  hora_criacao_pedido: string;
+}
+
+export interface Fechamento {
+  data: DataFechamento;
+  fechado_em: string;
+  fechado_por: string | null;
+  resumo: ResumoFechamento;
+  pendencias: PendenciaFechamento[];
+  arquivados: number;
+}
+
+export interface PedidoArquivado extends Pedido {
+  arquivado_em: string;
+  fechamento_data: DataFechamento | null;
+}
+
+export const dataDoPedido = (timestamp: string): DataFechamento =>
+  new Date(timestamp).toLocaleDateString("en-CA", { timeZone: "America/Sao_Paulo" });
+
+export const dataDeHoje = (): DataFechamento => dataDoPedido(new Date().toISOString());
+
+// São Paulo não tem horário de verão desde 2019, então o deslocamento é fixo
+export const inicioDoDia = (data: DataFechamento): string => new Date(`${data}T00:00:00-03:00`).toISOString();
+
+export const somarDias = (data: DataFechamento, dias: number): DataFechamento => {
+  const [ano, mes, dia] = data.split("-").map(Number);
+  return new Date(Date.UTC(ano, mes - 1, dia + dias)).toISOString().slice(0, 10);
+};
+
+// DD/MM/AAAA sem passar por Date, para não deslocar o dia por causa do fuso
+export const formatarDataFechamento = (data: DataFechamento): string => {
+  const [ano, mes, dia] = data.split("-");
+  return ano && mes && dia ? `${dia}/${mes}/${ano}` : data;
+};
+
+// Pedido que será arquivado no fechamento: entregue e pago, ou cancelado sem reembolso pendente
+export const pedidoConcluido = (pedido: Pick<Pedido, "status_pedido" | "pagamento" | "reembolso">): boolean =>
+  (pedido.status_pedido === "Entregue" && pedido.pagamento === "Pago") ||
+  (pedido.status_pedido === "Cancelado" && pedido.reembolso !== "Pendente");
+
+// Mesmo cálculo da função do banco, sobre os pedidos ainda no painel
+export const previaFechamento = (pedidos: Pedido[], data: DataFechamento): Fechamento => {
+  const doDia = pedidos.filter(p => dataDoPedido(p.hora_criacao_pedido) === data);
+  const porStatus: Partial<Record<StatusPedido, number>> = {};
+  doDia.forEach(p => {
+    porStatus[p.status_pedido] = (porStatus[p.status_pedido] ?? 0) + 1;
+  });
+  const validos = doDia.filter(p => p.status_pedido !== "Cancelado");
+  const ateOFimDoDia = pedidos.filter(p => dataDoPedido(p.hora_criacao_pedido) <= data);
+
+  return {
+    data,
+    fechado_em: "",
+    fechado_por: null,
+    resumo: {
+      total_pedidos: doDia.length,
+      pagos: validos.filter(p => p.pagamento === "Pago").length,
+      pendentes_pagamento: validos.filter(p => p.pagamento !== "Pago").length,
+      cancelados: doDia.length - validos.length,
+      por_status: porStatus,
+    },
+    pendencias: ateOFimDoDia
+      .filter(p => !pedidoConcluido(p))
+      .sort((a, b) => a.hora_criacao_pedido.localeCompare(b.hora_criacao_pedido))
+      .map(({ id, nome_cliente, telefone_key, status_pedido, pagamento, reembolso, hora_criacao_pedido }) => ({
+        id, nome_cliente, telefone_key, status_pedido, pagamento, reembolso, hora_criacao_pedido,
+      })),
+    arquivados: ateOFimDoDia.filter(pedidoConcluido).length,
+  };
+};
+
+export const fecharDia = (data: DataFechamento, fechadoPor: string) =>
+  supabase.rpc("fechar_dia", { p_data: data, p_fechado_por: fechadoPor || null });
+
+export const buscarFechamento = (data: DataFechamento) =>
+  supabase.from("Fechamentos").select("*").eq("data", data).maybeSingle();
+
+export const buscarDatasFechadas = () =>
+  supabase.from("Fechamentos").select("data").order("data", { ascending: false }).limit(60);
+
+export const buscarPedidosArquivados = (data: DataFechamento) =>
+  supabase
+    .from("Comandas_arquivo")
+    .select("*")
+    .eq("fechamento_data", data)
+    .order("hora_criacao_pedido", { ascending: true });
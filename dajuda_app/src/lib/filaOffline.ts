@@ -0,0 +1,239 @@
+import { backendDados, repositorios, type Resultado } from "./repositorios";
+
+// Fila de alterações feitas sem conexão (Wi-Fi instável da cozinha). Mudanças de status,
+// pagamento e cardápio que falham por falta de rede são guardadas no IndexedDB e reenviadas na
+// ordem em que foram feitas quando a conexão volta. Cada alteração guarda os valores que a linha
+// tinha quando foi feita; se no servidor eles mudaram nesse meio tempo, a alteração vira um
+// conflito e espera alguém decidir entre aplicar mesmo assim ou descartar.
+
+export type TabelaFila = "Comandas" | "Cárdapio";
+
+export interface MutacaoPendente {
+  seq: number;                          // Ordem de criação (chave no IndexedDB)
+  tabela: TabelaFila;
+  registroId: number;
+  alteracoes: Record<string, unknown>;
+  esperado: Record<string, unknown>;    // Valores das mesmas colunas quando a alteração foi feita
+  descricao: string;                    // Ex.: "Status: Pronto"
+  criadaEm: string;
+  situacao: "pendente" | "conflito";
+  valoresServidor?: Record<string, unknown> | null; // No conflito; null quando a linha foi removida
+  erro?: string;                        // Recusa do servidor (ex.: regra do banco)
+}
+
+export type NovaMutacao = Omit<MutacaoPendente, "seq" | "criadaEm" | "situacao" | "valoresServidor" | "erro">;
+
+// Separada no backend em memória, para alterações de treino nunca serem reenviadas ao banco real
+const NOME_BANCO = backendDados === "memoria" ? "dajuda-offline-memoria" : "dajuda-offline";
+const STORE = "mutacoes";
+const ATRASO_MAXIMO_MS = 60000;
+
+let fila: MutacaoPendente[] = [];
+let carregamento: Promise<void> | null = null;
+let reproduzindo = false;
+let atrasoReproducao = 5000;
+let temporizador: number | undefined;
+const ouvintes = new Set<() => void>();
+
+// --- IndexedDB ---
+
+const abrirBanco = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const requisicao = indexedDB.open(NOME_BANCO, 1);
+    requisicao.onupgradeneeded = () => {
+      requisicao.result.createObjectStore(STORE, { keyPath: "seq" });
+    };
+    requisicao.onsuccess = () => resolve(requisicao.result);
+    requisicao.onerror = () => reject(requisicao.error);
+  });
+
+const usarStore = async <T,>(modo: IDBTransactionMode, operar: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const banco = await abrirBanco();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const requisicao = operar(banco.transaction(STORE, modo).objectStore(STORE));
+      requisicao.onsuccess = () => resolve(requisicao.result);
+      requisicao.onerror = () => reject(requisicao.error);
+    });
+  } finally {
+    banco.close();
+  }
+};
+
+// --- Estado observável (ver hooks/use-fila-offline) ---
+
+const notificar = () => ouvintes.forEach(ouvinte => ouvinte());
+
+const definirFila = (proxima: MutacaoPendente[]) => {
+  fila = proxima;
+  notificar();
+};
+
+export const obterFila = (): MutacaoPendente[] => fila;
+
+export const assinarFila = (ouvinte: () => void) => {
+  ouvintes.add(ouvinte);
+  return () => {
+    ouvintes.delete(ouvinte);
+  };
+};
+
+// Carrega o que ficou de sessões anteriores e começa a ouvir a volta da conexão
+export const iniciarFila = (): Promise<void> => {
+  if (!carregamento) {
+    carregamento = usarStore<MutacaoPendente[]>("readonly", store => store.getAll() as IDBRequest<MutacaoPendente[]>)
+      .then(salvas => {
+        definirFila([...salvas, ...fila].sort((a, b) => a.seq - b.seq));
+        window.addEventListener("online", () => reproduzirFila());
+        if (fila.length > 0) agendarReproducao(0);
+      })
+      .catch(e => console.error("Erro ao carregar a fila offline:", e));
+  }
+  return carregamento;
+};
+
+const salvarMutacao = (mutacao: MutacaoPendente) =>
+  usarStore("readwrite", store => store.put(mutacao)).catch(e => console.error("Erro ao gravar a fila offline:", e));
+
+const removerMutacao = async (seq: number) => {
+  definirFila(fila.filter(m => m.seq !== seq));
+  await usarStore("readwrite", store => store.delete(seq)).catch(e => console.error("Erro ao gravar a fila offline:", e));
+};
+
+const marcarConflito = async (mutacao: MutacaoPendente, detalhes: Pick<MutacaoPendente, "valoresServidor" | "erro">) => {
+  const atualizada: MutacaoPendente = { ...mutacao, situacao: "conflito", ...detalhes };
+  definirFila(fila.map(m => (m.seq === mutacao.seq ? atualizada : m)));
+  await salvarMutacao(atualizada);
+};
+
+// --- Execução ---
+
+// Falha de rede: o fetch nem chegou ao servidor (status 0, como no supabase-js)
+const erroDeConexao = (resultado: Resultado<unknown>): boolean =>
+  !!resultado.error && (resultado.status === 0 || !navigator.onLine);
+
+export const mutacoesDoRegistro = (tabela: TabelaFila, registroId: number, mutacoes: MutacaoPendente[] = fila) =>
+  mutacoes.filter(m => m.tabela === tabela && m.registroId === registroId);
+
+// Com a conexão ok e nada na fila para a mesma linha, executa direto; senão, enfileira para manter
+// a ordem das alterações daquela linha
+export const executarOuEnfileirar = async (
+  mutacao: NovaMutacao,
+  executar: () => PromiseLike<Resultado<unknown>>
+): Promise<{ error: { message: string } | null; enfileirada: boolean }> => {
+  await iniciarFila();
+  if (navigator.onLine && mutacoesDoRegistro(mutacao.tabela, mutacao.registroId).length === 0) {
+    const resultado = await executar();
+    if (!erroDeConexao(resultado)) return { error: resultado.error, enfileirada: false };
+  }
+
+  const seq = Math.max(Date.now(), (fila[fila.length - 1]?.seq ?? 0) + 1);
+  const nova: MutacaoPendente = { ...mutacao, seq, criadaEm: new Date().toISOString(), situacao: "pendente" };
+  definirFila([...fila, nova]);
+  await salvarMutacao(nova);
+  agendarReproducao(atrasoReproducao);
+  return { error: null, enfileirada: true };
+};
+
+const agendarReproducao = (atraso: number) => {
+  window.clearTimeout(temporizador);
+  temporizador = window.setTimeout(() => reproduzirFila(), atraso);
+};
+
+// null e "" são o mesmo "sem valor"; números podem voltar como texto dependendo da coluna
+const mesmoValor = (a: unknown, b: unknown): boolean => {
+  const normalizar = (v: unknown) => (v === undefined || v === "" ? null : v);
+  const x = normalizar(a);
+  const y = normalizar(b);
+  if (typeof x === "number" || typeof y === "number") return Number(x) === Number(y);
+  return x === y;
+};
+
+const repositorioDaTabela = (tabela: TabelaFila) => (tabela === "Comandas" ? repositorios.pedidos : repositorios.cardapio);
+
+// Sem `condicoes` (aplicar mesmo assim) grava por cima do que estiver no servidor
+const aplicarNoServidor = (mutacao: MutacaoPendente, condicoes: Record<string, unknown> = {}) =>
+  repositorioDaTabela(mutacao.tabela).atualizar(mutacao.registroId, mutacao.alteracoes, condicoes);
+
+// Reenvia as pendentes em ordem. Para na primeira falha de rede e tenta de novo mais tarde,
+// com intervalo crescente. Um conflito bloqueia só as alterações seguintes da mesma linha.
+export const reproduzirFila = async () => {
+  await iniciarFila();
+  if (reproduzindo || fila.length === 0) return;
+  reproduzindo = true;
+  let semConexao = false;
+
+  try {
+    for (const mutacao of [...fila]) {
+      if (mutacao.situacao !== "pendente") continue;
+      const anteriores = mutacoesDoRegistro(mutacao.tabela, mutacao.registroId).filter(m => m.seq < mutacao.seq);
+      if (anteriores.length > 0) continue;
+
+      const colunas = Object.keys(mutacao.esperado);
+      let condicoes: Record<string, unknown> = {};
+      if (colunas.length > 0) {
+        const atual = await repositorioDaTabela(mutacao.tabela).buscarColunas(mutacao.registroId, colunas);
+        if (erroDeConexao(atual)) {
+          semConexao = true;
+          break;
+        }
+        const linha = atual.data;
+        if (!atual.error && (!linha || colunas.some(c => !mesmoValor(linha[c], mutacao.esperado[c])))) {
+          await marcarConflito(mutacao, { valoresServidor: linha });
+          continue;
+        }
+        // A gravação só acontece se a linha ainda tiver os valores conferidos agora, como o banco
+        // os devolveu ("" e null, número e texto já foram equiparados acima). Alguém que altere a
+        // linha entre a leitura e a gravação faz o repositório devolver 409, tratado como conflito.
+        if (linha) condicoes = Object.fromEntries(colunas.map(c => [c, linha[c] ?? null]));
+      }
+
+      const resultado = await aplicarNoServidor(mutacao, condicoes);
+      if (erroDeConexao(resultado)) {
+        semConexao = true;
+        break;
+      }
+      if (resultado.status === 409) {
+        const atual = colunas.length > 0 ? await repositorioDaTabela(mutacao.tabela).buscarColunas(mutacao.registroId, colunas) : null;
+        await marcarConflito(mutacao, atual && !atual.error ? { valoresServidor: atual.data } : { erro: resultado.error?.message });
+      } else if (resultado.error) {
+        console.error("Alteração da fila offline recusada pelo servidor:", resultado.error);
+        await marcarConflito(mutacao, { erro: resultado.error.message });
+      } else {
+        await removerMutacao(mutacao.seq);
+      }
+    }
+  } finally {
+    reproduzindo = false;
+  }
+
+  if (semConexao) {
+    atrasoReproducao = Math.min(atrasoReproducao * 2, ATRASO_MAXIMO_MS);
+    agendarReproducao(atrasoReproducao);
+  } else {
+    atrasoReproducao = 5000;
+  }
+};
+
+export const aplicarConflitoMesmoAssim = async (mutacao: MutacaoPendente) => {
+  const resultado = await aplicarNoServidor(mutacao);
+  if (!resultado.error) {
+    await removerMutacao(mutacao.seq);
+    reproduzirFila();
+  }
+  return resultado;
+};
+
+export const descartarMutacao = async (mutacao: MutacaoPendente) => {
+  await removerMutacao(mutacao.seq);
+  reproduzirFila();
+};
+
+// Mostra as alterações ainda não confirmadas por cima das linhas vindas do servidor
+export const aplicarPendencias = <T extends { id: number }>(linhas: T[], tabela: TabelaFila, mutacoes: MutacaoPendente[]): T[] => {
+  const pendentes = mutacoes.filter(m => m.tabela === tabela && m.situacao === "pendente");
+  if (pendentes.length === 0) return linhas;
+  return linhas.map(linha => pendentes
+    .filter(m => m.registroId === linha.id)
+    .reduce<T>((atual, m) => ({ ...atual, ...m.alteracoes }), linha));
+};
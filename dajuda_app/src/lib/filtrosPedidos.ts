@@ -0,0 +1,76 @@
+import { normalizarTexto } from "./comandaParser";
+import { pagamentoOptions, todosStatus, type Pedido, type StatusPagamento, type StatusPedido } from "./pedidos";
+
+// Filtros do painel de pedidos. Ficam na URL (?status=...&pagamento=...&de=...&ate=...&q=...)
+// para que cada tela (caixa, cozinha) mantenha a sua visão ao recarregar ou compartilhar o link.
+
+export interface FiltrosPedidos {
+  status: StatusPedido[];        // Vazio = todos
+  pagamento: StatusPagamento[];  // Vazio = todos
+  de: string;                    // datetime-local (horário local), vazio = sem limite
+  ate: string;
+  busca: string;
+}
+
+export const filtrosVazios: FiltrosPedidos = {
+  status: [],
+  pagamento: [],
+  de: "",
+  ate: "",
+  busca: "",
+};
+
+export const filtrosAtivos = (filtros: FiltrosPedidos): boolean =>
+  filtros.status.length > 0 || filtros.pagamento.length > 0 || !!filtros.de || !!filtros.ate || !!filtros.busca.trim();
+
+const lerLista = <T extends string>(valor: string | null, permitidos: T[]): T[] =>
+  (valor ?? "").split(",").filter((v): v is T => (permitidos as string[]).includes(v));
+
+export const lerFiltrosDaUrl = (search: string): FiltrosPedidos => {
+  const params = new URLSearchParams(search);
+  return {
+    status: lerLista(params.get("status"), todosStatus),
+    pagamento: lerLista(params.get("pagamento"), pagamentoOptions),
+    de: params.get("de") ?? "",
+    ate: params.get("ate") ?? "",
+    busca: params.get("q") ?? "",
+  };
+};
+
+// Devolve a query string com os filtros aplicados, preservando parâmetros que não são filtros
+export const escreverFiltrosNaUrl = (search: string, filtros: FiltrosPedidos): string => {
+  const params = new URLSearchParams(search);
+  const definir = (chave: string, valor: string) => (valor ? params.set(chave, valor) : params.delete(chave));
+  definir("status", filtros.status.join(","));
+  definir("pagamento", filtros.pagamento.join(","));
+  definir("de", filtros.de);
+  definir("ate", filtros.ate);
+  definir("q", filtros.busca.trim());
+  const query = params.toString();
+  return query ? `?${query}` : "";
+};
+
+export const pedidoAtendeFiltros = (pedido: Pedido, filtros: FiltrosPedidos): boolean => {
+  // Cancelados saem das visões ativas e só aparecem quando filtrados explicitamente
+  if (pedido.status_pedido === "Cancelado" && !filtros.status.includes("Cancelado")) return false;
+  if (filtros.status.length > 0 && !filtros.status.includes(pedido.status_pedido)) return false;
+  if (filtros.pagamento.length > 0 && !filtros.pagamento.includes(pedido.pagamento)) return false;
+
+  const criacao = new Date(pedido.hora_criacao_pedido).getTime();
+  if (filtros.de && criacao < new Date(filtros.de).getTime()) return false;
+  if (filtros.ate && criacao > new Date(filtros.ate).getTime()) return false;
+
+  const termo = normalizarTexto(filtros.busca);
+  if (termo) {
+    const digitos = termo.replace(/\D/g, "");
+    const encontrouTexto = [pedido.nome_cliente, pedido.telefone_key, pedido.comanda, String(pedido.id)]
+      .some(campo => normalizarTexto(campo ?? "").includes(termo));
+    // Telefones costumam ser digitados sem a formatação usada no cadastro
+    const encontrouTelefone = digitos.length >= 3 && (pedido.telefone_key ?? "").replace(/\D/g, "").includes(digitos);
+    if (!encontrouTexto && !encontrouTelefone) return false;
+  }
+  return true;
+};
+
+export const filtrarPedidos = (pedidos: Pedido[], filtros: FiltrosPedidos): Pedido[] =>
+  pedidos.filter(p => pedidoAtendeFiltros(p, filtros));
@@ -0,0 +1,36 @@
+// Função para formatar o timestamp para HH:MM:SS no fuso de São Paulo
+export const formatHoraPedido = (timestamp: string): string => {
+  try {
+    const date = new Date(timestamp);
+    return date.toLocaleTimeString("pt-BR", { 
+      timeZone: "America/Sao_Paulo",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+    });
+  } catch (e) {
+    console.error("Erro ao formatar hora do pedido:", e);
+    return "Hora inválida";
+  }
+};
+
+// HH:MM no fuso de São Paulo
+export const formatarHoraMinuto = (date: Date): string =>
+  date.toLocaleTimeString("pt-BR", { timeZone: "America/Sao_Paulo", hour: "2-digit", minute: "2-digit" });
+
+export const formatarMoeda = (valor: number): string =>
+  valor.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+
+// Data e hora (DD/MM/AAAA HH:MM) no fuso de São Paulo
+export const formatDataHoraPedido = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return "Data inválida";
+  return date.toLocaleString("pt-BR", {
+    timeZone: "America/Sao_Paulo",
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+};
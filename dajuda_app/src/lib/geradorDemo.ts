@@ -0,0 +1,171 @@
+import { repositorios, type ItemCardapioBanco, type NovoPedido } from "./repositorios";
+import { repositoriosSupabase } from "./repositorioSupabase";
+import { dadosExemplo } from "./repositorioMemoria";
+import { itemDisponivel, precoVigente } from "./precos";
+import { parseValorMonetario } from "./comandaParser";
+import type { ConfigGeradorDemo } from "./modoDemo";
+import type { Pedido } from "./pedidos";
+
+// Movimento simulado do modo demonstração: pedidos novos no formato de texto do bot do WhatsApp,
+// montados com os itens do cardápio, e de vez em quando um cliente pagando pelo Pix ou alterando
+// um pedido que ainda não saiu. Tudo vai para o backend em memória.
+
+type Sorteio = () => number; // Entre 0 e 1, como Math.random
+
+const nomes = ["Ana", "Bruno", "Carla", "Diego", "Eduarda", "Felipe", "Gabriela", "Henrique", "Isabela", "João", "Larissa", "Marcos", "Natália", "Paulo", "Rafaela", "Tiago"];
+const ruas = ["Rua das Flores", "Av. Brasil", "Rua São João", "Rua da Paz", "Av. Paulista", "Rua XV de Novembro"];
+const bairros = ["Centro", "Vila Nova", "Jardim América", "Santa Cecília", "Bela Vista"];
+const formasPagamento = ["Pix", "Dinheiro", "Cartão na entrega"];
+const observacoes = ["sem cebola", "caprichar no feijão", "sem salada", "carne bem passada", "mandar talheres"];
+const TAXA_ENTREGA = 5;
+const OPERADOR_CLIENTE = "Cliente (demonstração)";
+
+const sortear = <T,>(lista: T[], aleatorio: Sorteio): T => lista[Math.floor(aleatorio() * lista.length)];
+
+const formatarValor = (valor: number): string => `R$ ${valor.toFixed(2).replace(".", ",")}`;
+
+const itensPrincipais = (cardapio: ItemCardapioBanco[]) =>
+  cardapio.filter(i => i.nome_produto && itemDisponivel(i) && i.categoria !== "Adicional");
+
+export const gerarPedidoDemo = (cardapio: ItemCardapioBanco[], aleatorio: Sorteio = Math.random): NovoPedido | null => {
+  const principais = itensPrincipais(cardapio);
+  const adicionais = cardapio.filter(i => i.nome_produto && itemDisponivel(i) && i.categoria === "Adicional");
+  if (principais.length === 0) return null;
+
+  const linhas: string[] = ["*Pedido:*"];
+  let total: number | null = 0;
+  const quantidadeLinhas = 1 + Math.floor(aleatorio() * 3);
+  for (let i = 0; i < quantidadeLinhas; i++) {
+    const item = sortear(principais, aleatorio);
+    const adicional = adicionais.length > 0 && aleatorio() < 0.25 ? sortear(adicionais, aleatorio) : undefined;
+    const quantidade = aleatorio() < 0.75 ? 1 : 2;
+    const precoItem = precoVigente(item);
+    const precoAdicional = adicional ? precoVigente(adicional) : 0;
+    const subtotal = precoItem === undefined || precoAdicional === undefined ? null : (precoItem + precoAdicional) * quantidade;
+    linhas.push(`${quantidade}x ${item.nome_produto}${adicional ? ` + ${adicional.nome_produto}` : ""}${subtotal !== null ? ` - ${formatarValor(subtotal)}` : ""}`);
+    if (aleatorio() < 0.2) linhas.push(`   Obs: ${sortear(observacoes, aleatorio)}`);
+    total = total === null || subtotal === null ? null : total + subtotal;
+  }
+
+  const nome = sortear(nomes, aleatorio);
+  const entrega = aleatorio() < 0.6;
+  linhas.push("", `*Nome:* ${nome}`, `*Entrega:* ${entrega ? "Entrega" : "Retirada"}`);
+  if (entrega) {
+    linhas.push(`*Endereço:* ${sortear(ruas, aleatorio)}, ${10 + Math.floor(aleatorio() * 990)}`, `*Bairro:* ${sortear(bairros, aleatorio)}`);
+  }
+  linhas.push(`*Pagamento:* ${sortear(formasPagamento, aleatorio)}`);
+  if (entrega) {
+    linhas.push(`*Taxa de entrega:* ${formatarValor(TAXA_ENTREGA)}`);
+    if (total !== null) total += TAXA_ENTREGA;
+  }
+  if (total !== null) linhas.push(`*Total:* ${formatarValor(total)}`);
+
+  return {
+    comanda: linhas.join("\n"),
+    telefone_key: `55119${String(Math.floor(aleatorio() * 1e8)).padStart(8, "0")}`,
+    nome_cliente: nome,
+    status_pedido: "Aguardando",
+    pagamento: "Aguardando pagamento",
+    hora_criacao_pedido: new Date().toISOString(),
+  };
+};
+
+// Cliente pedindo mais um item: entra no fim da lista e o total é refeito
+export const acrescentarItemDemo = (comanda: string, cardapio: ItemCardapioBanco[], aleatorio: Sorteio = Math.random): string => {
+  const principais = itensPrincipais(cardapio);
+  if (principais.length === 0) return comanda;
+  const item = sortear(principais, aleatorio);
+  const preco = precoVigente(item);
+  const linhas = comanda.split("\n");
+  const fimItens = linhas.indexOf("");
+  linhas.splice(fimItens === -1 ? linhas.length : fimItens, 0, `1x ${item.nome_produto}${preco !== undefined ? ` - ${formatarValor(preco)}` : ""}`);
+  return linhas
+    .map(linha => {
+      const total = linha.match(/^\*Total:\*\s*(.*)$/);
+      const valor = total && parseValorMonetario(total[1]);
+      return typeof valor === "number" && preco !== undefined ? `*Total:* ${formatarValor(valor + preco)}` : linha;
+    })
+    .join("\n");
+};
+
+let copiaCardapio: Promise<void> | null = null;
+
+// Copia o cardápio real (só leitura) para a memória, uma vez por carga da página; sem acesso ao
+// banco, usa o cardápio de exemplo
+export const carregarCardapioDemo = (): Promise<void> => {
+  if (!copiaCardapio) {
+    copiaCardapio = (async () => {
+      const { data, error } = await repositoriosSupabase.cardapio.listar();
+      if (error) console.error("Erro ao copiar o cardápio para a demonstração:", error);
+      const itens = data && data.length > 0 ? data : dadosExemplo().cardapio;
+      await Promise.all(itens.map(item => repositorios.cardapio.criar(item)));
+    })();
+  }
+  return copiaCardapio;
+};
+
+export const gerarPedidoDemoAgora = async () => {
+  await carregarCardapioDemo();
+  const { data: cardapio } = await repositorios.cardapio.listar();
+  const pedido = gerarPedidoDemo(cardapio ?? []);
+  if (pedido) await repositorios.pedidos.criar(pedido);
+};
+
+const simularCliente = async (config: ConfigGeradorDemo) => {
+  const { data: pedidos } = await repositorios.pedidos.listar();
+  const acoes: (() => Promise<unknown>)[] = [];
+  (pedidos ?? []).forEach((pedido: Pedido) => {
+    if (pedido.status_pedido === "Cancelado" || pedido.status_pedido === "Entregue") return;
+    if (config.pagamentos && pedido.pagamento === "Aguardando pagamento") {
+      acoes.push(() => repositorios.pedidos.atualizar(pedido.id, { pagamento: "Pago", atualizado_por: OPERADOR_CLIENTE }));
+    }
+    if (config.edicoes && ["Aguardando", "Em preparo"].includes(pedido.status_pedido) && (pedido.versao ?? 1) < 3) {
+      acoes.push(async () => {
+        const { data: cardapio } = await repositorios.cardapio.listar();
+        // Na memória não há trigger de versões: a própria edição marca o pedido como modificado
+        return repositorios.pedidos.atualizar(pedido.id, {
+          comanda: acrescentarItemDemo(pedido.comanda, cardapio ?? []),
+          versao: (pedido.versao ?? 1) + 1,
+          modificado_em: new Date().toISOString(),
+          atualizado_por: OPERADOR_CLIENTE,
+        });
+      });
+    }
+  });
+  if (acoes.length > 0) await sortear(acoes, Math.random)();
+};
+
+// Espera sorteada em torno da média (chegadas de Poisson), para o movimento não ter ritmo de relógio
+const proximaEspera = (mediaMs: number): number => -Math.log(1 - Math.random()) * mediaMs;
+
+const MEDIA_ENTRE_ACOES_CLIENTE_MS = 40000;
+
+// Liga o gerador com a configuração dada; a função devolvida desliga
+export const iniciarGeradorDemo = (config: ConfigGeradorDemo): (() => void) => {
+  let parado = false;
+  let temporizadorPedido: number | undefined;
+  let temporizadorCliente: number | undefined;
+
+  const agendarPedido = () => {
+    temporizadorPedido = window.setTimeout(async () => {
+      await gerarPedidoDemoAgora().catch(e => console.error("Erro ao gerar pedido de demonstração:", e));
+      if (!parado) agendarPedido();
+    }, proximaEspera(60000 / Math.max(config.pedidosPorMinuto, 0.1)));
+  };
+
+  const agendarCliente = () => {
+    temporizadorCliente = window.setTimeout(async () => {
+      await simularCliente(config).catch(e => console.error("Erro ao simular cliente na demonstração:", e));
+      if (!parado) agendarCliente();
+    }, proximaEspera(MEDIA_ENTRE_ACOES_CLIENTE_MS));
+  };
+
+  agendarPedido();
+  if (config.pagamentos || config.edicoes) agendarCliente();
+
+  return () => {
+    parado = true;
+    window.clearTimeout(temporizadorPedido);
+    window.clearTimeout(temporizadorCliente);
+  };
+};
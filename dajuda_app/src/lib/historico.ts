@@ -0,0 +1,63 @@
+import { supabase } from "../supabaseClient";
+import type { Pedido, StatusPedido } from "./pedidos";
+import { backendDados } from "./repositorios";
+
+export interface HistoricoPedido {
+  id: number;
+  comanda_id: number;
+  telefone_key: string;
+  campo: "status_pedido" | "pagamento";
+  valor_anterior: string | null;
+  valor_novo: string | null;
+  alterado_em: string;
+  alterado_por: string | null;
+}
+
+// Intervalo em que o pedido permaneceu em um status; `fim` nulo significa que ainda está nele
+export interface PeriodoStatus {
+  status: StatusPedido;
+  inicio: string;
+  fim: string | null;
+  alteradoPor: string | null;
+}
+
+// No backend em memória não há histórico gravado, e o do banco seria de outro pedido com o mesmo id
+export const buscarHistoricoPedido = async (pedido: Pedido) => {
+  if (backendDados === "memoria") return { data: [] as HistoricoPedido[], error: null };
+  return supabase
+    .from("Comandas_historico")
+    .select("*")
+    .eq("comanda_id", pedido.id)
+    .order("alterado_em", { ascending: true });
+};
+
+export const calcularPeriodosStatus = (pedido: Pedido, historico: HistoricoPedido[]): PeriodoStatus[] => {
+  const mudancas = historico.filter(h => h.campo === "status_pedido" && h.valor_novo);
+  // Pedidos anteriores ao histórico: assume que entraram como "Aguardando" na criação
+  if (mudancas.length === 0 || mudancas[0].valor_anterior !== null) {
+    mudancas.unshift({
+      id: 0,
+      comanda_id: pedido.id,
+      telefone_key: pedido.telefone_key,
+      campo: "status_pedido",
+      valor_anterior: null,
+      valor_novo: mudancas[0]?.valor_anterior ?? pedido.status_pedido,
+      alterado_em: pedido.hora_criacao_pedido,
+      alterado_por: null,
+    });
+  }
+  return mudancas.map((mudanca, index) => ({
+    status: mudanca.valor_novo as StatusPedido,
+    inicio: mudanca.alterado_em,
+    fim: mudancas[index + 1]?.alterado_em ?? null,
+    alteradoPor: mudanca.alterado_por,
+  }));
+};
+
+export const formatarDuracao = (ms: number): string => {
+  const totalMinutos = Math.max(0, Math.floor(ms / 60000));
+  const horas = Math.floor(totalMinutos / 60);
+  const minutos = totalMinutos % 60;
+  if (horas > 0) return `${horas}h ${String(minutos).padStart(2, "0")}min`;
+  return `${minutos} min`;
+};
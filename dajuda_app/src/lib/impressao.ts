@@ -0,0 +1,172 @@
+import type { LarguraPapel } from "./escpos";
+
+// Transportes para enviar os bytes ESC/POS gerados à impressora.
+// WebUSB e Web Serial só existem em navegadores Chromium em contexto seguro (https/localhost).
+
+export type TipoTransporte = "download" | "usb" | "serial" | "agente";
+
+export interface ConfigImpressao {
+  transporte: TipoTransporte;
+  larguraPapel: LarguraPapel;
+  nomeRestaurante: string;
+  urlAgente: string;   // Ex.: http://localhost:9100/imprimir
+  baudRate: number;    // Apenas para Web Serial
+}
+
+export interface TransporteImpressao {
+  tipo: TipoTransporte;
+  nome: string;
+  disponivel: () => boolean;
+  enviar: (bytes: Uint8Array, config: ConfigImpressao, nomeArquivo: string) => Promise<void>;
+}
+
+const STORAGE_KEY = "dajuda.impressao";
+
+export const configImpressaoPadrao: ConfigImpressao = {
+  transporte: "download",
+  larguraPapel: 80,
+  nomeRestaurante: "D’Ajuda Refeições",
+  urlAgente: "http://localhost:9100/imprimir",
+  baudRate: 9600,
+};
+
+export const obterConfigImpressao = (): ConfigImpressao => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? { ...configImpressaoPadrao, ...JSON.parse(salvo) } : configImpressaoPadrao;
+  } catch (e) {
+    console.error("Erro ao ler configuração de impressão:", e);
+    return configImpressaoPadrao;
+  }
+};
+
+export const salvarConfigImpressao = (config: ConfigImpressao) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar configuração de impressão:", e);
+  }
+};
+
+// Tipagens mínimas de WebUSB e Web Serial, que não fazem parte da lib DOM do TypeScript
+interface UsbEndpoint { endpointNumber: number; direction: "in" | "out" }
+interface UsbInterface { interfaceNumber: number; alternate: { endpoints: UsbEndpoint[] } }
+interface UsbDevice {
+  opened: boolean;
+  configuration: { interfaces: UsbInterface[] } | null;
+  open: () => Promise<void>;
+  close: () => Promise<void>;
+  selectConfiguration: (value: number) => Promise<void>;
+  claimInterface: (interfaceNumber: number) => Promise<void>;
+  releaseInterface: (interfaceNumber: number) => Promise<void>;
+  transferOut: (endpointNumber: number, data: Uint8Array) => Promise<unknown>;
+}
+interface SerialPort {
+  writable: WritableStream<Uint8Array> | null;
+  open: (options: { baudRate: number }) => Promise<void>;
+  close: () => Promise<void>;
+}
+interface NavegadorComPerifericos {
+  usb?: { getDevices: () => Promise<UsbDevice[]>; requestDevice: (options: { filters: object[] }) => Promise<UsbDevice> };
+  serial?: { getPorts: () => Promise<SerialPort[]>; requestPort: () => Promise<SerialPort> };
+}
+
+const navegador = () => navigator as Navigator & NavegadorComPerifericos;
+
+const transporteDownload: TransporteImpressao = {
+  tipo: "download",
+  nome: "Baixar arquivo .bin",
+  disponivel: () => true,
+  enviar: async (bytes, _config, nomeArquivo) => {
+    const url = URL.createObjectURL(new Blob([bytes], { type: "application/octet-stream" }));
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = nomeArquivo;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  },
+};
+
+const transporteUsb: TransporteImpressao = {
+  tipo: "usb",
+  nome: "USB (WebUSB)",
+  disponivel: () => !!navegador().usb,
+  enviar: async (bytes) => {
+    const usb = navegador().usb;
+    if (!usb) throw new Error("WebUSB não é suportado neste navegador.");
+    // Reaproveita um dispositivo já autorizado; só abre o seletor na primeira vez
+    const [autorizado] = await usb.getDevices();
+    const device = autorizado ?? await usb.requestDevice({ filters: [] });
+    if (!device.opened) await device.open();
+    if (!device.configuration) await device.selectConfiguration(1);
+    const interfaceImpressora = device.configuration?.interfaces.find(i =>
+      i.alternate.endpoints.some(e => e.direction === "out")
+    );
+    if (!interfaceImpressora) throw new Error("A impressora USB não expõe um endpoint de saída.");
+    const endpoint = interfaceImpressora.alternate.endpoints.find(e => e.direction === "out")!;
+    await device.claimInterface(interfaceImpressora.interfaceNumber);
+    try {
+      await device.transferOut(endpoint.endpointNumber, bytes);
+    } finally {
+      await device.releaseInterface(interfaceImpressora.interfaceNumber).catch(console.error);
+    }
+  },
+};
+
+const transporteSerial: TransporteImpressao = {
+  tipo: "serial",
+  nome: "Serial (Web Serial)",
+  disponivel: () => !!navegador().serial,
+  enviar: async (bytes, config) => {
+    const serial = navegador().serial;
+    if (!serial) throw new Error("Web Serial não é suportado neste navegador.");
+    const [autorizada] = await serial.getPorts();
+    const port = autorizada ?? await serial.requestPort();
+    await port.open({ baudRate: config.baudRate });
+    try {
+      if (!port.writable) throw new Error("A porta serial não está disponível para escrita.");
+      const writer = port.writable.getWriter();
+      try {
+        await writer.write(bytes);
+      } finally {
+        writer.releaseLock();
+      }
+    } finally {
+      await port.close().catch(console.error);
+    }
+  },
+};
+
+const transporteAgente: TransporteImpressao = {
+  tipo: "agente",
+  nome: "Agente de impressão local (HTTP)",
+  disponivel: () => true,
+  enviar: async (bytes, config) => {
+    if (!config.urlAgente.trim()) throw new Error("URL do agente de impressão não configurada.");
+    const response = await fetch(config.urlAgente, {
+      method: "POST",
+      headers: { "Content-Type": "application/octet-stream" },
+      body: bytes,
+    });
+    if (!response.ok) {
+      throw new Error(`Agente de impressão respondeu ${response.status} ${response.statusText}`);
+    }
+  },
+};
+
+export const transportesImpressao: Record<TipoTransporte, TransporteImpressao> = {
+  download: transporteDownload,
+  usb: transporteUsb,
+  serial: transporteSerial,
+  agente: transporteAgente,
+};
+
+export const enviarParaImpressora = async (bytes: Uint8Array, config: ConfigImpressao, nomeArquivo: string) => {
+  const transporte = transportesImpressao[config.transporte] ?? transporteDownload;
+  if (!transporte.disponivel()) {
+    throw new Error(`${transporte.nome} não está disponível neste navegador.`);
+  }
+  await transporte.enviar(bytes, config, nomeArquivo);
+};
@@ -0,0 +1,40 @@
+import { parseComanda } from "./comandaParser";
+import { formatarMoeda } from "./formatters";
+import type { Pedido } from "./pedidos";
+
+// Texto enviado de volta ao cliente pelo WhatsApp com o resumo do pedido e, se houver, o Pix
+
+export interface OpcoesMensagemCliente {
+  valor?: number;
+  pixCopiaECola?: string;
+}
+
+export const montarMensagemCliente = (pedido: Pedido, opcoes: OpcoesMensagemCliente = {}): string => {
+  const comanda = parseComanda(pedido.comanda);
+  const linhas: string[] = [
+    `Olá${pedido.nome_cliente ? `, ${pedido.nome_cliente}` : ""}! Recebemos seu pedido #${pedido.id}.`,
+  ];
+
+  if (comanda.itens.length > 0) {
+    linhas.push("");
+    comanda.itens.forEach(item => {
+      const adicionais = item.adicionais.length > 0 ? ` (+ ${item.adicionais.join(", ")})` : "";
+      linhas.push(`${item.quantidade}x ${item.produto}${adicionais}`);
+    });
+  }
+
+  if (opcoes.valor !== undefined) {
+    linhas.push("", `*Total: ${formatarMoeda(opcoes.valor)}*`);
+  }
+
+  if (opcoes.pixCopiaECola) {
+    linhas.push(
+      "",
+      "Para pagar com Pix, copie o código abaixo e cole no app do seu banco em Pix Copia e Cola:",
+      "",
+      opcoes.pixCopiaECola
+    );
+  }
+
+  return linhas.join("\n");
+};
@@ -0,0 +1,60 @@
+// Modo demonstração para treinar a equipe fora do serviço real. Com ele ligado, pedidos e cardápio
+// ficam em memória (ver lib/repositorios), o cliente do Supabase só faz leituras e um gerador
+// simula o movimento (ver lib/geradorDemo). A escolha vale para este navegador e troca com um reload.
+
+const STORAGE_KEY = "dajuda.modoDemo";
+const STORAGE_KEY_GERADOR = "dajuda.modoDemo.gerador";
+
+export interface ConfigGeradorDemo {
+  ativo: boolean;
+  pedidosPorMinuto: number;
+  pagamentos: boolean;   // Clientes pagando pelo Pix depois do pedido
+  edicoes: boolean;      // Clientes alterando a comanda pelo WhatsApp
+}
+
+export const configGeradorDemoPadrao: ConfigGeradorDemo = {
+  ativo: true,
+  pedidosPorMinuto: 1,
+  pagamentos: true,
+  edicoes: true,
+};
+
+export const modoDemoAtivo = (): boolean => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) === "1";
+  } catch {
+    return false;
+  }
+};
+
+const trocarModoDemo = (ativo: boolean) => {
+  try {
+    if (ativo) localStorage.setItem(STORAGE_KEY, "1");
+    else localStorage.removeItem(STORAGE_KEY);
+  } catch (e) {
+    console.error("Erro ao trocar o modo demonstração:", e);
+    return;
+  }
+  window.location.reload();
+};
+
+export const entrarModoDemo = () => trocarModoDemo(true);
+export const sairModoDemo = () => trocarModoDemo(false);
+
+export const obterConfigGeradorDemo = (): ConfigGeradorDemo => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY_GERADOR);
+    return salvo ? { ...configGeradorDemoPadrao, ...JSON.parse(salvo) } : configGeradorDemoPadrao;
+  } catch (e) {
+    console.error("Erro ao ler configuração do gerador de pedidos:", e);
+    return configGeradorDemoPadrao;
+  }
+};
+
+export const salvarConfigGeradorDemo = (config: ConfigGeradorDemo) => {
+  try {
+    localStorage.setItem(STORAGE_KEY_GERADOR, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar configuração do gerador de pedidos:", e);
+  }
+};
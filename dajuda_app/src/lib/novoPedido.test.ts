@@ -0,0 +1,93 @@
+import { describe, expect, it, vi } from "vitest";
+import { parseComanda } from "./comandaParser";
+import { CHAVE_BALCAO } from "./clientes";
+import { chaveTelefone, montarComandaManual, type DadosNovoPedido } from "./novoPedido";
+
+// novoPedido grava pelos repositórios, que carregam o cliente do Supabase; ele só precisa de um
+// endereço para ser criado, nenhuma requisição sai daqui
+vi.hoisted(() => {
+  vi.stubEnv("VITE_SUPABASE_URL", "http://localhost:54321");
+  vi.stubEnv("VITE_SUPABASE_ANON_KEY", "sem-projeto");
+});
+
+const pedidoTelefone: DadosNovoPedido = {
+  origem: "Telefone",
+  nomeCliente: "  Maria das Dores ",
+  telefone: "(11) 98765-4321",
+  tipoEntrega: "Entrega",
+  endereco: "Rua das Flores, 123",
+  bairro: "Centro",
+  complemento: "Apto 12",
+  formaPagamento: "Dinheiro",
+  trocoPara: 100,
+  pagamento: "Aguardando pagamento",
+  taxaEntrega: 5,
+  observacoes: "Interfone quebrado",
+  itens: [
+    { produto: "Marmita de Frango Grelhado", quantidade: 2, adicionais: ["Ovo Frito"], observacao: "sem cebola", precoUnitario: 27 },
+    { produto: "Refrigerante Lata", quantidade: 1, adicionais: [], observacao: "", precoUnitario: 6 },
+  ],
+};
+
+const pedidoBalcao: DadosNovoPedido = {
+  ...pedidoTelefone,
+  origem: "Balcão",
+  nomeCliente: "João",
+  telefone: "",
+  tipoEntrega: "Retirada",
+  formaPagamento: "Pix",
+  trocoPara: null,
+  pagamento: "Pago",
+  observacoes: "",
+  itens: [{ produto: "Omelete de Queijo", quantidade: 1, adicionais: [], observacao: "", precoUnitario: null }],
+};
+
+describe("montarComandaManual", () => {
+  it("escreve uma comanda que o parser lê inteira, como as do bot", () => {
+    const comanda = parseComanda(montarComandaManual(pedidoTelefone));
+    expect(comanda.naoReconhecidas).toEqual([]);
+    expect(comanda.itens.map(({ quantidade, produto, adicionais, observacoes, precoInformado }) => ({
+      quantidade, produto, adicionais, observacoes, precoInformado,
+    }))).toEqual([
+      { quantidade: 2, produto: "Marmita de Frango Grelhado", adicionais: ["Ovo Frito"], observacoes: ["sem cebola"], precoInformado: 54 },
+      { quantidade: 1, produto: "Refrigerante Lata", adicionais: [], observacoes: [], precoInformado: 6 },
+    ]);
+    expect(comanda).toMatchObject({
+      nomeCliente: "Maria das Dores",
+      telefone: "(11) 98765-4321",
+      tipoEntrega: "Entrega",
+      endereco: "Rua das Flores, 123",
+      bairro: "Centro",
+      complemento: "Apto 12",
+      trocoSolicitado: true,
+      trocoPara: 100,
+      taxaEntregaInformada: 5,
+      totalInformado: 65,
+      observacoes: ["Interfone quebrado"],
+    });
+    expect(comanda.formaPagamento).toMatch(/^Dinheiro/);
+    expect(comanda.camposExtras.map(c => [c.rotulo, c.valor])).toEqual([["Origem", "Telefone"]]);
+  });
+
+  it("deixa o total de fora quando algum item não tem preço", () => {
+    const comanda = parseComanda(montarComandaManual(pedidoBalcao));
+    expect(comanda.naoReconhecidas).toEqual([]);
+    expect(comanda.itens).toHaveLength(1);
+    expect(comanda.itens[0].precoInformado).toBeUndefined();
+    expect(comanda.totalInformado).toBeUndefined();
+    expect(comanda).toMatchObject({ nomeCliente: "João", tipoEntrega: "Retirada", formaPagamento: "Pix" });
+    expect(comanda.telefone).toBeUndefined();
+  });
+});
+
+describe("chaveTelefone", () => {
+  it("acrescenta o 55 aos telefones locais", () => {
+    expect(chaveTelefone("(11) 98765-4321")).toBe("5511987654321");
+    expect(chaveTelefone("+55 11 98765-4321")).toBe("5511987654321");
+  });
+
+  it("usa a mesma chave para todo pedido de balcão sem telefone", () => {
+    expect(chaveTelefone("")).toBe(CHAVE_BALCAO);
+    expect(chaveTelefone(" - ")).toBe(CHAVE_BALCAO);
+  });
+});
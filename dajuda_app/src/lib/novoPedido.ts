@@ -0,0 +1,98 @@
+import { CHAVE_BALCAO } from "./clientes";
+import { obterOperador } from "./operador";
+import { repositorios } from "./repositorios";
+import type { TipoEntrega } from "./comandaParser";
+import type { StatusPagamento } from "./pedidos";
+
+// Pedidos lançados no painel (telefone e balcão). A comanda é escrita no mesmo formato de texto
+// do bot do WhatsApp, então o parser, o card, a impressão e os relatórios tratam igual.
+
+export type OrigemPedido = "Telefone" | "Balcão";
+
+export interface ItemNovoPedido {
+  produto: string;
+  quantidade: number;
+  adicionais: string[];
+  observacao: string;
+  precoUnitario: number | null; // Produto + adicionais; null quando algum não tem preço
+}
+
+export interface DadosNovoPedido {
+  origem: OrigemPedido;
+  nomeCliente: string;
+  telefone: string;
+  tipoEntrega: TipoEntrega;
+  endereco: string;
+  bairro: string;
+  complemento: string;
+  formaPagamento: string;
+  trocoPara: number | null;
+  pagamento: StatusPagamento;
+  taxaEntrega: number | null;
+  observacoes: string;
+  itens: ItemNovoPedido[];
+}
+
+const formatarValor = (valor: number): string =>
+  `R$ ${valor.toFixed(2).replace(".", ",")}`;
+
+// O bot grava o número do WhatsApp com o código do país; telefones locais ganham o 55.
+// Sem telefone, o pedido fica na chave do balcão, fora do diretório de clientes.
+export const chaveTelefone = (telefone: string): string => {
+  const digitos = telefone.replace(/\D/g, "");
+  if (!digitos) return CHAVE_BALCAO;
+  return digitos.length === 10 || digitos.length === 11 ? `55${digitos}` : digitos;
+};
+
+export const subtotalItemNovoPedido = (item: ItemNovoPedido): number | null =>
+  item.precoUnitario === null ? null : item.precoUnitario * item.quantidade;
+
+// Total só quando todos os itens têm preço
+export const totalNovoPedido = (dados: Pick<DadosNovoPedido, "itens" | "taxaEntrega" | "tipoEntrega">): number | null => {
+  const subtotais = dados.itens.map(subtotalItemNovoPedido);
+  if (subtotais.some(s => s === null)) return null;
+  const taxa = dados.tipoEntrega === "Entrega" ? dados.taxaEntrega ?? 0 : 0;
+  return subtotais.reduce<number>((soma, s) => soma + (s ?? 0), 0) + taxa;
+};
+
+export const montarComandaManual = (dados: DadosNovoPedido): string => {
+  const linhas: string[] = ["*Pedido:*"];
+  dados.itens.forEach(item => {
+    const adicionais = item.adicionais.map(a => ` + ${a}`).join("");
+    const subtotal = subtotalItemNovoPedido(item);
+    linhas.push(`${item.quantidade}x ${item.produto}${adicionais}${subtotal !== null ? ` - ${formatarValor(subtotal)}` : ""}`);
+    if (item.observacao.trim()) linhas.push(`   Obs: ${item.observacao.trim()}`);
+  });
+
+  linhas.push("", `*Nome:* ${dados.nomeCliente.trim()}`);
+  if (dados.telefone.trim()) linhas.push(`*Telefone:* ${dados.telefone.trim()}`);
+  linhas.push(`*Entrega:* ${dados.tipoEntrega}`);
+  if (dados.tipoEntrega === "Entrega") {
+    linhas.push(`*Endereço:* ${dados.endereco.trim()}`, `*Bairro:* ${dados.bairro.trim()}`);
+    if (dados.complemento.trim()) linhas.push(`*Complemento:* ${dados.complemento.trim()}`);
+  }
+  if (dados.formaPagamento) {
+    const troco = dados.trocoPara !== null ? ` (troco para ${formatarValor(dados.trocoPara)})` : "";
+    linhas.push(`*Pagamento:* ${dados.formaPagamento}${troco}`);
+  }
+  if (dados.tipoEntrega === "Entrega" && dados.taxaEntrega !== null) {
+    linhas.push(`*Taxa de entrega:* ${formatarValor(dados.taxaEntrega)}`);
+  }
+  const total = totalNovoPedido(dados);
+  if (total !== null) linhas.push(`*Total:* ${formatarValor(total)}`);
+  if (dados.observacoes.trim()) linhas.push(`*Obs:* ${dados.observacoes.trim()}`);
+  linhas.push(`*Origem:* ${dados.origem}`);
+
+  return linhas.join("\n");
+};
+
+export const criarPedidoManual = (dados: DadosNovoPedido) =>
+  repositorios.pedidos.criar({
+    comanda: montarComandaManual(dados),
+    telefone_key: chaveTelefone(dados.telefone),
+    nome_cliente: dados.nomeCliente.trim(),
+    status_pedido: "Aguardando",
+    pagamento: dados.pagamento,
+    hora_criacao_pedido: new Date().toISOString(),
+    atualizado_por: obterOperador() || null,
+  });
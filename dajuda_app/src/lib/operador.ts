@@ -0,0 +1,18 @@
+// Nome de quem está operando o painel neste dispositivo, gravado no histórico das comandas
+const STORAGE_KEY = "dajuda.operador";
+
+export const obterOperador = (): string => {
+  try {
+    return localStorage.getItem(STORAGE_KEY) ?? "";
+  } catch {
+    return "";
+  }
+};
+
+export const salvarOperador = (nome: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, nome.trim());
+  } catch (e) {
+    console.error("Erro ao salvar operador:", e);
+  }
+};
@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { buscarTodasAsPaginas, TAMANHO_PAGINA } from "./paginacao";
+
+const consultaSobre = (total: number, intervalos: [number, number][] = []) => async (de: number, ate: number) => {
+  intervalos.push([de, ate]);
+  const linhas = Array.from({ length: total }, (_, i) => i);
+  return { data: linhas.slice(de, ate + 1), error: null };
+};
+
+describe("buscarTodasAsPaginas", () => {
+  it("junta as páginas até vir uma incompleta", async () => {
+    const intervalos: [number, number][] = [];
+    const { data } = await buscarTodasAsPaginas(consultaSobre(2 * TAMANHO_PAGINA + 5, intervalos));
+    expect(data).toHaveLength(2 * TAMANHO_PAGINA + 5);
+    expect(data?.[TAMANHO_PAGINA]).toBe(TAMANHO_PAGINA);
+    expect(intervalos).toEqual([[0, 999], [1000, 1999], [2000, 2999]]);
+  });
+
+  it("pede mais uma página quando o total é múltiplo do tamanho", async () => {
+    const intervalos: [number, number][] = [];
+    const { data } = await buscarTodasAsPaginas(consultaSobre(TAMANHO_PAGINA, intervalos));
+    expect(data).toHaveLength(TAMANHO_PAGINA);
+    expect(intervalos).toHaveLength(2);
+  });
+
+  it("devolve o erro de qualquer página sem dados parciais", async () => {
+    const resultado = await buscarTodasAsPaginas(async (de) =>
+      de === 0 ? { data: Array.from({ length: TAMANHO_PAGINA }, (_, i) => i), error: null } : { data: null, error: { message: "falhou" } }
+    );
+    expect(resultado).toEqual({ data: null, error: { message: "falhou" } });
+  });
+});
@@ -0,0 +1,24 @@
+// Leitura de todas as linhas de uma consulta em páginas. O PostgREST corta cada resposta em 1000
+// linhas (max_rows) sem acusar erro, então tabelas que só crescem, como o arquivo e o histórico,
+// precisam ser lidas aos pedaços. A consulta deve ter ordem estável (terminar em "id") para as
+// páginas não repetirem nem pularem linhas.
+
+export const TAMANHO_PAGINA = 1000;
+
+interface Pagina<T> {
+  data: T[] | null;
+  error: { message: string } | null;
+}
+
+// `consulta` recebe o intervalo inclusivo de linhas, como o .range() do supabase-js
+export const buscarTodasAsPaginas = async <T,>(
+  consulta: (de: number, ate: number) => PromiseLike<Pagina<T>>
+): Promise<Pagina<T>> => {
+  const linhas: T[] = [];
+  for (let de = 0; ; de += TAMANHO_PAGINA) {
+    const { data, error } = await consulta(de, de + TAMANHO_PAGINA - 1);
+    if (error) return { data: null, error };
+    linhas.push(...(data ?? []));
+    if ((data ?? []).length < TAMANHO_PAGINA) return { data: linhas, error: null };
+  }
+};
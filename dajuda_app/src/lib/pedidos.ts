@@ -0,0 +1,57 @@
+import { obterOperador } from "./operador";
+import { executarOuEnfileirar } from "./filaOffline";
+import { repositorios } from "./repositorios";
+
+export type StatusPedido = "Aguardando" | "Em preparo" | "Pronto" | "Enviado" | "Entregue" | "Cancelado";
+export type StatusPagamento = "Pago" | "Aguardando pagamento";
+export type StatusReembolso = "Pendente" | "Reembolsado";
+
+export interface Pedido {
+  id: number;           // Identificador do pedido; um mesmo telefone pode ter vários pedidos
+  comanda: string;
+  telefone_key: string; 
+  nome_cliente: string; 
+  status_pedido: StatusPedido;
+  pagamento: StatusPagamento;
+  hora_criacao_pedido: string; // Adicionado para o timestamp
+  status_alterado_em?: string | null; // Mantido pelo trigger de histórico
+  entregador_id?: number | null;      // Quem saiu com o pedido (ver lib/entregadores)
+  taxa_entregador?: number | null;    // Taxa do entregador no momento do envio
+  enviado_em?: string | null;         // Mantido pelo trigger de envio
+  versao?: number;                    // Incrementada a cada edição da comanda (ver lib/versoes)
+  modificado_em?: string | null;      // Momento da última edição
+  motivo_cancelamento?: string | null; // Obrigatório quando "Cancelado" (ver lib/cancelamento)
+  cancelado_em?: string | null;        // Mantido pelo trigger de cancelamento
+  cancelado_por?: string | null;
+  reembolso?: StatusReembolso | null;  // Só para cancelados que já estavam pagos
+  reembolsado_em?: string | null;
+}
+
+// Fluxo normal de um pedido; "Cancelado" fica de fora porque só é alcançado pelo cancelamento
+export const statusOptions: StatusPedido[] = ["Aguardando", "Em preparo", "Pronto", "Enviado", "Entregue"];
+export const todosStatus: StatusPedido[] = [...statusOptions, "Cancelado"];
+export const pagamentoOptions: StatusPagamento[] = ["Aguardando pagamento", "Pago"];
+
+// Mesma ordem da listagem dos repositórios, para encaixar os pedidos que chegam pelo Realtime
+export const ordenarPedidos = (a: Pedido, b: Pedido): number =>
+  new Date(b.hora_criacao_pedido).getTime() - new Date(a.hora_criacao_pedido).getTime() || b.id - a.id;
+
+// Atualizações da tabela Comandas compartilhadas entre o card, o quadro e as demais visões.
+// `atualizado_por` é consumido pelo trigger de histórico (ver supabase/migrations). Sem conexão,
+// a alteração vai para a fila offline e é reenviada quando a rede voltar (ver lib/filaOffline).
+export const atualizarPedido = (pedido: Pedido, alteracoes: Partial<Pedido>, descricao: string) => {
+  const registro = { ...alteracoes, atualizado_por: obterOperador() || null };
+  const esperado = Object.fromEntries(
+    Object.keys(alteracoes).map(coluna => [coluna, pedido[coluna as keyof Pedido] ?? null])
+  );
+  return executarOuEnfileirar(
+    { tabela: "Comandas", registroId: pedido.id, alteracoes: registro, esperado, descricao },
+    () => repositorios.pedidos.atualizar(pedido.id, registro)
+  );
+};
+
+export const atualizarStatusPedido = (pedido: Pedido, novoStatus: StatusPedido) =>
+  atualizarPedido(pedido, { status_pedido: novoStatus }, `Status: ${novoStatus}`);
+
+export const atualizarPagamentoPedido = (pedido: Pedido, novoPagamento: StatusPagamento) =>
+  atualizarPedido(pedido, { pagamento: novoPagamento }, `Pagamento: ${novoPagamento}`);
@@ -0,0 +1,79 @@
+import { describe, expect, it } from "vitest";
+import { chavePixAmbigua, cnpjValido, cpfValido, crc16Pix, gerarPayloadPix, normalizarChavePix } from "./pix";
+
+describe("crc16Pix", () => {
+  it("é o CRC-16/CCITT-FALSE", () => {
+    expect(crc16Pix("123456789")).toBe("29B1");
+  });
+});
+
+describe("gerarPayloadPix", () => {
+  it("reproduz o exemplo de QR estático do manual do BR Code do Banco Central", () => {
+    expect(gerarPayloadPix({
+      chave: "123e4567-e12b-12d1-a456-426655440000",
+      tipoChave: "automatico",
+      nome: "Fulano de Tal",
+      cidade: "BRASILIA",
+    })).toBe(
+      "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D"
+    );
+  });
+
+  it("inclui valor e txid do pedido, sem acentos nem símbolos", () => {
+    expect(gerarPayloadPix({
+      chave: "11987654321",
+      tipoChave: "automatico",
+      nome: "D'Ajuda Refeições",
+      cidade: "São Paulo",
+      valor: 42.5,
+      txid: "PEDIDO-123",
+    })).toMatch(
+      /^00020126360014br\.gov\.bcb\.pix0114\+5511987654321520400005303986540542\.505802BR5916DAjuda Refeicoes6009Sao Paulo62130509PEDIDO1236304[0-9A-F]{4}$/
+    );
+  });
+
+  // CRC conferido fora do app, com binascii.crc_hqx(payload, 0xFFFF) do Python
+  it("gera payload com CRC que confere ao ser recalculado", () => {
+    const payload = gerarPayloadPix({ chave: "11987654321", tipoChave: "automatico", nome: "DAJUDA REFEICOES", cidade: "SAO PAULO", valor: 42.5, txid: "PEDIDO123" });
+    expect(payload).toBe(
+      "00020126360014br.gov.bcb.pix0114+5511987654321520400005303986540542.505802BR5916DAJUDA REFEICOES6009SAO PAULO62130509PEDIDO1236304551C"
+    );
+    expect(crc16Pix(payload.slice(0, -4))).toBe(payload.slice(-4));
+  });
+});
+
+describe("normalizarChavePix", () => {
+  it("põe +55 no celular digitado só com dígitos", () => {
+    expect(normalizarChavePix("11987654321")).toBe("+5511987654321");
+    expect(normalizarChavePix("(11) 98765-4321")).toBe("+5511987654321");
+  });
+
+  it("reconhece CPF e CNPJ pelo dígito verificador ou pela pontuação", () => {
+    expect(normalizarChavePix("39053344705")).toBe("39053344705");
+    expect(normalizarChavePix("529.982.247-25")).toBe("52998224725");
+    expect(normalizarChavePix("11.222.333/0001-81")).toBe("11222333000181");
+    expect(normalizarChavePix("11222333000181")).toBe("11222333000181");
+  });
+
+  it("usa o tipo escolhido quando a chave pode ser CPF ou celular", () => {
+    expect(chavePixAmbigua("11987654374")).toBe(true);
+    expect(normalizarChavePix("11987654374")).toBe("+5511987654374");
+    expect(normalizarChavePix("11987654374", "cpf_cnpj")).toBe("11987654374");
+    expect(chavePixAmbigua("11987654321")).toBe(false);
+  });
+
+  it("deixa e-mail e chave aleatória em minúsculas", () => {
+    expect(normalizarChavePix(" Caixa@DAjuda.com.br ")).toBe("caixa@dajuda.com.br");
+    expect(normalizarChavePix("123E4567-E12B-12D1-A456-426655440000")).toBe("123e4567-e12b-12d1-a456-426655440000");
+  });
+});
+
+describe("validação de documentos", () => {
+  it("confere os dígitos verificadores", () => {
+    expect(cpfValido("52998224725")).toBe(true);
+    expect(cpfValido("52998224724")).toBe(false);
+    expect(cpfValido("11111111111")).toBe(false);
+    expect(cnpjValido("11222333000181")).toBe(true);
+    expect(cnpjValido("11222333000182")).toBe(false);
+  });
+});
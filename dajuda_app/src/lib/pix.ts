@@ -0,0 +1,165 @@
+// Pix "copia e cola" estático (BR Code, padrão EMV QRCPS-MPM do Banco Central).
+// O payload é uma sequência de campos ID(2) + tamanho(2) + valor, terminada pelo CRC16 do texto.
+
+// "automatico" deduz o tipo pelo formato da chave (ver normalizarChavePix)
+export type TipoChavePix = "automatico" | "telefone" | "cpf_cnpj" | "email" | "aleatoria";
+
+export interface ConfigPix {
+  chave: string;      // Chave Pix do recebedor (telefone, e-mail, CPF/CNPJ ou aleatória)
+  tipoChave: TipoChavePix;
+  nome: string;       // Nome do recebedor, até 25 caracteres
+  cidade: string;     // Cidade do recebedor, até 15 caracteres
+}
+
+export interface DadosCobrancaPix extends ConfigPix {
+  valor?: number;     // Sem valor, o cliente digita o valor no app do banco
+  txid?: string;      // Referência do pedido, até 25 caracteres alfanuméricos
+  descricao?: string;
+}
+
+const STORAGE_KEY = "dajuda.pix";
+
+export const configPixPadrao: ConfigPix = {
+  chave: "",
+  tipoChave: "automatico",
+  nome: "DAJUDA REFEICOES",
+  cidade: "SAO PAULO",
+};
+
+export const obterConfigPix = (): ConfigPix => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? { ...configPixPadrao, ...JSON.parse(salvo) } : configPixPadrao;
+  } catch (e) {
+    console.error("Erro ao ler configuração do Pix:", e);
+    return configPixPadrao;
+  }
+};
+
+export const salvarConfigPix = (config: ConfigPix) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar configuração do Pix:", e);
+  }
+};
+
+export const configPixCompleta = (config: ConfigPix): boolean =>
+  !!config.chave.trim() && !!config.nome.trim() && !!config.cidade.trim();
+
+// CRC16-CCITT (polinômio 0x1021, valor inicial 0xFFFF), em 4 dígitos hexadecimais maiúsculos
+export const crc16Pix = (texto: string): string => {
+  let crc = 0xffff;
+  new TextEncoder().encode(texto).forEach(byte => {
+    crc ^= byte << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  });
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+};
+
+const campo = (id: string, valor: string): string => {
+  const tamanho = new TextEncoder().encode(valor).length;
+  if (tamanho > 99) throw new Error(`Campo ${id} do Pix excede 99 caracteres.`);
+  return `${id}${String(tamanho).padStart(2, "0")}${valor}`;
+};
+
+// Nome e cidade só aceitam caracteres simples: remove acentos e símbolos
+const textoSimples = (texto: string, limite: number): string =>
+  texto
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Za-z0-9 .,-]/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, limite);
+
+// Dígitos verificadores do CPF (11 dígitos) e do CNPJ (14 dígitos)
+const digitosVerificadoresValidos = (digitos: string, pesos: number[][]): boolean => {
+  if (/^(\d)\1+$/.test(digitos)) return false;
+  return pesos.every((pesosDoDigito, indice) => {
+    const posicao = digitos.length - pesos.length + indice;
+    const soma = pesosDoDigito.reduce((total, peso, i) => total + peso * Number(digitos[i]), 0);
+    const resto = soma % 11;
+    return Number(digitos[posicao]) === (resto < 2 ? 0 : 11 - resto);
+  });
+};
+
+export const cpfValido = (digitos: string): boolean =>
+  /^\d{11}$/.test(digitos) &&
+  digitosVerificadoresValidos(digitos, [
+    [10, 9, 8, 7, 6, 5, 4, 3, 2],
+    [11, 10, 9, 8, 7, 6, 5, 4, 3, 2],
+  ]);
+
+export const cnpjValido = (digitos: string): boolean =>
+  /^\d{14}$/.test(digitos) &&
+  digitosVerificadoresValidos(digitos, [
+    [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2],
+    [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2],
+  ]);
+
+// Celular com DDD, só dígitos: "11987654321"
+const celularSemFormatacao = (digitos: string): boolean => /^[1-9]{2}9\d{8}$/.test(digitos);
+
+const comDdi = (digitos: string): string =>
+  digitos.startsWith("55") && digitos.length >= 12 ? `+${digitos}` : `+55${digitos}`;
+
+// Onze dígitos sem pontuação podem ser CPF ou celular; quando passam nos dois testes, o tipo
+// precisa ser escolhido na configuração (o automático fica com o telefone)
+export const chavePixAmbigua = (chave: string): boolean => {
+  const limpa = chave.trim();
+  return /^\d{11}$/.test(limpa) && cpfValido(limpa) && celularSemFormatacao(limpa);
+};
+
+// Telefones precisam do +55; CPF/CNPJ vão só com os dígitos; e-mail e chave aleatória em minúsculas
+export const normalizarChavePix = (chave: string, tipo: TipoChavePix = "automatico"): string => {
+  const limpa = chave.trim();
+  const digitos = limpa.replace(/\D/g, "");
+  switch (tipo) {
+    case "telefone":
+      return comDdi(digitos);
+    case "cpf_cnpj":
+      return digitos;
+    case "email":
+    case "aleatoria":
+      return limpa.toLowerCase();
+  }
+  if (limpa.includes("@")) return limpa.toLowerCase();
+  if (/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(limpa)) return limpa.toLowerCase();
+  if (limpa.startsWith("+")) return `+${digitos}`;
+  // Com a pontuação de CPF/CNPJ não há dúvida; só dígitos, vale o verificador
+  if (/^\d{3}\.\d{3}\.\d{3}-\d{2}$/.test(limpa) || /^\d{2}\.?\d{3}\.?\d{3}\/\d{4}-?\d{2}$/.test(limpa)) return digitos;
+  if (/^\d{14}$/.test(limpa) && cnpjValido(limpa)) return digitos;
+  if (/^\d{11}$/.test(limpa) && cpfValido(limpa) && !celularSemFormatacao(limpa)) return digitos;
+  if (/^\(?\d{2}\)?\s*9?\d{4}-?\d{4}$/.test(limpa)) return comDdi(digitos);
+  if (/^\d{3}\.?\d{3}\.?\d{3}-?\d{2}$/.test(limpa)) return digitos;
+  return limpa;
+};
+
+export const normalizarTxid = (txid: string): string =>
+  txid.replace(/[^A-Za-z0-9]/g, "").slice(0, 25) || "***";
+
+export const gerarPayloadPix = (dados: DadosCobrancaPix): string => {
+  const contaRecebedor =
+    campo("00", "br.gov.bcb.pix") +
+    campo("01", normalizarChavePix(dados.chave, dados.tipoChave)) +
+    (dados.descricao ? campo("02", textoSimples(dados.descricao, 40)) : "");
+
+  const payload =
+    campo("00", "01") +
+    campo("26", contaRecebedor) +
+    campo("52", "0000") +
+    campo("53", "986") +
+    (dados.valor !== undefined && dados.valor > 0 ? campo("54", dados.valor.toFixed(2)) : "") +
+    campo("58", "BR") +
+    campo("59", textoSimples(dados.nome, 25)) +
+    campo("60", textoSimples(dados.cidade, 15)) +
+    campo("62", campo("05", normalizarTxid(dados.txid ?? ""))) +
+    "6304";
+
+  return payload + crc16Pix(payload);
+};
+
+export const txidDoPedido = (pedidoId: number): string => normalizarTxid(`PEDIDO${pedidoId}`);
@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { parseComanda } from "./comandaParser";
+import { calcularTotalPedido, encontrarItemCardapio, type PrecoCardapio } from "./precos";
+
+const item = (id: number, nome_produto: string, preco: number, categoria = "Marmita Clássica"): PrecoCardapio => ({
+  id,
+  nome_produto,
+  categoria,
+  preco,
+  preco_promocional: null,
+  disponivel: "Sim",
+});
+
+const cardapio: PrecoCardapio[] = [
+  item(1, "Marmita Pequena", 15),
+  item(2, "Marmita Grande", 22),
+  item(3, "Marmita de Frango", 20),
+  item(4, "Marmita de Frango Grelhado", 24),
+  item(5, "Omelete de Queijo", 16, "Omeletes"),
+  item(6, "Ovo Frito", 3, "Adicional"),
+];
+
+describe("encontrarItemCardapio", () => {
+  it("prefere o nome exato", () => {
+    expect(encontrarItemCardapio("marmita de frango", cardapio)).toEqual({ tipo: "encontrado", item: cardapio[2] });
+  });
+
+  it("fica com o nome mais específico contido na linha", () => {
+    expect(encontrarItemCardapio("Marmita de Frango Grelhado sem salada", cardapio)).toEqual({ tipo: "encontrado", item: cardapio[3] });
+  });
+
+  it("não escolhe quando o texto cabe em mais de um item", () => {
+    const resultado = encontrarItemCardapio("Marmita", cardapio);
+    expect(resultado.tipo).toBe("ambiguo");
+    expect(resultado.tipo === "ambiguo" && resultado.candidatos.map(c => c.id)).toEqual([1, 2, 3, 4]);
+  });
+
+  it("não escolhe quando a linha cita mais de um item", () => {
+    expect(encontrarItemCardapio("Marmita Pequena e Omelete de Queijo", cardapio).tipo).toBe("ambiguo");
+  });
+
+  it("não encontra o que não está no cardápio", () => {
+    expect(encontrarItemCardapio("Feijoada", cardapio)).toEqual({ tipo: "nenhum" });
+  });
+});
+
+describe("calcularTotalPedido", () => {
+  it("soma produto e adicionais pelo cardápio", () => {
+    const total = calcularTotalPedido(parseComanda("2x Omelete de Queijo + Ovo Frito"), cardapio, 5);
+    expect(total.subtotalItens).toBe(38);
+    expect(total.total).toBe(43);
+    expect(total.linhasSemPreco).toBe(0);
+  });
+
+  it("deixa a linha ambígua sem preço e fora do total, mesmo com valor escrito", () => {
+    const total = calcularTotalPedido(parseComanda("1x Marmita - R$ 15,00\n1x Omelete de Queijo"), cardapio);
+    expect(total.linhas[0].subtotal).toBeUndefined();
+    expect(total.linhas[0].candidatos).toHaveLength(4);
+    expect(total.subtotalItens).toBe(16);
+    expect(total.linhasSemPreco).toBe(1);
+  });
+
+  it("usa o valor escrito na linha quando o item não está no cardápio", () => {
+    const total = calcularTotalPedido(parseComanda("1x Feijoada - R$ 30,00"), cardapio);
+    expect(total.linhas[0].subtotal).toBe(30);
+    expect(total.linhasSemPreco).toBe(0);
+  });
+});
@@ -0,0 +1,110 @@
+import { normalizarTexto, type ComandaEstruturada, type ItemComanda } from "./comandaParser";
+
+// Preço dos pedidos a partir do cardápio: cada linha da comanda é casada com um item do
+// "Cárdapio" pelo nome. O que não casar, ou casar com mais de um item, fica sinalizado para
+// conferência manual. Só cálculo: quem busca o cardápio é o hook use-precos-cardapio.
+
+export interface PrecoCardapio {
+  id: number;
+  nome_produto: string;
+  categoria: string;
+  preco: number | null;
+  preco_promocional: number | null;
+  disponivel: string | boolean | null; // "Sim"/"Não"; aceita booleano como a página do cardápio
+}
+
+export interface LinhaPrecificada {
+  item: ItemComanda;
+  itemCardapio?: PrecoCardapio;
+  candidatos?: PrecoCardapio[]; // Itens que o nome poderia ser, quando não dá para escolher um
+  precoUnitario?: number;       // Produto + adicionais, por unidade
+  subtotal?: number;            // Indefinido quando o produto não pôde ser precificado
+  adicionaisSemPreco: string[];
+}
+
+export interface TotalPedido {
+  linhas: LinhaPrecificada[];
+  subtotalItens: number;        // Soma apenas das linhas precificadas
+  taxaEntrega: number;
+  total: number;
+  linhasSemPreco: number;       // Linhas com produto ou adicional sem preço
+}
+
+export const itemDisponivel = (item: Pick<PrecoCardapio, "disponivel">): boolean =>
+  item.disponivel === "Sim" || item.disponivel === true;
+
+// O preço promocional, quando cadastrado, substitui o preço normal
+export const precoVigente = (item: Pick<PrecoCardapio, "preco" | "preco_promocional">): number | undefined => {
+  if (item.preco_promocional !== null && item.preco_promocional !== undefined) return Number(item.preco_promocional);
+  if (item.preco !== null && item.preco !== undefined) return Number(item.preco);
+  return undefined;
+};
+
+export type CorrespondenciaCardapio =
+  | { tipo: "encontrado"; item: PrecoCardapio }
+  | { tipo: "ambiguo"; candidatos: PrecoCardapio[] }
+  | { tipo: "nenhum" };
+
+export const encontrarItemCardapio = (texto: string, cardapio: PrecoCardapio[]): CorrespondenciaCardapio => {
+  const alvo = normalizarTexto(texto);
+  if (!alvo) return { tipo: "nenhum" };
+  const comPreco = cardapio
+    .filter(i => i.nome_produto && precoVigente(i) !== undefined)
+    .map(item => ({ item, nome: normalizarTexto(item.nome_produto) }));
+  const exato = comPreco.find(c => c.nome === alvo);
+  if (exato) return { tipo: "encontrado", item: exato.item };
+
+  // Nomes do cardápio contidos na linha: um nome dentro de outro também contido não conta
+  // ("Marmita de Frango" dentro de "Marmita de Frango Grelhado"), o mais longo é o pedido
+  const contidos = comPreco.filter(c => c.nome.length >= 3 && alvo.includes(c.nome));
+  const maisEspecificos = contidos.filter(c => !contidos.some(o => o !== c && o.nome.includes(c.nome)));
+  // Linha contida em nomes do cardápio ("Marmita" em "Marmita Pequena" e "Marmita Grande")
+  const contendo = alvo.length >= 3 ? comPreco.filter(c => c.nome.includes(alvo)) : [];
+  const candidatos = [...new Set([...maisEspecificos, ...contendo].map(c => c.item))];
+
+  if (candidatos.length === 1) return { tipo: "encontrado", item: candidatos[0] };
+  if (candidatos.length > 1) return { tipo: "ambiguo", candidatos };
+  return { tipo: "nenhum" };
+};
+
+const precificarLinha = (item: ItemComanda, cardapio: PrecoCardapio[]): LinhaPrecificada => {
+  const correspondencia = encontrarItemCardapio(item.produto, cardapio);
+  const adicionaisSemPreco: string[] = [];
+  const precoAdicionais = item.adicionais.reduce((soma, adicional) => {
+    const encontrado = encontrarItemCardapio(adicional, cardapio);
+    if (encontrado.tipo !== "encontrado") {
+      adicionaisSemPreco.push(adicional);
+      return soma;
+    }
+    return soma + (precoVigente(encontrado.item) ?? 0);
+  }, 0);
+
+  if (correspondencia.tipo === "encontrado") {
+    const itemCardapio = correspondencia.item;
+    const precoUnitario = (precoVigente(itemCardapio) ?? 0) + precoAdicionais;
+    return { item, itemCardapio, precoUnitario, subtotal: precoUnitario * item.quantidade, adicionaisSemPreco };
+  }
+  // Com mais de um item possível, nem o valor escrito na linha é confiável: fica para conferir
+  if (correspondencia.tipo === "ambiguo") {
+    return { item, candidatos: correspondencia.candidatos, adicionaisSemPreco };
+  }
+  // Sem correspondência no cardápio, vale o valor escrito na própria linha (já inclui os adicionais)
+  if (item.precoInformado !== undefined) {
+    return { item, subtotal: item.precoInformado, adicionaisSemPreco: [] };
+  }
+  return { item, adicionaisSemPreco };
+};
+
+// `taxaZona` é a taxa do bairro detectado, usada quando a comanda não informa a taxa
+export const calcularTotalPedido = (comanda: ComandaEstruturada, cardapio: PrecoCardapio[], taxaZona?: number): TotalPedido => {
+  const linhas = comanda.itens.map(item => precificarLinha(item, cardapio));
+  const subtotalItens = linhas.reduce((soma, l) => soma + (l.subtotal ?? 0), 0);
+  const taxaEntrega = comanda.taxaEntregaInformada ?? taxaZona ?? 0;
+  return {
+    linhas,
+    subtotalItens,
+    taxaEntrega,
+    total: subtotalItens + taxaEntrega,
+    linhasSemPreco: linhas.filter(l => l.subtotal === undefined || l.adicionaisSemPreco.length > 0).length,
+  };
+};
@@ -0,0 +1,77 @@
+import { readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { gerarQrCode } from "./qrcode";
+
+// O .txt em __fixtures__ foi gerado por outro codificador (node-qrcode 1.5.4, modo byte, nível M,
+// máscara 2) e não por este: "#" é módulo escuro, "." é claro
+const PAYLOAD_BCB =
+  "00020126580014br.gov.bcb.pix0136123e4567-e12b-12d1-a456-4266554400005204000053039865802BR5913Fulano de Tal6008BRASILIA62070503***63041D3D";
+
+const lerMatriz = (nome: string): boolean[][] =>
+  readFileSync(new URL(`./__fixtures__/${nome}`, import.meta.url), "utf8")
+    .trim()
+    .split("\n")
+    .map(linha => Array.from(linha, c => c === "#"));
+
+const restoBch = (dados: number, bitsResto: number, gerador: number): number => {
+  let resto = dados << bitsResto;
+  for (let i = 31 - Math.clz32(resto); i >= bitsResto; i--) {
+    if ((resto >>> i) & 1) resto ^= gerador << (i - bitsResto);
+  }
+  return resto;
+};
+
+// As duas cópias dos 15 bits de formato, na ordem do bit 0 ao 14
+const lerFormato = (matriz: boolean[][]): [number, number] => {
+  const tamanho = matriz.length;
+  const modulo = (x: number, y: number) => (matriz[y][x] ? 1 : 0);
+  const posicoesA: [number, number][] = [
+    ...[0, 1, 2, 3, 4, 5].map(i => [8, i] as [number, number]),
+    [8, 7], [8, 8], [7, 8],
+    ...[9, 10, 11, 12, 13, 14].map(i => [14 - i, 8] as [number, number]),
+  ];
+  const posicoesB: [number, number][] = [
+    ...[0, 1, 2, 3, 4, 5, 6, 7].map(i => [tamanho - 1 - i, 8] as [number, number]),
+    ...[8, 9, 10, 11, 12, 13, 14].map(i => [8, tamanho - 15 + i] as [number, number]),
+  ];
+  const montar = (posicoes: [number, number][]) => posicoes.reduce((bits, [x, y], i) => bits | (modulo(x, y) << i), 0);
+  return [montar(posicoesA), montar(posicoesB)];
+};
+
+describe("gerarQrCode", () => {
+  it("reproduz módulo a módulo o QR do exemplo de Pix do BCB feito por outro codificador", () => {
+    expect(gerarQrCode(PAYLOAD_BCB, "M")).toEqual(lerMatriz("qrcode-pix-bcb.txt"));
+  });
+
+  it("grava o formato com nível M, a máscara escolhida e BCH válido nas duas cópias", () => {
+    const [formatoA, formatoB] = lerFormato(gerarQrCode(PAYLOAD_BCB, "M"));
+    expect(formatoA).toBe(formatoB);
+    const semMascara = formatoA ^ 0x5412;
+    const dados = semMascara >>> 10;
+    expect(semMascara & 0x3ff).toBe(restoBch(dados, 10, 0x537));
+    expect(dados >>> 3).toBe(0b00); // Nível M
+    expect(dados & 0b111).toBe(2);
+  });
+
+  it("grava a versão 8 com BCH válido nos dois blocos de versão", () => {
+    const matriz = gerarQrCode(PAYLOAD_BCB, "M");
+    const tamanho = matriz.length;
+    expect(tamanho).toBe(17 + 4 * 8);
+    let blocoDireita = 0;
+    let blocoAbaixo = 0;
+    for (let i = 0; i < 18; i++) {
+      const a = tamanho - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      blocoDireita |= (matriz[b][a] ? 1 : 0) << i;
+      blocoAbaixo |= (matriz[a][b] ? 1 : 0) << i;
+    }
+    expect(blocoDireita).toBe(blocoAbaixo);
+    expect(blocoDireita >>> 12).toBe(8);
+    expect(blocoDireita & 0xfff).toBe(restoBch(8, 12, 0x1f25));
+  });
+
+  it("escolhe a menor versão que comporta o texto", () => {
+    expect(gerarQrCode("PIX", "M")).toHaveLength(21); // Versão 1
+    expect(gerarQrCode("https://example.com", "M")).toHaveLength(25); // 19 bytes não cabem na versão 1-M
+  });
+});
@@ -0,0 +1,368 @@
+// Gerador de QR Code (ISO/IEC 18004) em modo byte, sem dependências.
+// Baseado no algoritmo de referência de Project Nayuki: escolhe a menor versão que comporta
+// o texto, aplica Reed-Solomon, intercala os blocos e usa a máscara de menor penalidade.
+
+export type NivelCorrecao = "L" | "M" | "Q" | "H";
+
+// Bits do nível de correção no formato e índice nas tabelas abaixo
+const formatoNivel: Record<NivelCorrecao, number> = { L: 1, M: 0, Q: 3, H: 2 };
+const indiceNivel: Record<NivelCorrecao, number> = { L: 0, M: 1, Q: 2, H: 3 };
+
+// Por versão (índice 0 não usado): codewords de correção por bloco e quantidade de blocos
+const CODEWORDS_CORRECAO_POR_BLOCO: number[][] = [
+  [-1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28, 28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 10, 16, 26, 18, 24, 16, 18, 22, 22, 26, 30, 22, 22, 24, 24, 28, 28, 26, 26, 26, 26, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28, 28],
+  [-1, 13, 22, 18, 26, 18, 24, 18, 22, 20, 24, 28, 26, 24, 20, 30, 24, 28, 28, 26, 30, 28, 30, 30, 30, 30, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+  [-1, 17, 28, 22, 16, 22, 28, 26, 26, 24, 28, 24, 28, 22, 24, 24, 30, 28, 28, 26, 28, 30, 24, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30],
+];
+
+const BLOCOS_CORRECAO: number[][] = [
+  [-1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7, 8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25],
+  [-1, 1, 1, 1, 2, 2, 4, 4, 4, 5, 5, 5, 8, 9, 9, 10, 10, 11, 13, 14, 16, 17, 17, 18, 20, 21, 23, 25, 26, 28, 29, 31, 33, 35, 37, 38, 40, 43, 45, 47, 49],
+  [-1, 1, 1, 2, 2, 4, 4, 6, 6, 8, 8, 8, 10, 12, 16, 12, 17, 16, 18, 21, 20, 23, 23, 25, 27, 29, 34, 34, 35, 38, 40, 43, 45, 48, 51, 53, 56, 59, 62, 65, 68],
+  [-1, 1, 1, 2, 4, 4, 4, 5, 6, 8, 8, 11, 11, 16, 16, 18, 16, 19, 21, 25, 25, 25, 34, 30, 32, 35, 37, 40, 42, 45, 48, 51, 54, 57, 60, 63, 66, 70, 74, 77, 81],
+];
+
+const PENALIDADE_N1 = 3;
+const PENALIDADE_N2 = 3;
+const PENALIDADE_N3 = 40;
+const PENALIDADE_N4 = 10;
+
+const bit = (valor: number, i: number): boolean => ((valor >>> i) & 1) !== 0;
+
+const modulosDeDados = (versao: number): number => {
+  let resultado = (16 * versao + 128) * versao + 64;
+  if (versao >= 2) {
+    const numAlinhamento = Math.floor(versao / 7) + 2;
+    resultado -= (25 * numAlinhamento - 10) * numAlinhamento - 55;
+    if (versao >= 7) resultado -= 36;
+  }
+  return resultado;
+};
+
+const codewordsDeDados = (versao: number, nivel: NivelCorrecao): number =>
+  Math.floor(modulosDeDados(versao) / 8) -
+  CODEWORDS_CORRECAO_POR_BLOCO[indiceNivel[nivel]][versao] * BLOCOS_CORRECAO[indiceNivel[nivel]][versao];
+
+// Multiplicação em GF(2^8) com o polinômio 0x11D
+const multiplicarGf = (x: number, y: number): number => {
+  let z = 0;
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d);
+    z ^= ((y >>> i) & 1) * x;
+  }
+  return z;
+};
+
+const divisorReedSolomon = (grau: number): number[] => {
+  const resultado = new Array<number>(grau).fill(0);
+  resultado[grau - 1] = 1;
+  let raiz = 1;
+  for (let i = 0; i < grau; i++) {
+    for (let j = 0; j < resultado.length; j++) {
+      resultado[j] = multiplicarGf(resultado[j], raiz);
+      if (j + 1 < resultado.length) resultado[j] ^= resultado[j + 1];
+    }
+    raiz = multiplicarGf(raiz, 0x02);
+  }
+  return resultado;
+};
+
+const restoReedSolomon = (dados: number[], divisor: number[]): number[] => {
+  const resultado = divisor.map(() => 0);
+  dados.forEach(b => {
+    const fator = b ^ (resultado.shift() as number);
+    resultado.push(0);
+    divisor.forEach((coef, i) => {
+      resultado[i] ^= multiplicarGf(coef, fator);
+    });
+  });
+  return resultado;
+};
+
+const adicionarCorrecaoEIntercalar = (dados: number[], versao: number, nivel: NivelCorrecao): number[] => {
+  const numBlocos = BLOCOS_CORRECAO[indiceNivel[nivel]][versao];
+  const tamanhoCorrecao = CODEWORDS_CORRECAO_POR_BLOCO[indiceNivel[nivel]][versao];
+  const totalCodewords = Math.floor(modulosDeDados(versao) / 8);
+  const numBlocosCurtos = numBlocos - (totalCodewords % numBlocos);
+  const tamanhoBlocoCurto = Math.floor(totalCodewords / numBlocos);
+
+  const blocos: number[][] = [];
+  const divisor = divisorReedSolomon(tamanhoCorrecao);
+  for (let i = 0, k = 0; i < numBlocos; i++) {
+    const tamanhoDados = tamanhoBlocoCurto - tamanhoCorrecao + (i < numBlocosCurtos ? 0 : 1);
+    const bloco = dados.slice(k, k + tamanhoDados);
+    k += tamanhoDados;
+    const correcao = restoReedSolomon(bloco, divisor);
+    if (i < numBlocosCurtos) bloco.push(0); // Espaço reservado, pulado na intercalação
+    blocos.push(bloco.concat(correcao));
+  }
+
+  const resultado: number[] = [];
+  for (let i = 0; i < blocos[0].length; i++) {
+    blocos.forEach((bloco, j) => {
+      if (i !== tamanhoBlocoCurto - tamanhoCorrecao || j >= numBlocosCurtos) resultado.push(bloco[i]);
+    });
+  }
+  return resultado;
+};
+
+const posicoesAlinhamento = (versao: number): number[] => {
+  if (versao === 1) return [];
+  const tamanho = versao * 4 + 17;
+  const numAlinhamento = Math.floor(versao / 7) + 2;
+  const passo = versao === 32 ? 26 : Math.ceil((versao * 4 + 4) / (numAlinhamento * 2 - 2)) * 2;
+  const resultado = [6];
+  for (let pos = tamanho - 7; resultado.length < numAlinhamento; pos -= passo) {
+    resultado.splice(1, 0, pos);
+  }
+  return resultado;
+};
+
+const aplicaMascara = (mascara: number, x: number, y: number): boolean => {
+  switch (mascara) {
+    case 0: return (x + y) % 2 === 0;
+    case 1: return y % 2 === 0;
+    case 2: return x % 3 === 0;
+    case 3: return (x + y) % 3 === 0;
+    case 4: return (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0;
+    case 5: return ((x * y) % 2) + ((x * y) % 3) === 0;
+    case 6: return (((x * y) % 2) + ((x * y) % 3)) % 2 === 0;
+    default: return (((x + y) % 2) + ((x * y) % 3)) % 2 === 0;
+  }
+};
+
+class MatrizQr {
+  readonly tamanho: number;
+  readonly modulos: boolean[][];
+  private readonly funcao: boolean[][];
+
+  constructor(private readonly versao: number, private readonly nivel: NivelCorrecao) {
+    this.tamanho = versao * 4 + 17;
+    this.modulos = Array.from({ length: this.tamanho }, () => new Array<boolean>(this.tamanho).fill(false));
+    this.funcao = Array.from({ length: this.tamanho }, () => new Array<boolean>(this.tamanho).fill(false));
+    this.desenharPadroesDeFuncao();
+  }
+
+  private definirFuncao(x: number, y: number, escuro: boolean) {
+    this.modulos[y][x] = escuro;
+    this.funcao[y][x] = true;
+  }
+
+  private desenharPadroesDeFuncao() {
+    for (let i = 0; i < this.tamanho; i++) {
+      this.definirFuncao(6, i, i % 2 === 0);
+      this.definirFuncao(i, 6, i % 2 === 0);
+    }
+    this.desenharLocalizador(3, 3);
+    this.desenharLocalizador(this.tamanho - 4, 3);
+    this.desenharLocalizador(3, this.tamanho - 4);
+
+    const alinhamentos = posicoesAlinhamento(this.versao);
+    const ultimo = alinhamentos.length - 1;
+    alinhamentos.forEach((ax, i) => {
+      alinhamentos.forEach((ay, j) => {
+        // Não sobrepõe os três localizadores
+        if ((i === 0 && j === 0) || (i === 0 && j === ultimo) || (i === ultimo && j === 0)) return;
+        this.desenharAlinhamento(ax, ay);
+      });
+    });
+
+    this.desenharFormato(0); // Reserva a área; o valor real é gravado após escolher a máscara
+    this.desenharVersao();
+  }
+
+  private desenharLocalizador(x: number, y: number) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const distancia = Math.max(Math.abs(dx), Math.abs(dy));
+        const xx = x + dx;
+        const yy = y + dy;
+        if (xx >= 0 && xx < this.tamanho && yy >= 0 && yy < this.tamanho) {
+          this.definirFuncao(xx, yy, distancia !== 2 && distancia !== 4);
+        }
+      }
+    }
+  }
+
+  private desenharAlinhamento(x: number, y: number) {
+    for (let dy = -2; dy <= 2; dy++) {
+      for (let dx = -2; dx <= 2; dx++) {
+        this.definirFuncao(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+      }
+    }
+  }
+
+  desenharFormato(mascara: number) {
+    const dados = (formatoNivel[this.nivel] << 3) | mascara;
+    let resto = dados;
+    for (let i = 0; i < 10; i++) resto = (resto << 1) ^ ((resto >>> 9) * 0x537);
+    const bits = ((dados << 10) | resto) ^ 0x5412;
+
+    for (let i = 0; i <= 5; i++) this.definirFuncao(8, i, bit(bits, i));
+    this.definirFuncao(8, 7, bit(bits, 6));
+    this.definirFuncao(8, 8, bit(bits, 7));
+    this.definirFuncao(7, 8, bit(bits, 8));
+    for (let i = 9; i < 15; i++) this.definirFuncao(14 - i, 8, bit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.definirFuncao(this.tamanho - 1 - i, 8, bit(bits, i));
+    for (let i = 8; i < 15; i++) this.definirFuncao(8, this.tamanho - 15 + i, bit(bits, i));
+    this.definirFuncao(8, this.tamanho - 8, true); // Módulo sempre escuro
+  }
+
+  private desenharVersao() {
+    if (this.versao < 7) return;
+    let resto = this.versao;
+    for (let i = 0; i < 12; i++) resto = (resto << 1) ^ ((resto >>> 11) * 0x1f25);
+    const bits = (this.versao << 12) | resto;
+    for (let i = 0; i < 18; i++) {
+      const escuro = bit(bits, i);
+      const a = this.tamanho - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.definirFuncao(a, b, escuro);
+      this.definirFuncao(b, a, escuro);
+    }
+  }
+
+  // Preenche em zigue-zague, de baixo para cima, em pares de colunas da direita para a esquerda
+  desenharCodewords(dados: number[]) {
+    let i = 0;
+    for (let direita = this.tamanho - 1; direita >= 1; direita -= 2) {
+      if (direita === 6) direita = 5;
+      for (let vertical = 0; vertical < this.tamanho; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = direita - j;
+          const paraCima = ((direita + 1) & 2) === 0;
+          const y = paraCima ? this.tamanho - 1 - vertical : vertical;
+          if (!this.funcao[y][x] && i < dados.length * 8) {
+            this.modulos[y][x] = bit(dados[i >>> 3], 7 - (i & 7));
+            i++;
+          }
+        }
+      }
+    }
+  }
+
+  aplicarMascara(mascara: number) {
+    for (let y = 0; y < this.tamanho; y++) {
+      for (let x = 0; x < this.tamanho; x++) {
+        if (!this.funcao[y][x] && aplicaMascara(mascara, x, y)) this.modulos[y][x] = !this.modulos[y][x];
+      }
+    }
+  }
+
+  penalidade(): number {
+    let resultado = 0;
+    const tamanho = this.tamanho;
+
+    const penalidadeLinha = (leitura: (i: number) => boolean): number => {
+      let pontos = 0;
+      let corAtual = false;
+      let sequencia = 0;
+      const historico = [0, 0, 0, 0, 0, 0, 0];
+      const contarPadraoLocalizador = (): number => {
+        const n = historico[1];
+        const nucleo = n > 0 && historico[2] === n && historico[3] === n * 3 && historico[4] === n && historico[5] === n;
+        return (nucleo && historico[0] >= n * 4 && historico[6] >= n ? 1 : 0) +
+          (nucleo && historico[6] >= n * 4 && historico[0] >= n ? 1 : 0);
+      };
+      const adicionarHistorico = (comprimento: number) => {
+        if (historico[0] === 0) comprimento += tamanho; // Borda clara antes da primeira sequência
+        historico.pop();
+        historico.unshift(comprimento);
+      };
+
+      for (let i = 0; i < tamanho; i++) {
+        if (leitura(i) === corAtual) {
+          sequencia++;
+          if (sequencia === 5) pontos += PENALIDADE_N1;
+          else if (sequencia > 5) pontos++;
+        } else {
+          adicionarHistorico(sequencia);
+          if (!corAtual) pontos += contarPadraoLocalizador() * PENALIDADE_N3;
+          corAtual = leitura(i);
+          sequencia = 1;
+        }
+      }
+      // Fecha a linha considerando a borda clara após o último módulo
+      if (corAtual) {
+        adicionarHistorico(sequencia);
+        sequencia = 0;
+      }
+      sequencia += tamanho;
+      adicionarHistorico(sequencia);
+      pontos += contarPadraoLocalizador() * PENALIDADE_N3;
+      return pontos;
+    };
+
+    for (let y = 0; y < tamanho; y++) resultado += penalidadeLinha(x => this.modulos[y][x]);
+    for (let x = 0; x < tamanho; x++) resultado += penalidadeLinha(y => this.modulos[y][x]);
+
+    for (let y = 0; y < tamanho - 1; y++) {
+      for (let x = 0; x < tamanho - 1; x++) {
+        const cor = this.modulos[y][x];
+        if (cor === this.modulos[y][x + 1] && cor === this.modulos[y + 1][x] && cor === this.modulos[y + 1][x + 1]) {
+          resultado += PENALIDADE_N2;
+        }
+      }
+    }
+
+    const escuros = this.modulos.reduce((soma, linha) => soma + linha.filter(Boolean).length, 0);
+    const total = tamanho * tamanho;
+    const k = Math.ceil(Math.abs(escuros * 20 - total * 10) / total) - 1;
+    resultado += k * PENALIDADE_N4;
+    return resultado;
+  }
+}
+
+// Devolve a matriz de módulos (true = escuro), sem a zona de silêncio
+export const gerarQrCode = (texto: string, nivel: NivelCorrecao = "M"): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(texto));
+
+  let versao = 1;
+  for (; versao <= 40; versao++) {
+    const bitsContagem = versao <= 9 ? 8 : 16;
+    if (4 + bitsContagem + bytes.length * 8 <= codewordsDeDados(versao, nivel) * 8) break;
+  }
+  if (versao > 40) throw new Error("Texto longo demais para um QR Code.");
+
+  const bits: number[] = [];
+  const anexar = (valor: number, comprimento: number) => {
+    for (let i = comprimento - 1; i >= 0; i--) bits.push((valor >>> i) & 1);
+  };
+  anexar(0b0100, 4); // Modo byte
+  anexar(bytes.length, versao <= 9 ? 8 : 16);
+  bytes.forEach(b => anexar(b, 8));
+
+  const capacidade = codewordsDeDados(versao, nivel) * 8;
+  anexar(0, Math.min(4, capacidade - bits.length));
+  anexar(0, (8 - (bits.length % 8)) % 8);
+  for (let preenchimento = 0xec; bits.length < capacidade; preenchimento ^= 0xec ^ 0x11) {
+    anexar(preenchimento, 8);
+  }
+
+  const dados: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    dados.push(bits.slice(i, i + 8).reduce((byte, b) => (byte << 1) | b, 0));
+  }
+
+  const matriz = new MatrizQr(versao, nivel);
+  matriz.desenharCodewords(adicionarCorrecaoEIntercalar(dados, versao, nivel));
+
+  let melhorMascara = 0;
+  let menorPenalidade = Infinity;
+  for (let mascara = 0; mascara < 8; mascara++) {
+    matriz.aplicarMascara(mascara);
+    matriz.desenharFormato(mascara);
+    const penalidade = matriz.penalidade();
+    if (penalidade < menorPenalidade) {
+      melhorMascara = mascara;
+      menorPenalidade = penalidade;
+    }
+    matriz.aplicarMascara(mascara); // Desfaz (XOR)
+  }
+  matriz.aplicarMascara(melhorMascara);
+  matriz.desenharFormato(melhorMascara);
+
+  return matriz.modulos;
+};
@@ -0,0 +1,184 @@
+import { supabase } from "../supabaseClient";
+import { normalizarTexto, parseComanda } from "./comandaParser";
+import { valorInformadoPedido, type ItemFrequente } from "./clientes";
+import { categoriaMotivo, pedidoCancelado, reembolsoPendente } from "./cancelamento";
+import { dataDoPedido, inicioDoDia, somarDias, type DataFechamento } from "./fechamento";
+import { calcularPeriodosStatus, type HistoricoPedido } from "./historico";
+import { buscarTodasAsPaginas } from "./paginacao";
+import { statusOptions, type Pedido, type StatusPedido } from "./pedidos";
+
+// Indicadores da tela de Relatórios. As agregações são puras; as consultas juntam os pedidos
+// do painel com os já arquivados no fechamento do dia. Pedidos cancelados contam no volume e na
+// taxa de cancelamento, mas não no valor vendido nem nos itens.
+
+export interface PeriodoRelatorio {
+  de: DataFechamento;
+  ate: DataFechamento; // Inclusivo
+}
+
+export interface PedidosPorHora {
+  hora: string;
+  pedidos: number;
+}
+
+export interface TempoMedioStatus {
+  status: StatusPedido;
+  minutos: number;
+  amostras: number;
+}
+
+export interface ResumoDiario {
+  data: DataFechamento;
+  pedidos: number;
+  pagos: number;
+  cancelados: number;
+  valor: number; // Soma dos valores informados nas comandas não canceladas
+}
+
+export interface ResumoCancelamentos {
+  total: number;
+  cancelados: number;
+  taxa: number; // Percentual sobre o total de pedidos
+  reembolsosPendentes: number;
+  porMotivo: { motivo: string; pedidos: number }[];
+}
+
+export const diasDoPeriodo = (periodo: PeriodoRelatorio): DataFechamento[] => {
+  const dias: DataFechamento[] = [];
+  for (let data = periodo.de; data <= periodo.ate && dias.length < 366; data = somarDias(data, 1)) {
+    dias.push(data);
+  }
+  return dias;
+};
+
+// Em páginas: o histórico tem várias linhas por pedido e passa do limite de uma resposta em poucos
+// dias movimentados (ver lib/paginacao)
+export const buscarPedidosDoPeriodo = async (periodo: PeriodoRelatorio) => {
+  const inicio = inicioDoDia(periodo.de);
+  const fim = inicioDoDia(somarDias(periodo.ate, 1));
+  const [ativos, arquivados] = await Promise.all([
+    buscarTodasAsPaginas<Pedido>((de, ate) =>
+      supabase.from("Comandas").select("*").gte("hora_criacao_pedido", inicio).lt("hora_criacao_pedido", fim).order("id").range(de, ate)
+    ),
+    buscarTodasAsPaginas<Pedido>((de, ate) =>
+      supabase.from("Comandas_arquivo").select("*").gte("hora_criacao_pedido", inicio).lt("hora_criacao_pedido", fim).order("id").range(de, ate)
+    ),
+  ]);
+  const error = ativos.error || arquivados.error;
+  return {
+    data: error ? null : [...(ativos.data ?? []), ...(arquivados.data ?? [])],
+    error,
+  };
+};
+
+// Mudanças de status ocorridas no período (e no dia seguinte, para pedidos que viraram a noite)
+export const buscarHistoricoDoPeriodo = (periodo: PeriodoRelatorio) =>
+  buscarTodasAsPaginas<HistoricoPedido>((de, ate) =>
+    supabase
+      .from("Comandas_historico")
+      .select("*")
+      .gte("alterado_em", inicioDoDia(periodo.de))
+      .lt("alterado_em", inicioDoDia(somarDias(periodo.ate, 2)))
+      .order("alterado_em", { ascending: true })
+      .order("id", { ascending: true })
+      .range(de, ate)
+  );
+
+const horaDoPedido = (timestamp: string): number =>
+  Number(new Date(timestamp).toLocaleString("en-US", { timeZone: "America/Sao_Paulo", hour: "2-digit", hour12: false })) % 24;
+
+// Da primeira à última hora com pedidos, incluindo as horas vazias no meio
+export const calcularPedidosPorHora = (pedidos: Pedido[]): PedidosPorHora[] => {
+  if (pedidos.length === 0) return [];
+  const contagem = new Array<number>(24).fill(0);
+  pedidos.forEach(p => {
+    contagem[horaDoPedido(p.hora_criacao_pedido)] += 1;
+  });
+  const primeira = contagem.findIndex(n => n > 0);
+  const ultima = 23 - [...contagem].reverse().findIndex(n => n > 0);
+  return contagem
+    .slice(primeira, ultima + 1)
+    .map((n, i) => ({ hora: `${String(primeira + i).padStart(2, "0")}h`, pedidos: n }));
+};
+
+// Só entram períodos já encerrados; "Entregue" é o status final e não tem duração
+export const calcularTempoMedioPorStatus = (pedidos: Pedido[], historico: HistoricoPedido[]): TempoMedioStatus[] => {
+  const historicoPorPedido = new Map<number, HistoricoPedido[]>();
+  historico.forEach(h => historicoPorPedido.set(h.comanda_id, [...(historicoPorPedido.get(h.comanda_id) ?? []), h]));
+
+  const somas = new Map<StatusPedido, { total: number; amostras: number }>();
+  pedidos.forEach(pedido => {
+    calcularPeriodosStatus(pedido, historicoPorPedido.get(pedido.id) ?? []).forEach(periodo => {
+      if (!periodo.fim) return;
+      const duracao = new Date(periodo.fim).getTime() - new Date(periodo.inicio).getTime();
+      const atual = somas.get(periodo.status) ?? { total: 0, amostras: 0 };
+      somas.set(periodo.status, { total: atual.total + duracao, amostras: atual.amostras + 1 });
+    });
+  });
+
+  return statusOptions
+    .filter(status => status !== "Entregue" && somas.has(status))
+    .map(status => {
+      const { total, amostras } = somas.get(status)!;
+      return { status, minutos: Math.round(total / amostras / 60000), amostras };
+    });
+};
+
+export const calcularItensMaisVendidos = (pedidos: Pedido[], limite: number = 10): ItemFrequente[] => {
+  const itens = new Map<string, ItemFrequente>();
+  pedidos.filter(p => !pedidoCancelado(p)).forEach(pedido => {
+    const vistosNestePedido = new Set<string>();
+    parseComanda(pedido.comanda).itens.forEach(item => {
+      const chave = normalizarTexto(item.produto);
+      const atual = itens.get(chave) ?? { produto: item.produto, quantidade: 0, pedidos: 0 };
+      atual.quantidade += item.quantidade;
+      if (!vistosNestePedido.has(chave)) {
+        atual.pedidos += 1;
+        vistosNestePedido.add(chave);
+      }
+      itens.set(chave, atual);
+    });
+  });
+  return Array.from(itens.values())
+    .sort((a, b) => b.quantidade - a.quantidade || b.pedidos - a.pedidos)
+    .slice(0, limite);
+};
+
+export const calcularResumoDiario = (pedidos: Pedido[], periodo: PeriodoRelatorio): ResumoDiario[] => {
+  const porDia = new Map<DataFechamento, ResumoDiario>(
+    diasDoPeriodo(periodo).map(data => [data, { data, pedidos: 0, pagos: 0, cancelados: 0, valor: 0 }])
+  );
+  pedidos.forEach(pedido => {
+    const resumo = porDia.get(dataDoPedido(pedido.hora_criacao_pedido));
+    if (!resumo) return;
+    resumo.pedidos += 1;
+    if (pedidoCancelado(pedido)) {
+      resumo.cancelados += 1;
+      return;
+    }
+    if (pedido.pagamento === "Pago") resumo.pagos += 1;
+    resumo.valor += valorInformadoPedido(pedido) ?? 0;
+  });
+  return Array.from(porDia.values());
+};
+
+export const calcularCancelamentos = (pedidos: Pedido[]): ResumoCancelamentos => {
+  const cancelados = pedidos.filter(pedidoCancelado);
+  const porMotivo = new Map<string, number>();
+  cancelados.forEach(p => {
+    const motivo = categoriaMotivo(p.motivo_cancelamento);
+    porMotivo.set(motivo, (porMotivo.get(motivo) ?? 0) + 1);
+  });
+  return {
+    total: pedidos.length,
+    cancelados: cancelados.length,
+    taxa: pedidos.length > 0 ? Math.round((cancelados.length / pedidos.length) * 1000) / 10 : 0,
+    reembolsosPendentes: cancelados.filter(reembolsoPendente).length,
+    porMotivo: Array.from(porMotivo, ([motivo, quantidade]) => ({ motivo, pedidos: quantidade }))
+      .sort((a, b) => b.pedidos - a.pedidos),
+  };
+};
+
+// Variação percentual entre dois valores; indefinida quando não há base de comparação
+export const variacaoPercentual = (atual: number, anterior: number): number | undefined =>
+  anterior > 0 ? Math.round(((atual - anterior) / anterior) * 100) : undefined;
@@ -0,0 +1,39 @@
+import { beforeAll, describe, expect, it, vi } from "vitest";
+import { criarRepositoriosMemoria } from "./repositorioMemoria";
+import { MENSAGEM_NENHUMA_LINHA } from "./repositorios";
+
+// A mensagem de erro vem de lib/repositorios, que também carrega o cliente do Supabase; ele só
+// precisa de um endereço para ser criado, nenhuma requisição sai daqui
+vi.hoisted(() => {
+  vi.stubEnv("VITE_SUPABASE_URL", "http://localhost:54321");
+  vi.stubEnv("VITE_SUPABASE_ANON_KEY", "sem-projeto");
+});
+
+// Os eventos são emitidos com window.setTimeout
+beforeAll(() => {
+  vi.stubGlobal("window", globalThis);
+});
+
+describe("atualizar", () => {
+  it("altera a linha quando as condições batem", async () => {
+    const { pedidos } = criarRepositoriosMemoria();
+    const resultado = await pedidos.atualizar(1, { pagamento: "Aguardando pagamento" }, { pagamento: "Pago" });
+    expect(resultado.error).toBeNull();
+    expect((await pedidos.buscarColunas(1, ["pagamento"])).data).toEqual({ pagamento: "Aguardando pagamento" });
+  });
+
+  it("devolve conflito quando as condições não batem, como no reembolso registrado duas vezes", async () => {
+    const { pedidos } = criarRepositoriosMemoria();
+    await pedidos.atualizar(1, { pagamento: "Aguardando pagamento" }, { pagamento: "Pago" });
+    const resultado = await pedidos.atualizar(1, { pagamento: "Aguardando pagamento" }, { pagamento: "Pago" });
+    expect(resultado.status).toBe(409);
+    expect(resultado.error).toEqual({ message: MENSAGEM_NENHUMA_LINHA });
+  });
+
+  it("devolve conflito para linha que não existe", async () => {
+    const { cardapio } = criarRepositoriosMemoria();
+    const resultado = await cardapio.atualizar(999, { preco: 10 });
+    expect(resultado.status).toBe(409);
+    expect(resultado.error).toEqual({ message: MENSAGEM_NENHUMA_LINHA });
+  });
+});
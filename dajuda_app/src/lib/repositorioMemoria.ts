@@ -0,0 +1,178 @@
+import type { Pedido } from "./pedidos";
+import type { EventoRealtime } from "./sincronizacao";
+import {
+  MENSAGEM_NENHUMA_LINHA,
+  type ItemCardapioBanco,
+  type OpcoesAssinatura,
+  type RepositorioCardapio,
+  type RepositorioPedidos,
+  type RepositorioTabela,
+  type Repositorios,
+  type Resultado,
+} from "./repositorios";
+
+// Implementação dos repositórios em memória (ver lib/repositorios). Cada alteração emite para os
+// assinantes o mesmo evento que o Realtime do Supabase emitiria. Dos triggers do banco só o
+// horário de mudança de status é reproduzido; histórico, versões e fechamento não existem aqui.
+
+export interface DadosMemoria {
+  pedidos: Pedido[];
+  cardapio: ItemCardapioBanco[];
+}
+
+const copiar = <T,>(valor: T): T => structuredClone(valor);
+
+const ok = <T,>(data: T | null, status: number = 200): Resultado<T> => ({ data, error: null, status });
+
+// Tabela com id sequencial e emissão de eventos; `aoAtualizar` faz o papel dos triggers
+const criarTabelaMemoria = <T extends { id: number }>(
+  tabela: string,
+  linhasIniciais: T[],
+  ordenar: (a: T, b: T) => number,
+  aoAtualizar: (atual: T, alteracoes: Record<string, unknown>) => Record<string, unknown> = () => ({})
+) => {
+  let linhas = copiar(linhasIniciais);
+  let proximoId = Math.max(0, ...linhas.map(l => l.id)) + 1;
+  const assinantes = new Set<OpcoesAssinatura>();
+
+  const emitir = (eventType: "INSERT" | "UPDATE" | "DELETE", novo: object, antigo: object) => {
+    const evento = {
+      schema: "public",
+      table: tabela,
+      commit_timestamp: new Date().toISOString(),
+      errors: [],
+      eventType,
+      new: novo,
+      old: antigo,
+    } as EventoRealtime;
+    // Como no Realtime, o evento chega depois da resposta da requisição
+    window.setTimeout(() => assinantes.forEach(assinante => assinante.aoEvento(copiar(evento))), 0);
+  };
+
+  const repositorio: RepositorioTabela<T> = {
+    tabela,
+
+    listar: async () => ok(copiar([...linhas].sort(ordenar))),
+
+    buscarColunas: async (id, colunas) => {
+      const linha = linhas.find(l => l.id === id) as Record<string, unknown> | undefined;
+      return ok(linha ? Object.fromEntries(colunas.map(c => [c, copiar(linha[c] ?? null)])) : null);
+    },
+
+    atualizar: async (id, alteracoes, condicoes = {}) => {
+      const atual = linhas.find(l => l.id === id) as (T & Record<string, unknown>) | undefined;
+      // Como no repositório do Supabase, nenhuma linha atendendo ao filtro é conflito
+      if (!atual || Object.entries(condicoes).some(([coluna, valor]) => atual[coluna] !== valor)) {
+        return { data: null, error: { message: MENSAGEM_NENHUMA_LINHA }, status: 409 };
+      }
+      const nova = { ...atual, ...copiar(alteracoes), ...aoAtualizar(atual, alteracoes) } as T;
+      linhas = linhas.map(l => (l.id === id ? nova : l));
+      emitir("UPDATE", nova, { id });
+      return ok(null);
+    },
+
+    assinar: (opcoes) => {
+      assinantes.add(opcoes);
+      window.setTimeout(() => {
+        if (assinantes.has(opcoes)) opcoes.aoStatus("SUBSCRIBED");
+      }, 0);
+      return async () => {
+        assinantes.delete(opcoes);
+      };
+    },
+  };
+
+  const inserir = (registro: Omit<T, "id"> & { id?: number }): T => {
+    const id = registro.id ?? proximoId;
+    proximoId = Math.max(proximoId, id + 1);
+    const nova = { ...copiar(registro), id } as T;
+    linhas = [...linhas, nova];
+    emitir("INSERT", nova, {});
+    return nova;
+  };
+
+  const remover = (id: number): boolean => {
+    if (!linhas.some(l => l.id === id)) return false;
+    linhas = linhas.filter(l => l.id !== id);
+    emitir("DELETE", {}, { id });
+    return true;
+  };
+
+  return { repositorio, inserir, remover };
+};
+
+const minutosAtras = (minutos: number): string => new Date(Date.now() - minutos * 60000).toISOString();
+
+// Alguns itens e pedidos para a tela não abrir vazia
+export const dadosExemplo = (): DadosMemoria => ({
+  cardapio: [
+    { id: 1, nome_produto: "Marmita do Dia", categoria: "Marmita do Dia", disponivel: "Sim", descricao_produto: "Arroz, feijão, salada e a carne do dia", observacao: null, preco: 22, preco_promocional: null },
+    { id: 2, nome_produto: "Marmita de Frango Grelhado", categoria: "Marmita Clássica", disponivel: "Sim", descricao_produto: "Arroz, feijão, legumes e filé de frango", observacao: null, preco: 24, preco_promocional: null },
+    { id: 3, nome_produto: "Omelete de Queijo", categoria: "Omeletes", disponivel: "Sim", descricao_produto: null, observacao: null, preco: 18, preco_promocional: 16 },
+    { id: 4, nome_produto: "Mix de Folhas", categoria: "Mix de Salada", disponivel: "Sim", descricao_produto: "Alface, rúcula, tomate e cenoura", observacao: null, preco: 15, preco_promocional: null },
+    { id: 5, nome_produto: "Refrigerante Lata", categoria: "Bebida", disponivel: "Sim", descricao_produto: null, observacao: null, preco: 6, preco_promocional: null },
+    { id: 6, nome_produto: "Suco Natural", categoria: "Bebida", disponivel: "Não", descricao_produto: null, observacao: "Só laranja", preco: 8, preco_promocional: null },
+    { id: 7, nome_produto: "Ovo Frito", categoria: "Adicional", disponivel: "Sim", descricao_produto: null, observacao: null, preco: 3, preco_promocional: null },
+  ],
+  pedidos: [
+    {
+      id: 1,
+      comanda: "*Pedido:*\n1x Marmita do Dia + Ovo Frito - R$ 25,00\n1x Refrigerante Lata - R$ 6,00\n\n*Nome:* Ana\n*Entrega:* Retirada\n*Pagamento:* Pix\n*Total:* R$ 31,00",
+      telefone_key: "5511988887777",
+      nome_cliente: "Ana",
+      status_pedido: "Em preparo",
+      pagamento: "Pago",
+      hora_criacao_pedido: minutosAtras(12),
+      status_alterado_em: minutosAtras(8),
+      versao: 1,
+    },
+    {
+      id: 2,
+      comanda: "*Pedido:*\n2x Marmita de Frango Grelhado - R$ 48,00\n   Obs: sem cebola\n\n*Nome:* Carlos\n*Entrega:* Entrega\n*Endereço:* Rua das Flores, 120\n*Bairro:* Centro\n*Pagamento:* Dinheiro (troco para R$ 100,00)\n*Taxa de entrega:* R$ 5,00\n*Total:* R$ 53,00",
+      telefone_key: "5511977776666",
+      nome_cliente: "Carlos",
+      status_pedido: "Aguardando",
+      pagamento: "Aguardando pagamento",
+      hora_criacao_pedido: minutosAtras(3),
+      status_alterado_em: minutosAtras(3),
+      versao: 1,
+    },
+  ],
+});
+
+const ordenarPedidos = (a: Pedido, b: Pedido): number =>
+  new Date(b.hora_criacao_pedido).getTime() - new Date(a.hora_criacao_pedido).getTime() || b.id - a.id;
+
+const ordenarItens = (a: ItemCardapioBanco, b: ItemCardapioBanco): number =>
+  (a.nome_produto ?? "").localeCompare(b.nome_produto ?? "", "pt-BR");
+
+export const criarRepositoriosMemoria = (dados: DadosMemoria = dadosExemplo()): Repositorios => {
+  const comandas = criarTabelaMemoria<Pedido>("Comandas", dados.pedidos, ordenarPedidos, (atual, alteracoes) =>
+    alteracoes.status_pedido !== undefined && alteracoes.status_pedido !== atual.status_pedido
+      ? { status_alterado_em: new Date().toISOString() }
+      : {}
+  );
+  const itens = criarTabelaMemoria<ItemCardapioBanco>("Cárdapio", dados.cardapio, ordenarItens);
+
+  const pedidos: RepositorioPedidos = {
+    ...comandas.repositorio,
+    criar: async (pedido) => {
+      const novo = comandas.inserir({ versao: 1, status_alterado_em: pedido.hora_criacao_pedido, ...pedido });
+      return ok({ id: novo.id }, 201);
+    },
+  };
+
+  const cardapio: RepositorioCardapio = {
+    ...itens.repositorio,
+    criar: async (item) => {
+      itens.inserir(item);
+      return ok(null, 201);
+    },
+    remover: async (id) => {
+      itens.remover(id);
+      return ok(null, 204);
+    },
+  };
+
+  return { pedidos, cardapio };
+};
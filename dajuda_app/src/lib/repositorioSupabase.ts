@@ -0,0 +1,73 @@
+import { supabase } from "../supabaseClient";
+import type { Pedido } from "./pedidos";
+import type { EventoRealtime } from "./sincronizacao";
+import {
+  MENSAGEM_NENHUMA_LINHA,
+  type ItemCardapioBanco,
+  type RepositorioCardapio,
+  type RepositorioPedidos,
+  type RepositorioTabela,
+  type Repositorios,
+} from "./repositorios";
+
+// Implementação dos repositórios sobre o Supabase (ver lib/repositorios)
+
+export const criarRepositorioTabela = <T,>(tabela: string, ordem: { coluna: string; crescente: boolean }): RepositorioTabela<T> => ({
+  tabela,
+
+  listar: async () => {
+    const { data, error, status } = await supabase.from(tabela).select("*").order(ordem.coluna, { ascending: ordem.crescente });
+    return { data: data as T[] | null, error, status };
+  },
+
+  buscarColunas: async (id, colunas) => {
+    const { data, error, status } = await supabase.from(tabela).select(colunas.join(",")).eq("id", id).maybeSingle();
+    return { data: data as Record<string, unknown> | null, error, status };
+  },
+
+  // O PostgREST responde sucesso mesmo sem linha alterada (id inexistente, `condicoes` que não batem
+  // ou política que esconde a linha); o id devolvido é o que mostra que a alteração aconteceu.
+  // Condição nula vira "is null", que o "eq" do match não cobre.
+  atualizar: async (id, alteracoes, condicoes = {}) => {
+    const consulta = Object.entries(condicoes).reduce(
+      (filtro, [coluna, valor]) => (valor === null ? filtro.is(coluna, null) : filtro.eq(coluna, valor)),
+      supabase.from(tabela).update(alteracoes).eq("id", id)
+    );
+    const { data, error, status } = await consulta.select("id");
+    if (!error && (data ?? []).length === 0) return { data: null, error: { message: MENSAGEM_NENHUMA_LINHA }, status: 409 };
+    return { data: null, error, status };
+  },
+
+  assinar: ({ canal, aoEvento, aoStatus }) => {
+    const channel = supabase
+      .channel(canal)
+      .on("postgres_changes", { event: "*", schema: "public", table: tabela }, (evento: EventoRealtime) => aoEvento(evento))
+      .subscribe(aoStatus);
+    return () => supabase.removeChannel(channel);
+  },
+});
+
+const pedidos: RepositorioPedidos = {
+  ...criarRepositorioTabela<Pedido>("Comandas", { coluna: "hora_criacao_pedido", crescente: false }),
+
+  criar: async (pedido) => {
+    const { data, error, status } = await supabase.from("Comandas").insert([pedido]).select("id").single();
+    return { data, error, status };
+  },
+};
+
+const cardapio: RepositorioCardapio = {
+  ...criarRepositorioTabela<ItemCardapioBanco>("Cárdapio", { coluna: "nome_produto", crescente: true }),
+
+  criar: async (item) => {
+    const { error, status } = await supabase.from("Cárdapio").insert([item]);
+    return { data: null, error, status };
+  },
+
+  remover: async (id) => {
+    const { error, status } = await supabase.from("Cárdapio").delete().eq("id", id);
+    return { data: null, error, status };
+  },
+};
+
+export const repositoriosSupabase: Repositorios = { pedidos, cardapio };
@@ -0,0 +1,85 @@
+import type { EventoRealtime } from "./sincronizacao";
+import type { Pedido } from "./pedidos";
+import { repositoriosSupabase } from "./repositorioSupabase";
+import { criarRepositoriosMemoria, dadosExemplo } from "./repositorioMemoria";
+import { modoDemoAtivo } from "./modoDemo";
+
+// Acesso às Comandas e ao Cárdapio por trás de interfaces, para a interface poder rodar contra
+// o Supabase ou contra um backend em memória (VITE_BACKEND=memoria), sem projeto no ar.
+// As duas implementações devolvem { data, error, status } como o supabase-js e emitem os mesmos
+// eventos do Realtime, então quem consome não sabe qual delas está por trás. Relatórios, clientes,
+// fechamento e os históricos de status e de versões ainda consultam o Supabase direto.
+
+export interface ErroRepositorio {
+  message: string;
+}
+
+export interface Resultado<T> {
+  data: T | null;
+  error: ErroRepositorio | null;
+  status: number; // 0 quando a requisição nem chegou ao servidor (sem conexão)
+}
+
+export type StatusAssinatura = "SUBSCRIBED" | "CHANNEL_ERROR" | "TIMED_OUT" | "CLOSED";
+
+export interface OpcoesAssinatura {
+  canal: string;
+  aoEvento: (evento: EventoRealtime) => void;
+  aoStatus: (status: StatusAssinatura, erro?: Error) => void;
+}
+
+// Erro do `atualizar` quando nenhuma linha foi alterada, nas duas implementações
+export const MENSAGEM_NENHUMA_LINHA = "Nenhuma linha alterada: o registro não existe mais ou já foi alterado por outra pessoa";
+
+export interface RepositorioTabela<T> {
+  tabela: string;
+  listar: () => Promise<Resultado<T[]>>;
+  // Só as colunas pedidas; `data` nulo quando a linha não existe
+  buscarColunas: (id: number, colunas: string[]) => Promise<Resultado<Record<string, unknown>>>;
+  // `condicoes`: colunas que precisam ter esses valores para a linha ser alterada. Nenhuma linha
+  // alterada volta como erro, com status 409
+  atualizar: (id: number, alteracoes: Record<string, unknown>, condicoes?: Record<string, unknown>) => Promise<Resultado<null>>;
+  // Devolve a função que encerra a assinatura
+  assinar: (opcoes: OpcoesAssinatura) => () => Promise<unknown>;
+}
+
+export type NovoPedido = Pick<Pedido, "comanda" | "telefone_key" | "nome_cliente" | "status_pedido" | "pagamento" | "hora_criacao_pedido"> & {
+  atualizado_por?: string | null;
+};
+
+export interface RepositorioPedidos extends RepositorioTabela<Pedido> {
+  criar: (pedido: NovoPedido) => Promise<Resultado<{ id: number }>>;
+}
+
+// Linha do Cárdapio como está no banco (a página converte para o formato de edição)
+export interface ItemCardapioBanco {
+  id: number;
+  nome_produto: string | null;
+  categoria: string | null;
+  disponivel: string | boolean | null;
+  descricao_produto: string | null;
+  observacao: string | null;
+  preco: number | null;
+  preco_promocional: number | null;
+}
+
+export interface RepositorioCardapio extends RepositorioTabela<ItemCardapioBanco> {
+  criar: (item: Omit<ItemCardapioBanco, "id"> & { id?: number }) => Promise<Resultado<null>>; // A página escolhe o id
+  remover: (id: number) => Promise<Resultado<null>>;
+}
+
+export interface Repositorios {
+  pedidos: RepositorioPedidos;
+  cardapio: RepositorioCardapio;
+}
+
+export type BackendDados = "supabase" | "memoria";
+
+export const backendDados: BackendDados =
+  import.meta.env.VITE_BACKEND === "memoria" || modoDemoAtivo() ? "memoria" : "supabase";
+
+// A demonstração começa sem pedidos e com o cardápio real copiado depois (ver lib/geradorDemo)
+export const repositorios: Repositorios =
+  backendDados === "supabase"
+    ? repositoriosSupabase
+    : criarRepositoriosMemoria(modoDemoAtivo() ? { pedidos: [], cardapio: [] } : dadosExemplo());
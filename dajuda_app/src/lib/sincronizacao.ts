@@ -0,0 +1,71 @@
+import type { RealtimePostgresChangesPayload } from "@supabase/supabase-js";
+
+// Aplicação incremental dos eventos do Realtime sobre a lista em memória. Cada INSERT/UPDATE/DELETE
+// altera só a linha afetada, mantendo a ordem da lista; a busca completa fica para a carga
+// inicial, as reconciliações periódicas e a volta de uma queda de conexão.
+
+export type LinhaComId = { id: number };
+
+export type EventoRealtime = RealtimePostgresChangesPayload<Record<string, unknown>>;
+
+export type Ordenacao<T> = (a: T, b: T) => number;
+
+// Posição de inserção que mantém a lista ordenada; empates entram depois dos iguais
+const posicaoOrdenada = <T,>(lista: T[], linha: T, ordenar: Ordenacao<T>): number => {
+  let inicio = 0;
+  let fim = lista.length;
+  while (inicio < fim) {
+    const meio = (inicio + fim) >> 1;
+    if (ordenar(lista[meio], linha) <= 0) inicio = meio + 1;
+    else fim = meio;
+  }
+  return inicio;
+};
+
+// Insere ou substitui a linha pelo id. UPDATE de uma linha desconhecida (ex.: perdida numa queda)
+// entra como nova; colunas ausentes no evento mantêm o valor que já estava na lista.
+export const mesclarLinha = <T extends LinhaComId>(lista: T[], linha: T, ordenar: Ordenacao<T>): T[] => {
+  const atual = lista.find(l => l.id === linha.id);
+  const semAtual = atual ? lista.filter(l => l.id !== linha.id) : lista;
+  const mesclada = atual ? { ...atual, ...linha } : linha;
+  const resultado = [...semAtual];
+  resultado.splice(posicaoOrdenada(semAtual, mesclada, ordenar), 0, mesclada);
+  return resultado;
+};
+
+export const removerLinha = <T extends LinhaComId>(lista: T[], id: number): T[] =>
+  lista.some(l => l.id === id) ? lista.filter(l => l.id !== id) : lista;
+
+// Id da linha afetada pelo evento; DELETE só traz a chave primária em `old`
+export const idDoEvento = (evento: EventoRealtime): number | undefined => {
+  const registro = evento.eventType === "DELETE" ? evento.old : evento.new;
+  return typeof registro?.id === "number" ? registro.id : undefined;
+};
+
+export const aplicarEvento = <T extends LinhaComId>(
+  lista: T[],
+  evento: EventoRealtime,
+  ordenar: Ordenacao<T>,
+  converter: (registro: Record<string, unknown>) => T = registro => registro as T
+): T[] => {
+  const id = idDoEvento(evento);
+  if (id === undefined) return lista;
+  if (evento.eventType === "DELETE") return removerLinha(lista, id);
+  return mesclarLinha(lista, converter(evento.new), ordenar);
+};
+
+// Linhas que faltavam ou sobravam no estado incremental em relação à busca completa: sinal de
+// eventos perdidos. Só compara os ids, porque o Realtime e a API formatam datas e números de
+// jeitos diferentes.
+export const contarDivergencias = (local: LinhaComId[], remoto: LinhaComId[]): number => {
+  const locais = new Set(local.map(l => l.id));
+  const remotos = new Set(remoto.map(l => l.id));
+  let divergencias = 0;
+  remotos.forEach(id => {
+    if (!locais.has(id)) divergencias += 1;
+  });
+  locais.forEach(id => {
+    if (!remotos.has(id)) divergencias += 1;
+  });
+  return divergencias;
+};
@@ -0,0 +1,67 @@
+import type { Pedido, StatusPedido } from "./pedidos";
+
+// Tempos limite (em minutos) para cada status. Passado o limite de "atencao" o card fica amarelo,
+// passado o de "atraso" fica vermelho. `null` desativa o controle para aquele status.
+
+export type NivelSla = "ok" | "atencao" | "atraso";
+
+export interface LimiteSla {
+  atencao: number;
+  atraso: number;
+}
+
+export type ConfigSla = Record<StatusPedido, LimiteSla | null>;
+
+const STORAGE_KEY = "dajuda.sla";
+
+export const configSlaPadrao: ConfigSla = {
+  "Aguardando": { atencao: 5, atraso: 10 },
+  "Em preparo": { atencao: 15, atraso: 25 },
+  "Pronto": { atencao: 5, atraso: 10 },
+  "Enviado": { atencao: 30, atraso: 45 },
+  "Entregue": null,
+  "Cancelado": null,
+};
+
+export const pesoNivelSla: Record<NivelSla, number> = { ok: 0, atencao: 1, atraso: 2 };
+
+export const obterConfigSla = (): ConfigSla => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? { ...configSlaPadrao, ...JSON.parse(salvo) } : configSlaPadrao;
+  } catch (e) {
+    console.error("Erro ao ler configuração de tempos limite:", e);
+    return configSlaPadrao;
+  }
+};
+
+export const salvarConfigSla = (config: ConfigSla) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar configuração de tempos limite:", e);
+  }
+};
+
+// Momento em que o pedido entrou no status atual
+export const inicioStatusAtual = (pedido: Pedido): string =>
+  pedido.status_alterado_em || pedido.hora_criacao_pedido;
+
+export const calcularNivelSla = (pedido: Pedido, config: ConfigSla, agora: number): NivelSla => {
+  const limite = config[pedido.status_pedido];
+  if (!limite) return "ok";
+  const minutos = (agora - new Date(inicioStatusAtual(pedido)).getTime()) / 60000;
+  if (minutos >= limite.atraso) return "atraso";
+  if (minutos >= limite.atencao) return "atencao";
+  return "ok";
+};
+
+// Formata um intervalo como "mm:ss" (ou "h:mm:ss" acima de uma hora)
+export const formatarCronometro = (ms: number): string => {
+  const totalSegundos = Math.max(0, Math.floor(ms / 1000));
+  const horas = Math.floor(totalSegundos / 3600);
+  const minutos = Math.floor((totalSegundos % 3600) / 60);
+  const segundos = totalSegundos % 60;
+  const mmss = `${String(minutos).padStart(2, "0")}:${String(segundos).padStart(2, "0")}`;
+  return horas > 0 ? `${horas}:${mmss}` : mmss;
+};
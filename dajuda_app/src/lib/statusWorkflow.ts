@@ -0,0 +1,160 @@
+import type { Pedido, StatusPagamento, StatusPedido } from "./pedidos";
+
+// Fluxo de trabalho dos pedidos: quais mudanças de status_pedido e pagamento são permitidas.
+// Avanços seguem a ordem da cozinha; retrocessos só de um passo e sempre com confirmação.
+
+export type ResultadoTransicao =
+  | { tipo: "permitida" }
+  | { tipo: "confirmacao"; motivo: "retrocesso" | "pagamento_pendente"; mensagem: string }
+  | { tipo: "rejeitada"; mensagem: string };
+
+export interface OpcoesTransicao {
+  // Quando true, "Entregue" com pagamento pendente é barrado sem opção de confirmar
+  bloquearEntregaSemPagamento?: boolean;
+}
+
+// Regras do fluxo escolhidas no painel, valendo para este navegador. O bloqueio vem ligado: quem
+// recebe na entrega desliga em "Regras de Status" ou marca o pagamento antes de entregar.
+export interface ConfigFluxo {
+  bloquearEntregaSemPagamento: boolean;
+}
+
+const STORAGE_KEY = "dajuda.fluxoStatus";
+
+export const configFluxoPadrao: ConfigFluxo = {
+  bloquearEntregaSemPagamento: true,
+};
+
+export const obterConfigFluxo = (): ConfigFluxo => {
+  try {
+    const salvo = localStorage.getItem(STORAGE_KEY);
+    return salvo ? { ...configFluxoPadrao, ...JSON.parse(salvo) } : configFluxoPadrao;
+  } catch (e) {
+    console.error("Erro ao ler regras do fluxo de status:", e);
+    return configFluxoPadrao;
+  }
+};
+
+export const salvarConfigFluxo = (config: ConfigFluxo) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(config));
+  } catch (e) {
+    console.error("Erro ao salvar regras do fluxo de status:", e);
+  }
+};
+
+// Avanços permitidos a partir de cada status. "Pronto" pode ir direto para "Entregue" (retirada no balcão).
+// Qualquer pedido ainda não entregue pode ser cancelado; o próximo status é sempre o primeiro da lista.
+const avancosPedido: Record<StatusPedido, StatusPedido[]> = {
+  "Aguardando": ["Em preparo", "Cancelado"],
+  "Em preparo": ["Pronto", "Cancelado"],
+  "Pronto": ["Enviado", "Entregue", "Cancelado"],
+  "Enviado": ["Entregue", "Cancelado"],
+  "Entregue": [],
+  "Cancelado": [],
+};
+
+// Retrocessos permitidos (correção de um clique errado), sempre mediante confirmação
+const retrocessosPedido: Record<StatusPedido, StatusPedido[]> = {
+  "Aguardando": [],
+  "Em preparo": ["Aguardando"],
+  "Pronto": ["Em preparo"],
+  "Enviado": ["Pronto"],
+  "Entregue": ["Enviado", "Pronto"],
+  "Cancelado": ["Aguardando"], // Reabrir um cancelamento feito por engano
+};
+
+const avancosPagamento: Record<StatusPagamento, StatusPagamento[]> = {
+  "Aguardando pagamento": ["Pago"],
+  "Pago": [],
+};
+
+const retrocessosPagamento: Record<StatusPagamento, StatusPagamento[]> = {
+  "Aguardando pagamento": [],
+  "Pago": ["Aguardando pagamento"],
+};
+
+export const proximoStatusPedido = (status: StatusPedido): StatusPedido | null =>
+  avancosPedido[status][0] ?? null;
+
+export const validarTransicaoStatus = (
+  pedido: Pedido,
+  novoStatus: StatusPedido,
+  opcoes: OpcoesTransicao = obterConfigFluxo()
+): ResultadoTransicao => {
+  const atual = pedido.status_pedido;
+  if (atual === novoStatus) {
+    return { tipo: "rejeitada", mensagem: `O pedido já está "${novoStatus}".` };
+  }
+
+  const avanco = avancosPedido[atual]?.includes(novoStatus) ?? false;
+  const retrocesso = retrocessosPedido[atual]?.includes(novoStatus) ?? false;
+
+  if (!avanco && !retrocesso) {
+    const permitidos = [...(avancosPedido[atual] ?? []), ...(retrocessosPedido[atual] ?? [])];
+    return {
+      tipo: "rejeitada",
+      mensagem: `Não é possível mudar de "${atual}" para "${novoStatus}".` +
+        (permitidos.length > 0 ? ` Próximos status possíveis: ${permitidos.join(", ")}.` : ""),
+    };
+  }
+
+  if (novoStatus === "Entregue" && pedido.pagamento === "Aguardando pagamento") {
+    if (opcoes.bloquearEntregaSemPagamento) {
+      return { tipo: "rejeitada", mensagem: "O pedido não pode ser marcado como \"Entregue\" enquanto o pagamento estiver pendente." };
+    }
+    return {
+      tipo: "confirmacao",
+      motivo: "pagamento_pendente",
+      mensagem: "O pagamento deste pedido ainda está pendente. Marcar como \"Entregue\" mesmo assim?",
+    };
+  }
+
+  if (retrocesso && atual === "Cancelado") {
+    return {
+      tipo: "confirmacao",
+      motivo: "retrocesso",
+      mensagem: "Reabrir o pedido cancelado? Ele volta para \"Aguardando\" e o motivo do cancelamento é apagado.",
+    };
+  }
+
+  if (retrocesso) {
+    return {
+      tipo: "confirmacao",
+      motivo: "retrocesso",
+      mensagem: `Voltar o pedido de "${atual}" para "${novoStatus}"?`,
+    };
+  }
+
+  return { tipo: "permitida" };
+};
+
+export const validarTransicaoPagamento = (pedido: Pedido, novoPagamento: StatusPagamento): ResultadoTransicao => {
+  const atual = pedido.pagamento;
+  if (atual === novoPagamento) {
+    return { tipo: "rejeitada", mensagem: `O pagamento já está "${novoPagamento}".` };
+  }
+  if (avancosPagamento[atual]?.includes(novoPagamento)) {
+    return { tipo: "permitida" };
+  }
+  if (retrocessosPagamento[atual]?.includes(novoPagamento)) {
+    return {
+      tipo: "confirmacao",
+      motivo: "retrocesso",
+      mensagem: `Voltar o pagamento de "${atual}" para "${novoPagamento}"?`,
+    };
+  }
+  return { tipo: "rejeitada", mensagem: `Não é possível mudar o pagamento de "${atual}" para "${novoPagamento}".` };
+};
+
+// Apresenta o resultado ao usuário: avisa quando rejeitada e pede confirmação quando necessário
+export const autorizarTransicao = (resultado: ResultadoTransicao): boolean => {
+  if (resultado.tipo === "rejeitada") {
+    alert(resultado.mensagem);
+    return false;
+  }
+  if (resultado.tipo === "confirmacao") {
+    return window.confirm(resultado.mensagem);
+  }
+  return true;
+};
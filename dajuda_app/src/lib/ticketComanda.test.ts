@@ -0,0 +1,71 @@
+import { readFileSync, writeFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { gerarTicketComanda } from "./ticketComanda";
+import type { Pedido } from "./pedidos";
+
+// Os .bin em __fixtures__ são os bytes aprovados; para regravá-los depois de uma mudança
+// intencional no layout: ATUALIZAR_GOLDEN=1 npx vitest run src/lib/ticketComanda.test.ts
+
+const caminhoFixture = (nome: string) => new URL(`./__fixtures__/${nome}`, import.meta.url);
+
+const conferirGolden = (nome: string, bytes: Uint8Array) => {
+  if (process.env.ATUALIZAR_GOLDEN) writeFileSync(caminhoFixture(nome), bytes);
+  expect(Array.from(bytes)).toEqual(Array.from(readFileSync(caminhoFixture(nome))));
+};
+
+const pedidoEntrega: Pedido = {
+  id: 42,
+  comanda: [
+    "*Pedido:*",
+    "1x Marmita de Frango Grelhado - R$ 24,00",
+    "   Obs: sem cebola, caprichar no feijão",
+    "2x Omelete de Queijo + Ovo Frito - R$ 38,00",
+    "",
+    "*Nome:* João Conceição",
+    "*Entrega:* Entrega",
+    "*Endereço:* Rua São João, 762",
+    "*Bairro:* Jardim América",
+    "*Pagamento:* Cartão na entrega",
+    "*Observação:* portão azul, não tocar a campainha",
+    "*Taxa de entrega:* R$ 5,00",
+    "*Total:* R$ 67,00",
+  ].join("\n"),
+  telefone_key: "5511987654321",
+  nome_cliente: "João Conceição",
+  status_pedido: "Em preparo",
+  pagamento: "Aguardando pagamento",
+  hora_criacao_pedido: "2026-10-19T15:30:00Z",
+};
+
+const pedidoRetiradaPago: Pedido = {
+  ...pedidoEntrega,
+  id: 43,
+  comanda: [
+    "*Pedido:*",
+    "1x Marmita do Dia - R$ 22,00",
+    "   Obs: farofa à parte",
+    "",
+    "*Nome:* Ângela",
+    "*Entrega:* Retirada",
+    "*Pagamento:* Pix",
+    "*Total:* R$ 22,00",
+  ].join("\n"),
+  nome_cliente: "Ângela",
+  pagamento: "Pago",
+};
+
+describe("gerarTicketComanda", () => {
+  it("gera o ticket de 58mm igual ao aprovado", () => {
+    conferirGolden("ticket-58mm.bin", gerarTicketComanda(pedidoEntrega, { larguraPapel: 58, nomeRestaurante: "D’Ajuda Refeições" }));
+  });
+
+  it("gera o ticket de 80mm igual ao aprovado", () => {
+    conferirGolden("ticket-80mm.bin", gerarTicketComanda(pedidoRetiradaPago, { larguraPapel: 80, nomeRestaurante: "D’Ajuda Refeições" }));
+  });
+
+  it("seleciona a página PC860 e termina com avanço e corte", () => {
+    const bytes = Array.from(gerarTicketComanda(pedidoEntrega, { larguraPapel: 58, nomeRestaurante: "D’Ajuda" }));
+    expect(bytes.slice(0, 5)).toEqual([0x1b, 0x40, 0x1b, 0x74, 3]);
+    expect(bytes.slice(-7)).toEqual([0x1b, 0x64, 3, 0x1d, 0x56, 0x42, 0x00]);
+  });
+});
@@ -0,0 +1,97 @@
+import { criarEscPos, type LarguraPapel } from "./escpos";
+import { parseComanda } from "./comandaParser";
+import { formatHoraPedido } from "./formatters";
+import type { Pedido } from "./pedidos";
+
+// Monta o ticket da cozinha/entrega de um pedido em ESC/POS.
+// Depende apenas do pedido e das opções, então a mesma entrada sempre gera os mesmos bytes.
+
+export interface OpcoesTicket {
+  larguraPapel: LarguraPapel;
+  nomeRestaurante: string;
+}
+
+const formatarValor = (valor: number): string =>
+  `R$ ${valor.toFixed(2).replace(".", ",")}`;
+
+const formatarDataPedido = (timestamp: string): string => {
+  const date = new Date(timestamp);
+  if (Number.isNaN(date.getTime())) return "";
+  return date.toLocaleDateString("pt-BR", { timeZone: "America/Sao_Paulo" });
+};
+
+export const gerarTicketComanda = (pedido: Pedido, opcoes: OpcoesTicket): Uint8Array => {
+  const comanda = parseComanda(pedido.comanda);
+  const ticket = criarEscPos(opcoes.larguraPapel);
+
+  ticket
+    .alinhar("centro")
+    .negrito(true)
+    .tamanho(2, 2)
+    .paragrafo(opcoes.nomeRestaurante)
+    .tamanho(1, 1)
+    .negrito(false)
+    .alinhar("esquerda")
+    .separador("=");
+
+  ticket.negrito(true).paragrafo(`Cliente: ${pedido.nome_cliente || "-"}`).negrito(false);
+  ticket.paragrafo(`Telefone: ${pedido.telefone_key}`);
+  if (pedido.hora_criacao_pedido) {
+    ticket.colunas(formatarDataPedido(pedido.hora_criacao_pedido), formatHoraPedido(pedido.hora_criacao_pedido));
+  }
+  if (comanda.tipoEntrega) {
+    ticket.negrito(true).linha(comanda.tipoEntrega.toUpperCase()).negrito(false);
+  }
+  ticket.separador();
+
+  if (comanda.itens.length > 0) {
+    comanda.itens.forEach(item => {
+      const descricao = `${item.quantidade}x ${item.produto}`;
+      ticket.negrito(true);
+      if (item.precoInformado !== undefined) {
+        ticket.colunas(descricao, formatarValor(item.precoInformado));
+      } else {
+        ticket.paragrafo(descricao, "   ");
+      }
+      ticket.negrito(false);
+      item.adicionais.forEach(adicional => ticket.paragrafo(`   + ${adicional}`, "     "));
+      item.observacoes.forEach(obs => ticket.paragrafo(`   Obs: ${obs}`, "     "));
+    });
+  } else {
+    // Sem itens reconhecidos: imprime o texto como veio
+    pedido.comanda.split("\n").forEach(l => ticket.paragrafo(l));
+  }
+
+  if (comanda.naoReconhecidas.length > 0 && comanda.itens.length > 0) {
+    comanda.naoReconhecidas.forEach(({ texto }) => ticket.paragrafo(texto));
+  }
+  ticket.separador();
+
+  if (comanda.endereco) ticket.paragrafo(`Endereço: ${comanda.endereco}`, "  ");
+  if (comanda.bairro) ticket.paragrafo(`Bairro: ${comanda.bairro}`, "  ");
+  if (comanda.complemento) ticket.paragrafo(`Compl.: ${comanda.complemento}`, "  ");
+  comanda.camposExtras.forEach(({ rotulo, valor }) => ticket.paragrafo(`${rotulo}: ${valor}`, "  "));
+  comanda.observacoes.forEach(obs => ticket.negrito(true).paragrafo(`Obs: ${obs}`, "  ").negrito(false));
+  if (comanda.formaPagamento) ticket.paragrafo(`Forma de pagamento: ${comanda.formaPagamento}`, "  ");
+  if (comanda.trocoSolicitado) {
+    ticket.paragrafo(comanda.trocoPara !== undefined ? `Troco para: ${formatarValor(comanda.trocoPara)}` : "Troco: Sim");
+  }
+  if (comanda.taxaEntregaInformada !== undefined) ticket.colunas("Taxa de entrega", formatarValor(comanda.taxaEntregaInformada));
+  if (comanda.totalInformado !== undefined) {
+    ticket.negrito(true).colunas("TOTAL", formatarValor(comanda.totalInformado)).negrito(false);
+  }
+
+  ticket
+    .separador("=")
+    .alinhar("centro")
+    .negrito(true)
+    .tamanho(1, 2)
+    .linha(pedido.pagamento === "Pago" ? "PAGO" : "PAGAMENTO PENDENTE")
+    .tamanho(1, 1)
+    .negrito(false)
+    .alinhar("esquerda")
+    .avancar(3)
+    .cortar();
+
+  return ticket.bytes();
+};
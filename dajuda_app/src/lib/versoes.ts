@@ -0,0 +1,82 @@
+import { supabase } from "../supabaseClient";
+import { obterOperador } from "./operador";
+import type { Pedido } from "./pedidos";
+import { backendDados, repositorios } from "./repositorios";
+
+// Versões anteriores da comanda. A edição é um UPDATE comum em "Comandas"; o trigger de histórico
+// guarda a versão substituída em "Comandas_versoes" e incrementa `versao` (ver supabase/migrations).
+
+export interface VersaoComanda {
+  versao: number;
+  comanda: string;
+  nome_cliente: string;
+  criada_em: string | null;
+  substituida_em: string | null; // Nulo na versão atual
+  substituida_por: string | null;
+}
+
+export interface LinhaDiff {
+  tipo: "igual" | "adicionada" | "removida";
+  texto: string;
+}
+
+export const pedidoModificado = (pedido: Pick<Pedido, "versao">): boolean => (pedido.versao ?? 1) > 1;
+
+// Como no histórico de status, o backend em memória não guarda as versões substituídas
+export const buscarVersoesPedido = async (pedido: Pedido) => {
+  if (backendDados === "memoria") return { data: [] as VersaoComanda[], error: null };
+  return supabase
+    .from("Comandas_versoes")
+    .select("versao, comanda, nome_cliente, criada_em, substituida_em, substituida_por")
+    .eq("comanda_id", pedido.id)
+    .order("versao", { ascending: true });
+};
+
+// Só grava se o pedido ainda estiver na versão que a edição partiu; se o bot ou outra pessoa
+// alterou antes, o repositório devolve 409 e nada é sobrescrito
+export const editarComanda = (pedido: Pedido, alteracoes: { comanda: string; nome_cliente: string }, versaoBase: number) =>
+  repositorios.pedidos.atualizar(pedido.id, { ...alteracoes, atualizado_por: obterOperador() || null }, { versao: versaoBase });
+
+// Versões anteriores seguidas da atual, que vem do próprio pedido
+export const montarVersoes = (pedido: Pedido, anteriores: VersaoComanda[]): VersaoComanda[] => [
+  ...anteriores,
+  {
+    versao: pedido.versao ?? anteriores.length + 1,
+    comanda: pedido.comanda,
+    nome_cliente: pedido.nome_cliente,
+    criada_em: pedido.modificado_em ?? pedido.hora_criacao_pedido,
+    substituida_em: null,
+    substituida_por: null,
+  },
+];
+
+// Diff por linha (maior subsequência comum). Comandas têm poucas dezenas de linhas, então a
+// tabela completa é barata.
+export const diffLinhas = (antes: string, depois: string): LinhaDiff[] => {
+  const a = antes.split(/\r?\n/);
+  const b = depois.split(/\r?\n/);
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const resultado: LinhaDiff[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      resultado.push({ tipo: "igual", texto: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      resultado.push({ tipo: "removida", texto: a[i++] });
+    } else {
+      resultado.push({ tipo: "adicionada", texto: b[j++] });
+    }
+  }
+  while (i < a.length) resultado.push({ tipo: "removida", texto: a[i++] });
+  while (j < b.length) resultado.push({ tipo: "adicionada", texto: b[j++] });
+  return resultado;
+};
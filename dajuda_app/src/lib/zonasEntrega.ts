@@ -0,0 +1,99 @@
+import { supabase } from "../supabaseClient";
+import { normalizarTexto, type ComandaEstruturada } from "./comandaParser";
+import { criarRepositorioTabela } from "./repositorioSupabase";
+
+// Zonas de entrega por bairro. O bairro vem do campo "Bairro:" da comanda ou, sem ele,
+// é procurado no endereço pelo nome cadastrado da zona e pelos seus apelidos.
+
+export interface ZonaEntrega {
+  id: number;
+  bairro: string;
+  apelidos: string[];
+  taxa_entrega: number;
+  pedido_minimo: number;
+  tempo_estimado_min: number;
+  ativo: boolean;
+}
+
+export type NovaZonaEntrega = Omit<ZonaEntrega, "id">;
+
+export type DeteccaoZona =
+  | { situacao: "encontrada"; zona: ZonaEntrega }
+  | { situacao: "fora"; bairroInformado?: string } // Endereço informado, mas sem zona correspondente
+  | { situacao: "sem-endereco" };
+
+// Lista e canal das zonas, para o painel mantê-las como as demais tabelas (hooks/use-tabela-realtime).
+// Só existe no Supabase; o backend em memória não tem zonas cadastradas.
+export const repositorioZonasEntrega = criarRepositorioTabela<ZonaEntrega>("Zonas_entrega", { coluna: "bairro", crescente: true });
+
+export const criarZonaEntrega = (zona: NovaZonaEntrega) =>
+  supabase
+    .from("Zonas_entrega")
+    .insert([zona]);
+
+export const atualizarZonaEntrega = (id: number, alteracoes: Partial<NovaZonaEntrega>) =>
+  supabase
+    .from("Zonas_entrega")
+    .update(alteracoes)
+    .eq("id", id);
+
+export const removerZonaEntrega = (id: number) =>
+  supabase
+    .from("Zonas_entrega")
+    .delete()
+    .eq("id", id);
+
+// Só letras e números separados por um espaço, para comparar palavras inteiras
+const normalizarBairro = (texto: string): string =>
+  normalizarTexto(texto).replace(/[^a-z0-9]+/g, " ").trim();
+
+const nomesDaZona = (zona: ZonaEntrega): string[] =>
+  [zona.bairro, ...(zona.apelidos ?? [])].map(normalizarBairro).filter(Boolean);
+
+// "Rua das Flores, 123 - Centro" → "Centro"
+export const extrairBairroDoEndereco = (endereco: string): string | undefined => {
+  const partes = endereco.split(/\s+[-–]\s+/);
+  const ultima = partes.length > 1 ? partes[partes.length - 1].trim() : "";
+  return ultima && /^\p{L}/u.test(ultima) ? ultima : undefined;
+};
+
+// A zona cujo nome (ou apelido) aparece como palavras inteiras no texto; o nome mais longo vence
+const zonaNoTexto = (texto: string, zonas: ZonaEntrega[]): ZonaEntrega | undefined => {
+  const alvo = ` ${normalizarBairro(texto)} `;
+  let melhor: { zona: ZonaEntrega; tamanho: number } | undefined;
+  zonas.forEach(zona => {
+    nomesDaZona(zona).forEach(nome => {
+      if (alvo.includes(` ${nome} `) && (!melhor || nome.length > melhor.tamanho)) {
+        melhor = { zona, tamanho: nome.length };
+      }
+    });
+  });
+  return melhor?.zona;
+};
+
+// Zona ativa de um bairro digitado: nome exato (ou apelido) primeiro, depois contido no texto
+export const zonaDoBairro = (bairro: string, zonas: ZonaEntrega[]): ZonaEntrega | undefined => {
+  const ativas = zonas.filter(z => z.ativo);
+  const alvo = normalizarBairro(bairro);
+  if (!alvo) return undefined;
+  return ativas.find(z => nomesDaZona(z).includes(alvo)) ?? zonaNoTexto(bairro, ativas);
+};
+
+export const detectarZonaEntrega = (comanda: ComandaEstruturada, zonas: ZonaEntrega[]): DeteccaoZona => {
+  if (!comanda.bairro && !comanda.endereco) return { situacao: "sem-endereco" };
+
+  if (comanda.bairro) {
+    const zona = zonaDoBairro(comanda.bairro, zonas);
+    return zona ? { situacao: "encontrada", zona } : { situacao: "fora", bairroInformado: comanda.bairro };
+  }
+
+  const endereco = [comanda.endereco, comanda.complemento].filter(Boolean).join(" - ");
+  const zona = zonaNoTexto(endereco, zonas.filter(z => z.ativo));
+  return zona
+    ? { situacao: "encontrada", zona }
+    : { situacao: "fora", bairroInformado: comanda.endereco ? extrairBairroDoEndereco(comanda.endereco) : undefined };
+};
+
+// Horário previsto de chegada a partir da criação do pedido
+export const previsaoEntrega = (horaCriacao: string, zona: Pick<ZonaEntrega, "tempo_estimado_min">): Date =>
+  new Date(new Date(horaCriacao).getTime() + zona.tempo_estimado_min * 60000);
@@ -1,16 +1,38 @@
 import { createClient, SupabaseClient } from "@supabase/supabase-js";
+import { modoDemoAtivo } from "./lib/modoDemo";
 
 // As variáveis de ambiente devem ser prefixadas com VITE_ para serem acessíveis no cliente com Vite
 const supabaseUrl: string | undefined = import.meta.env.VITE_SUPABASE_URL;
 const supabaseAnonKey: string | undefined = import.meta.env.VITE_SUPABASE_ANON_KEY;
 
-if (!supabaseUrl || !supabaseAnonKey) {
+// No backend em memória (VITE_BACKEND=memoria, ver lib/repositorios) o projeto é dispensável; o
+// cliente é criado com um endereço local só para os módulos que falam direto com o Supabase carregarem.
+const semProjeto = import.meta.env.VITE_BACKEND === "memoria";
+
+if ((!supabaseUrl || !supabaseAnonKey) && !semProjeto) {
   console.error("Supabase URL or Anon Key is missing. Make sure VITE_SUPABASE_URL and VITE_SUPABASE_ANON_KEY are set in your .env file and configured in your deployment environment.");
   // Em um app real, você poderia lançar um erro ou ter um estado de erro mais robusto na UI
   // Para este exemplo, vamos permitir que createClient lide com undefined, o que resultará em erro no runtime se não configurado.
 }
 
+// No modo demonstração o cliente só lê: qualquer escrita é recusada antes de sair do navegador,
+// para o treino nunca alterar o banco real (fechamento do dia, zonas, entregadores...). O login
+// passa, porque as leituras do banco real exigem alguém da equipe logado.
+const fetchSomenteLeitura: typeof fetch = (entrada, init) => {
+  const requisicao = entrada instanceof Request ? entrada : null;
+  // O método pode vir no init ou na própria Request, conforme o SDK chame o fetch
+  const metodo = (init?.method ?? requisicao?.method ?? "GET").toUpperCase();
+  const url = requisicao ? requisicao.url : String(entrada);
+  if (metodo === "GET" || metodo === "HEAD" || new URL(url).pathname.startsWith("/auth/v1/")) return fetch(entrada, init);
+  const corpo = JSON.stringify({ message: "Modo demonstração: alterações no sistema real estão bloqueadas." });
+  return Promise.resolve(new Response(corpo, { status: 403, headers: { "Content-Type": "application/json" } }));
+};
+
+const opcoes = modoDemoAtivo() ? { global: { fetch: fetchSomenteLeitura } } : {};
+
 // Exportar o cliente Supabase tipado
-export const supabase: SupabaseClient = createClient(supabaseUrl!, supabaseAnonKey!); // Usamos '!' para afirmar que não serão undefined neste ponto, após a verificação.
+export const supabase: SupabaseClient = semProjeto && (!supabaseUrl || !supabaseAnonKey)
+  ? createClient("http://localhost:54321", "sem-projeto", opcoes)
+  : createClient(supabaseUrl!, supabaseAnonKey!, opcoes); // Usamos '!' para afirmar que não serão undefined neste ponto, após a verificação.
                                                                                   // Idealmente, haveria um tratamento de erro mais gracioso se eles fossem undefined.
 
@@ -0,0 +1,66 @@
+-- Histórico append-only das mudanças de status_pedido e pagamento em "Comandas".
+-- O registro é feito por trigger, então qualquer cliente (painel, bot, SQL manual) fica rastreado.
+-- O painel envia o nome do operador em "atualizado_por" no mesmo UPDATE; o trigger consome esse
+-- valor e o limpa, para que uma atualização posterior sem autor não herde o nome anterior.
+
+alter table public."Comandas"
+  add column if not exists atualizado_por text;
+
+create table if not exists public."Comandas_historico" (
+  id bigint generated always as identity primary key,
+  telefone_key text not null,
+  campo text not null check (campo in ('status_pedido', 'pagamento')),
+  valor_anterior text,
+  valor_novo text,
+  alterado_em timestamptz not null default now(),
+  alterado_por text
+);
+
+create index if not exists comandas_historico_telefone_key_idx
+  on public."Comandas_historico" (telefone_key, alterado_em);
+
+create or replace function public.registrar_historico_comanda()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  autor text := coalesce(nullif(trim(new.atualizado_por), ''), 'sistema');
+begin
+  if tg_op = 'INSERT' then
+    insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_em, alterado_por)
+    values
+      (new.telefone_key, 'status_pedido', null, new.status_pedido, coalesce(new.hora_criacao_pedido, now()), autor),
+      (new.telefone_key, 'pagamento', null, new.pagamento, coalesce(new.hora_criacao_pedido, now()), autor);
+  else
+    if new.status_pedido is distinct from old.status_pedido then
+      insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.telefone_key, 'status_pedido', old.status_pedido, new.status_pedido, autor);
+    end if;
+    if new.pagamento is distinct from old.pagamento then
+      insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.telefone_key, 'pagamento', old.pagamento, new.pagamento, autor);
+    end if;
+  end if;
+  new.atualizado_por := null;
+  return new;
+end;
+$$;
+
+drop trigger if exists comandas_historico_trigger on public."Comandas";
+create trigger comandas_historico_trigger
+  before insert or update on public."Comandas"
+  for each row execute function public.registrar_historico_comanda();
+
+-- Somente leitura para os clientes: linhas são escritas apenas pelo trigger
+alter table public."Comandas_historico" enable row level security;
+
+drop policy if exists "Leitura do historico" on public."Comandas_historico";
+create policy "Leitura do historico"
+  on public."Comandas_historico"
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on public."Comandas_historico" from anon, authenticated;
@@ -0,0 +1,44 @@
+-- Momento em que o pedido entrou no status atual, usado pelos cronômetros de atraso do painel.
+-- Mantido pelo mesmo trigger do histórico.
+
+alter table public."Comandas"
+  add column if not exists status_alterado_em timestamptz;
+
+update public."Comandas"
+  set status_alterado_em = coalesce(
+    (select max(h.alterado_em) from public."Comandas_historico" h
+      where h.telefone_key = "Comandas".telefone_key and h.campo = 'status_pedido'),
+    hora_criacao_pedido
+  )
+  where status_alterado_em is null;
+
+create or replace function public.registrar_historico_comanda()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  autor text := coalesce(nullif(trim(new.atualizado_por), ''), 'sistema');
+begin
+  if tg_op = 'INSERT' then
+    new.status_alterado_em := coalesce(new.hora_criacao_pedido, now());
+    insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_em, alterado_por)
+    values
+      (new.telefone_key, 'status_pedido', null, new.status_pedido, new.status_alterado_em, autor),
+      (new.telefone_key, 'pagamento', null, new.pagamento, new.status_alterado_em, autor);
+  else
+    if new.status_pedido is distinct from old.status_pedido then
+      new.status_alterado_em := now();
+      insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.telefone_key, 'status_pedido', old.status_pedido, new.status_pedido, autor);
+    end if;
+    if new.pagamento is distinct from old.pagamento then
+      insert into public."Comandas_historico" (telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.telefone_key, 'pagamento', old.pagamento, new.pagamento, autor);
+    end if;
+  end if;
+  new.atualizado_por := null;
+  return new;
+end;
+$$;
@@ -0,0 +1,61 @@
+-- Identificador próprio para cada pedido, permitindo vários pedidos do mesmo telefone.
+-- Antes, "Comandas" era chaveada por telefone_key e um segundo pedido sobrescrevia o primeiro.
+--
+-- Migração das linhas existentes: a coluna identity é preenchida automaticamente para todas
+-- as linhas atuais, e o histórico é vinculado pelo telefone_key (que era único até aqui).
+-- Integrações que gravam em "Comandas" (ex.: o bot do WhatsApp) devem passar a fazer INSERT
+-- de um novo pedido em vez de upsert com on_conflict=telefone_key.
+
+alter table public."Comandas"
+  add column if not exists id bigint generated by default as identity;
+
+alter table public."Comandas" drop constraint if exists "Comandas_pkey";
+alter table public."Comandas" drop constraint if exists "Comandas_telefone_key_key";
+alter table public."Comandas" add constraint "Comandas_pkey" primary key (id);
+
+create index if not exists comandas_telefone_key_idx
+  on public."Comandas" (telefone_key, hora_criacao_pedido desc);
+
+-- Histórico passa a referenciar o pedido pelo id. Não há foreign key porque as linhas do
+-- INSERT são gravadas pelo trigger BEFORE, antes de o pedido existir na tabela.
+alter table public."Comandas_historico"
+  add column if not exists comanda_id bigint;
+
+update public."Comandas_historico" h
+  set comanda_id = c.id
+  from public."Comandas" c
+  where h.comanda_id is null and c.telefone_key = h.telefone_key;
+
+create index if not exists comandas_historico_comanda_id_idx
+  on public."Comandas_historico" (comanda_id, alterado_em);
+
+create or replace function public.registrar_historico_comanda()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  autor text := coalesce(nullif(trim(new.atualizado_por), ''), 'sistema');
+begin
+  if tg_op = 'INSERT' then
+    new.status_alterado_em := coalesce(new.hora_criacao_pedido, now());
+    insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_em, alterado_por)
+    values
+      (new.id, new.telefone_key, 'status_pedido', null, new.status_pedido, new.status_alterado_em, autor),
+      (new.id, new.telefone_key, 'pagamento', null, new.pagamento, new.status_alterado_em, autor);
+  else
+    if new.status_pedido is distinct from old.status_pedido then
+      new.status_alterado_em := now();
+      insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.id, new.telefone_key, 'status_pedido', old.status_pedido, new.status_pedido, autor);
+    end if;
+    if new.pagamento is distinct from old.pagamento then
+      insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.id, new.telefone_key, 'pagamento', old.pagamento, new.pagamento, autor);
+    end if;
+  end if;
+  new.atualizado_por := null;
+  return new;
+end;
+$$;
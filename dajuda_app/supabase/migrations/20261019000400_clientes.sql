@@ -0,0 +1,18 @@
+-- Anotações da equipe sobre cada cliente (ex.: "portaria pelo lado da padaria", "o de sempre").
+-- Os demais dados do diretório de clientes são calculados a partir de "Comandas".
+
+create table if not exists public."Clientes" (
+  telefone_key text primary key,
+  notas text not null default '',
+  atualizado_em timestamptz not null default now()
+);
+
+alter table public."Clientes" enable row level security;
+
+drop policy if exists "Acesso aos clientes" on public."Clientes";
+create policy "Acesso aos clientes"
+  on public."Clientes"
+  for all
+  to anon, authenticated
+  using (true)
+  with check (true);
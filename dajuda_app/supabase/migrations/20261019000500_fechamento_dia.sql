@@ -0,0 +1,126 @@
+-- Fechamento do dia: arquiva os pedidos entregues e pagos, registra as pendências (pedidos ainda
+-- abertos ou sem pagamento) e guarda um resumo consultável depois pela data.
+
+create table if not exists public."Comandas_arquivo" (
+  like public."Comandas" including defaults
+);
+
+alter table public."Comandas_arquivo"
+  add column if not exists arquivado_em timestamptz not null default now(),
+  add column if not exists fechamento_data date;
+
+alter table public."Comandas_arquivo" drop constraint if exists "Comandas_arquivo_pkey";
+alter table public."Comandas_arquivo" add constraint "Comandas_arquivo_pkey" primary key (id);
+
+create index if not exists comandas_arquivo_hora_idx
+  on public."Comandas_arquivo" (hora_criacao_pedido);
+create index if not exists comandas_arquivo_telefone_key_idx
+  on public."Comandas_arquivo" (telefone_key);
+
+create table if not exists public."Fechamentos" (
+  data date primary key,
+  fechado_em timestamptz not null default now(),
+  fechado_por text,
+  resumo jsonb not null,
+  pendencias jsonb not null default '[]'::jsonb,
+  arquivados integer not null default 0
+);
+
+-- Fecha o dia `p_data` (fuso de São Paulo). Pode ser executado mais de uma vez para a mesma data:
+-- o resumo é recalculado e os novos arquivamentos somados.
+create or replace function public.fechar_dia(p_data date, p_fechado_por text default null)
+returns public."Fechamentos"
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inicio timestamptz := p_data::timestamp at time zone 'America/Sao_Paulo';
+  v_fim timestamptz := (p_data + 1)::timestamp at time zone 'America/Sao_Paulo';
+  v_arquivados integer;
+  v_resumo jsonb;
+  v_pendencias jsonb;
+  v_fechamento public."Fechamentos";
+begin
+  -- Via jsonb para não depender da ordem das colunas entre "Comandas" e o arquivo
+  with movidos as (
+    delete from public."Comandas" c
+    where c.hora_criacao_pedido < v_fim
+      and c.status_pedido = 'Entregue'
+      and c.pagamento = 'Pago'
+    returning c.*
+  )
+  insert into public."Comandas_arquivo"
+  select (jsonb_populate_record(
+    null::public."Comandas_arquivo",
+    to_jsonb(m) || jsonb_build_object('arquivado_em', now(), 'fechamento_data', p_data)
+  )).*
+  from movidos m;
+  get diagnostics v_arquivados = row_count;
+
+  with do_dia as (
+    select status_pedido, pagamento from public."Comandas"
+      where hora_criacao_pedido >= v_inicio and hora_criacao_pedido < v_fim
+    union all
+    select status_pedido, pagamento from public."Comandas_arquivo"
+      where hora_criacao_pedido >= v_inicio and hora_criacao_pedido < v_fim
+  )
+  select jsonb_build_object(
+    'total_pedidos', count(*),
+    'pagos', count(*) filter (where pagamento = 'Pago'),
+    'pendentes_pagamento', count(*) filter (where pagamento is distinct from 'Pago'),
+    'por_status', coalesce(
+      (select jsonb_object_agg(s.status_pedido, s.quantidade)
+         from (select status_pedido, count(*) as quantidade from do_dia group by status_pedido) s),
+      '{}'::jsonb
+    )
+  )
+  into v_resumo
+  from do_dia;
+
+  -- Tudo o que sobrou até o fim do dia está aberto ou sem pagamento
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'nome_cliente', nome_cliente,
+    'telefone_key', telefone_key,
+    'status_pedido', status_pedido,
+    'pagamento', pagamento,
+    'hora_criacao_pedido', hora_criacao_pedido
+  ) order by hora_criacao_pedido), '[]'::jsonb)
+  into v_pendencias
+  from public."Comandas"
+  where hora_criacao_pedido < v_fim;
+
+  insert into public."Fechamentos" (data, fechado_em, fechado_por, resumo, pendencias, arquivados)
+  values (p_data, now(), nullif(trim(p_fechado_por), ''), v_resumo, v_pendencias, v_arquivados)
+  on conflict (data) do update set
+    fechado_em = excluded.fechado_em,
+    fechado_por = excluded.fechado_por,
+    resumo = excluded.resumo,
+    pendencias = excluded.pendencias,
+    arquivados = public."Fechamentos".arquivados + excluded.arquivados
+  returning * into v_fechamento;
+
+  return v_fechamento;
+end;
+$$;
+
+grant execute on function public.fechar_dia(date, text) to anon, authenticated;
+
+-- Arquivo e fechamentos são somente leitura para os clientes; a escrita é feita por fechar_dia
+alter table public."Comandas_arquivo" enable row level security;
+alter table public."Fechamentos" enable row level security;
+
+drop policy if exists "Leitura do arquivo" on public."Comandas_arquivo";
+create policy "Leitura do arquivo"
+  on public."Comandas_arquivo"
+  for select
+  to anon, authenticated
+  using (true);
+
+drop policy if exists "Leitura dos fechamentos" on public."Fechamentos";
+create policy "Leitura dos fechamentos"
+  on public."Fechamentos"
+  for select
+  to anon, authenticated
+  using (true);
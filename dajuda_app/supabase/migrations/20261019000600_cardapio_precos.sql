@@ -0,0 +1,12 @@
+-- Preço e preço promocional dos itens do cardápio, usados para calcular o total dos pedidos.
+-- Nulos enquanto o item não tiver preço cadastrado.
+
+alter table public."Cárdapio"
+  add column if not exists preco numeric(10, 2),
+  add column if not exists preco_promocional numeric(10, 2);
+
+alter table public."Cárdapio" drop constraint if exists cardapio_preco_positivo;
+alter table public."Cárdapio"
+  add constraint cardapio_preco_positivo check (
+    (preco is null or preco >= 0) and (preco_promocional is null or preco_promocional >= 0)
+  );
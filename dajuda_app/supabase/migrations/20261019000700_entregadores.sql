@@ -0,0 +1,61 @@
+-- Cadastro de entregadores e vínculo do pedido com quem saiu para entregá-lo.
+-- A taxa do entregador é copiada para o pedido no envio, para que mudanças no cadastro
+-- não alterem o acerto de dias anteriores.
+
+create table if not exists public."Entregadores" (
+  id bigint generated by default as identity primary key,
+  nome text not null,
+  telefone text,
+  taxa_por_entrega numeric(10, 2) not null default 0 check (taxa_por_entrega >= 0),
+  ativo boolean not null default true,
+  criado_em timestamptz not null default now()
+);
+
+alter table public."Comandas"
+  add column if not exists entregador_id bigint references public."Entregadores" (id) on delete set null,
+  add column if not exists taxa_entregador numeric(10, 2),
+  add column if not exists enviado_em timestamptz;
+
+-- O arquivo do fechamento do dia acompanha as colunas de "Comandas"
+alter table public."Comandas_arquivo"
+  add column if not exists entregador_id bigint,
+  add column if not exists taxa_entregador numeric(10, 2),
+  add column if not exists enviado_em timestamptz;
+
+create index if not exists comandas_entregador_idx
+  on public."Comandas" (entregador_id, enviado_em);
+create index if not exists comandas_arquivo_entregador_idx
+  on public."Comandas_arquivo" (entregador_id, enviado_em);
+
+-- Momento da saída para entrega, registrado pelo relógio do banco. Um pedido que volta para
+-- antes de "Enviado" deixa de contar como entrega do entregador.
+create or replace function public.registrar_envio_comanda()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status_pedido = 'Enviado' and old.status_pedido is distinct from 'Enviado' then
+    new.enviado_em := now();
+  elsif new.status_pedido in ('Aguardando', 'Em preparo', 'Pronto') then
+    new.entregador_id := null;
+    new.taxa_entregador := null;
+    new.enviado_em := null;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comandas_envio on public."Comandas";
+create trigger comandas_envio
+  before update on public."Comandas"
+  for each row execute function public.registrar_envio_comanda();
+
+alter table public."Entregadores" enable row level security;
+
+drop policy if exists "Acesso aos entregadores" on public."Entregadores";
+create policy "Acesso aos entregadores"
+  on public."Entregadores"
+  for all
+  to anon, authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,26 @@
+-- Zonas de entrega por bairro: taxa cobrada, pedido mínimo e tempo estimado de entrega.
+-- `apelidos` guarda outras grafias do mesmo bairro (ex.: "Jd. América" para "Jardim América").
+
+create table if not exists public."Zonas_entrega" (
+  id bigint generated by default as identity primary key,
+  bairro text not null,
+  apelidos text[] not null default '{}',
+  taxa_entrega numeric(10, 2) not null default 0 check (taxa_entrega >= 0),
+  pedido_minimo numeric(10, 2) not null default 0 check (pedido_minimo >= 0),
+  tempo_estimado_min integer not null default 40 check (tempo_estimado_min > 0),
+  ativo boolean not null default true,
+  criado_em timestamptz not null default now()
+);
+
+create unique index if not exists zonas_entrega_bairro_idx
+  on public."Zonas_entrega" (lower(bairro));
+
+alter table public."Zonas_entrega" enable row level security;
+
+drop policy if exists "Acesso às zonas de entrega" on public."Zonas_entrega";
+create policy "Acesso às zonas de entrega"
+  on public."Zonas_entrega"
+  for all
+  to anon, authenticated
+  using (true)
+  with check (true);
@@ -0,0 +1,73 @@
+-- Edição do texto da comanda e do nome do cliente com todas as versões anteriores guardadas.
+-- "Comandas" mantém a versão atual e o número dela; cada versão substituída vai para
+-- "Comandas_versoes" com quem a substituiu. O registro fica no trigger de histórico, que é
+-- quem consome "atualizado_por" (um trigger separado rodaria depois e já veria o autor limpo).
+
+alter table public."Comandas"
+  add column if not exists versao integer not null default 1,
+  add column if not exists modificado_em timestamptz;
+
+alter table public."Comandas_arquivo"
+  add column if not exists versao integer not null default 1,
+  add column if not exists modificado_em timestamptz;
+
+create table if not exists public."Comandas_versoes" (
+  id bigint generated always as identity primary key,
+  comanda_id bigint not null,
+  versao integer not null,
+  comanda text,
+  nome_cliente text,
+  criada_em timestamptz,
+  substituida_em timestamptz not null default now(),
+  substituida_por text,
+  unique (comanda_id, versao)
+);
+
+create or replace function public.registrar_historico_comanda()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  autor text := coalesce(nullif(trim(new.atualizado_por), ''), 'sistema');
+begin
+  if tg_op = 'INSERT' then
+    new.status_alterado_em := coalesce(new.hora_criacao_pedido, now());
+    insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_em, alterado_por)
+    values
+      (new.id, new.telefone_key, 'status_pedido', null, new.status_pedido, new.status_alterado_em, autor),
+      (new.id, new.telefone_key, 'pagamento', null, new.pagamento, new.status_alterado_em, autor);
+  else
+    if new.status_pedido is distinct from old.status_pedido then
+      new.status_alterado_em := now();
+      insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.id, new.telefone_key, 'status_pedido', old.status_pedido, new.status_pedido, autor);
+    end if;
+    if new.pagamento is distinct from old.pagamento then
+      insert into public."Comandas_historico" (comanda_id, telefone_key, campo, valor_anterior, valor_novo, alterado_por)
+      values (new.id, new.telefone_key, 'pagamento', old.pagamento, new.pagamento, autor);
+    end if;
+    if new.comanda is distinct from old.comanda or new.nome_cliente is distinct from old.nome_cliente then
+      insert into public."Comandas_versoes" (comanda_id, versao, comanda, nome_cliente, criada_em, substituida_por)
+      values (old.id, old.versao, old.comanda, old.nome_cliente, coalesce(old.modificado_em, old.hora_criacao_pedido), autor);
+      new.versao := old.versao + 1;
+      new.modificado_em := now();
+    end if;
+  end if;
+  new.atualizado_por := null;
+  return new;
+end;
+$$;
+
+-- Somente leitura para os clientes: linhas são escritas apenas pelo trigger
+alter table public."Comandas_versoes" enable row level security;
+
+drop policy if exists "Leitura das versoes" on public."Comandas_versoes";
+create policy "Leitura das versoes"
+  on public."Comandas_versoes"
+  for select
+  to anon, authenticated
+  using (true);
+
+revoke insert, update, delete, truncate on public."Comandas_versoes" from anon, authenticated;
@@ -0,0 +1,140 @@
+-- Cancelamento de pedidos com motivo obrigatório. O pedido cancelado continua em "Comandas"
+-- (e depois no arquivo) para os relatórios; quando já estava pago, fica com o reembolso pendente
+-- até alguém registrar a devolução.
+
+alter table public."Comandas"
+  add column if not exists motivo_cancelamento text,
+  add column if not exists cancelado_em timestamptz,
+  add column if not exists cancelado_por text,
+  add column if not exists reembolso text check (reembolso in ('Pendente', 'Reembolsado')),
+  add column if not exists reembolsado_em timestamptz;
+
+alter table public."Comandas"
+  drop constraint if exists comandas_motivo_cancelamento_check;
+alter table public."Comandas"
+  add constraint comandas_motivo_cancelamento_check
+  check (status_pedido is distinct from 'Cancelado' or nullif(trim(motivo_cancelamento), '') is not null);
+
+alter table public."Comandas_arquivo"
+  add column if not exists motivo_cancelamento text,
+  add column if not exists cancelado_em timestamptz,
+  add column if not exists cancelado_por text,
+  add column if not exists reembolso text,
+  add column if not exists reembolsado_em timestamptz;
+
+-- Roda antes do trigger de histórico (ordem alfabética), então ainda enxerga "atualizado_por".
+-- Reabrir um pedido apaga os dados do cancelamento; se o valor já tinha sido devolvido,
+-- o pagamento volta a ficar pendente.
+create or replace function public.registrar_cancelamento_comanda()
+returns trigger
+language plpgsql
+as $$
+begin
+  if new.status_pedido = 'Cancelado' and old.status_pedido is distinct from 'Cancelado' then
+    new.cancelado_em := now();
+    new.cancelado_por := coalesce(nullif(trim(new.atualizado_por), ''), 'sistema');
+    new.reembolso := case when new.pagamento = 'Pago' then 'Pendente' end;
+    new.reembolsado_em := null;
+  elsif old.status_pedido = 'Cancelado' and new.status_pedido is distinct from 'Cancelado' then
+    if old.reembolso = 'Reembolsado' then
+      new.pagamento := 'Aguardando pagamento';
+    end if;
+    new.motivo_cancelamento := null;
+    new.cancelado_em := null;
+    new.cancelado_por := null;
+    new.reembolso := null;
+    new.reembolsado_em := null;
+  elsif new.reembolso = 'Reembolsado' and old.reembolso is distinct from 'Reembolsado' then
+    new.reembolsado_em := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists comandas_cancelamento on public."Comandas";
+create trigger comandas_cancelamento
+  before update on public."Comandas"
+  for each row execute function public.registrar_cancelamento_comanda();
+
+-- Cancelados também são arquivados no fechamento, exceto os que aguardam reembolso,
+-- que continuam no painel como pendência. O resumo passa a contar os cancelamentos.
+create or replace function public.fechar_dia(p_data date, p_fechado_por text default null)
+returns public."Fechamentos"
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_inicio timestamptz := p_data::timestamp at time zone 'America/Sao_Paulo';
+  v_fim timestamptz := (p_data + 1)::timestamp at time zone 'America/Sao_Paulo';
+  v_arquivados integer;
+  v_resumo jsonb;
+  v_pendencias jsonb;
+  v_fechamento public."Fechamentos";
+begin
+  -- Via jsonb para não depender da ordem das colunas entre "Comandas" e o arquivo
+  with movidos as (
+    delete from public."Comandas" c
+    where c.hora_criacao_pedido < v_fim
+      and (
+        (c.status_pedido = 'Entregue' and c.pagamento = 'Pago')
+        or (c.status_pedido = 'Cancelado' and c.reembolso is distinct from 'Pendente')
+      )
+    returning c.*
+  )
+  insert into public."Comandas_arquivo"
+  select (jsonb_populate_record(
+    null::public."Comandas_arquivo",
+    to_jsonb(m) || jsonb_build_object('arquivado_em', now(), 'fechamento_data', p_data)
+  )).*
+  from movidos m;
+  get diagnostics v_arquivados = row_count;
+
+  with do_dia as (
+    select status_pedido, pagamento from public."Comandas"
+      where hora_criacao_pedido >= v_inicio and hora_criacao_pedido < v_fim
+    union all
+    select status_pedido, pagamento from public."Comandas_arquivo"
+      where hora_criacao_pedido >= v_inicio and hora_criacao_pedido < v_fim
+  )
+  select jsonb_build_object(
+    'total_pedidos', count(*),
+    'pagos', count(*) filter (where pagamento = 'Pago' and status_pedido <> 'Cancelado'),
+    'pendentes_pagamento', count(*) filter (where pagamento is distinct from 'Pago' and status_pedido <> 'Cancelado'),
+    'cancelados', count(*) filter (where status_pedido = 'Cancelado'),
+    'por_status', coalesce(
+      (select jsonb_object_agg(s.status_pedido, s.quantidade)
+         from (select status_pedido, count(*) as quantidade from do_dia group by status_pedido) s),
+      '{}'::jsonb
+    )
+  )
+  into v_resumo
+  from do_dia;
+
+  -- Tudo o que sobrou até o fim do dia está aberto, sem pagamento ou aguardando reembolso
+  select coalesce(jsonb_agg(jsonb_build_object(
+    'id', id,
+    'nome_cliente', nome_cliente,
+    'telefone_key', telefone_key,
+    'status_pedido', status_pedido,
+    'pagamento', pagamento,
+    'reembolso', reembolso,
+    'hora_criacao_pedido', hora_criacao_pedido
+  ) order by hora_criacao_pedido), '[]'::jsonb)
+  into v_pendencias
+  from public."Comandas"
+  where hora_criacao_pedido < v_fim;
+
+  insert into public."Fechamentos" (data, fechado_em, fechado_por, resumo, pendencias, arquivados)
+  values (p_data, now(), nullif(trim(p_fechado_por), ''), v_resumo, v_pendencias, v_arquivados)
+  on conflict (data) do update set
+    fechado_em = excluded.fechado_em,
+    fechado_por = excluded.fechado_por,
+    resumo = excluded.resumo,
+    pendencias = excluded.pendencias,
+    arquivados = public."Fechamentos".arquivados + excluded.arquivados
+  returning * into v_fechamento;
+
+  return v_fechamento;
+end;
+$$;
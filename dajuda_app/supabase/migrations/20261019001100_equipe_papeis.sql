@@ -0,0 +1,260 @@
+-- Login da equipe com papel. Cada usuário do Supabase Auth que trabalha no painel tem um perfil em
+-- "Equipe" com o nome que aparece no histórico e o papel:
+--   cozinha: altera o status dos pedidos
+--   caixa:   altera o pagamento, registra reembolsos, lança pedidos pelo telefone, edita a
+--            comanda e o nome do cliente e fecha o dia
+--   admin:   tudo, inclusive incluir e excluir itens do cardápio e cadastrar a equipe
+-- O acesso anônimo (só com a anon key) deixa de ler ou alterar os dados do painel. O bot do
+-- WhatsApp, que grava as comandas, precisa usar a service_role key, que não passa pelas políticas.
+--
+-- Para cadastrar alguém: crie o usuário em Authentication > Users e depois
+--   insert into public."Equipe" (user_id, nome, papel) values ('<uuid do usuário>', 'Maria', 'caixa');
+-- O primeiro admin é cadastrado assim pelo SQL Editor; os seguintes, por qualquer admin.
+
+create table if not exists public."Equipe" (
+  user_id uuid primary key references auth.users (id) on delete cascade,
+  nome text not null check (trim(nome) <> ''),
+  papel text not null check (papel in ('cozinha', 'caixa', 'admin')),
+  criado_em timestamptz not null default now()
+);
+
+-- Papel de quem fez a requisição, nulo para quem não é da equipe. Security definer para as
+-- políticas de "Equipe" poderem consultá-la sem cair nelas de novo.
+create or replace function public.papel_atual()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select papel from public."Equipe" where user_id = auth.uid();
+$$;
+
+revoke execute on function public.papel_atual() from public;
+grant execute on function public.papel_atual() to authenticated;
+
+alter table public."Equipe" enable row level security;
+
+drop policy if exists "Leitura da equipe" on public."Equipe";
+create policy "Leitura da equipe"
+  on public."Equipe"
+  for select
+  to authenticated
+  using (user_id = auth.uid() or public.papel_atual() = 'admin');
+
+drop policy if exists "Cadastro da equipe" on public."Equipe";
+create policy "Cadastro da equipe"
+  on public."Equipe"
+  for all
+  to authenticated
+  using (public.papel_atual() = 'admin')
+  with check (public.papel_atual() = 'admin');
+
+-- "Comandas" e "Cárdapio" foram criadas pelo painel do Supabase com políticas liberadas para a
+-- anon key; como políticas se somam, as antigas são removidas antes das novas
+do $$
+declare
+  v_politica record;
+begin
+  for v_politica in
+    select policyname, tablename from pg_policies
+    where schemaname = 'public' and tablename in ('Comandas', 'Cárdapio')
+  loop
+    execute format('drop policy %I on public.%I', v_politica.policyname, v_politica.tablename);
+  end loop;
+end;
+$$;
+
+alter table public."Comandas" enable row level security;
+
+create policy "Leitura das comandas pela equipe"
+  on public."Comandas"
+  for select
+  to authenticated
+  using (public.papel_atual() is not null);
+
+create policy "Pedidos lançados pelo caixa"
+  on public."Comandas"
+  for insert
+  to authenticated
+  with check (public.papel_atual() in ('caixa', 'admin'));
+
+-- Quais colunas cada papel pode mudar fica no trigger abaixo; a política só exige ser da equipe
+create policy "Alteração das comandas pela equipe"
+  on public."Comandas"
+  for update
+  to authenticated
+  using (public.papel_atual() is not null)
+  with check (public.papel_atual() is not null);
+
+create policy "Exclusão de comandas pelo admin"
+  on public."Comandas"
+  for delete
+  to authenticated
+  using (public.papel_atual() = 'admin');
+
+-- Roda antes dos demais triggers de "Comandas" (ordem alfabética): confere as colunas contra o
+-- papel antes que os outros mexam nelas, e troca "atualizado_por" pelo nome do perfil, para o
+-- histórico não depender do que o navegador mandou. Sem usuário logado (bot com a service_role,
+-- fechar_dia) não há o que conferir.
+create or replace function public.autorizar_alteracao_comanda()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_membro public."Equipe";
+begin
+  if auth.uid() is null then
+    return new;
+  end if;
+
+  select * into v_membro from public."Equipe" where user_id = auth.uid();
+  if not found then
+    raise exception 'Usuário sem perfil na equipe' using errcode = '42501';
+  end if;
+
+  if tg_op = 'UPDATE' and v_membro.papel <> 'admin' then
+    if v_membro.papel <> 'cozinha' and (
+      new.status_pedido is distinct from old.status_pedido
+      or new.motivo_cancelamento is distinct from old.motivo_cancelamento
+    ) then
+      raise exception 'Só a cozinha altera o status do pedido' using errcode = '42501';
+    end if;
+    if v_membro.papel <> 'caixa' and (
+      new.pagamento is distinct from old.pagamento
+      or new.reembolso is distinct from old.reembolso
+    ) then
+      raise exception 'Só o caixa altera o pagamento do pedido' using errcode = '42501';
+    end if;
+    if v_membro.papel <> 'caixa' and (
+      new.comanda is distinct from old.comanda
+      or new.nome_cliente is distinct from old.nome_cliente
+    ) then
+      raise exception 'Só o caixa edita a comanda e o nome do cliente' using errcode = '42501';
+    end if;
+  end if;
+
+  new.atualizado_por := v_membro.nome;
+  return new;
+end;
+$$;
+
+drop trigger if exists comandas_autorizacao on public."Comandas";
+create trigger comandas_autorizacao
+  before insert or update on public."Comandas"
+  for each row execute function public.autorizar_alteracao_comanda();
+
+-- O cardápio continua público para leitura (o bot e o site consultam preços); a equipe edita os
+-- itens (preço, disponibilidade), mas só o admin inclui e exclui
+alter table public."Cárdapio" enable row level security;
+
+create policy "Leitura do cardápio"
+  on public."Cárdapio"
+  for select
+  to anon, authenticated
+  using (true);
+
+create policy "Inclusão no cardápio pelo admin"
+  on public."Cárdapio"
+  for insert
+  to authenticated
+  with check (public.papel_atual() = 'admin');
+
+create policy "Edição do cardápio pela equipe"
+  on public."Cárdapio"
+  for update
+  to authenticated
+  using (public.papel_atual() is not null)
+  with check (public.papel_atual() is not null);
+
+create policy "Exclusão do cardápio pelo admin"
+  on public."Cárdapio"
+  for delete
+  to authenticated
+  using (public.papel_atual() = 'admin');
+
+-- As tabelas das migrações anteriores também deixam de aceitar a anon key
+
+drop policy if exists "Acesso aos clientes" on public."Clientes";
+create policy "Acesso aos clientes"
+  on public."Clientes"
+  for all
+  to authenticated
+  using (public.papel_atual() is not null)
+  with check (public.papel_atual() is not null);
+
+drop policy if exists "Acesso aos entregadores" on public."Entregadores";
+create policy "Acesso aos entregadores"
+  on public."Entregadores"
+  for all
+  to authenticated
+  using (public.papel_atual() is not null)
+  with check (public.papel_atual() is not null);
+
+drop policy if exists "Acesso às zonas de entrega" on public."Zonas_entrega";
+create policy "Acesso às zonas de entrega"
+  on public."Zonas_entrega"
+  for all
+  to authenticated
+  using (public.papel_atual() is not null)
+  with check (public.papel_atual() is not null);
+
+drop policy if exists "Leitura do historico" on public."Comandas_historico";
+create policy "Leitura do historico"
+  on public."Comandas_historico"
+  for select
+  to authenticated
+  using (public.papel_atual() is not null);
+
+drop policy if exists "Leitura das versoes" on public."Comandas_versoes";
+create policy "Leitura das versoes"
+  on public."Comandas_versoes"
+  for select
+  to authenticated
+  using (public.papel_atual() is not null);
+
+drop policy if exists "Leitura do arquivo" on public."Comandas_arquivo";
+create policy "Leitura do arquivo"
+  on public."Comandas_arquivo"
+  for select
+  to authenticated
+  using (public.papel_atual() is not null);
+
+drop policy if exists "Leitura dos fechamentos" on public."Fechamentos";
+create policy "Leitura dos fechamentos"
+  on public."Fechamentos"
+  for select
+  to authenticated
+  using (public.papel_atual() is not null);
+
+-- fechar_dia é security definer e passa por cima das políticas; a checagem fica no registro do
+-- fechamento, que é o último passo dela, e uma exceção ali desfaz também o arquivamento. Fecham o
+-- dia o caixa e o admin; sem usuário logado, só a service_role.
+revoke execute on function public.fechar_dia(date, text) from public, anon;
+grant execute on function public.fechar_dia(date, text) to authenticated, service_role;
+
+create or replace function public.exigir_equipe_no_fechamento()
+returns trigger
+language plpgsql
+as $$
+begin
+  if auth.uid() is null then
+    if coalesce(auth.role(), '') <> 'service_role' then
+      raise exception 'Fechamento sem usuário logado' using errcode = '42501';
+    end if;
+    return new;
+  end if;
+
+  if coalesce(public.papel_atual(), '') not in ('caixa', 'admin') then
+    raise exception 'Só o caixa e o admin fecham o dia' using errcode = '42501';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists fechamentos_equipe on public."Fechamentos";
+create trigger fechamentos_equipe
+  before insert or update on public."Fechamentos"
+  for each row execute function public.exigir_equipe_no_fechamento();